@@ -0,0 +1,274 @@
+import { BigNumber, utils } from "ethers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+  backfill,
+  backfillMarkets,
+  createFileCheckpointStore,
+  getRangeBlocks,
+  toCsv,
+  toJson,
+} from "../../../typescript/morpho-aave-v3/backfill";
+import { MarketDataPoint } from "../../../typescript/morpho-aave-v3/types";
+
+import { loadFixtures, ReplayProvider } from "./fixtures";
+import {
+  getReserveConfiguration,
+  MockProvider,
+  mockMarket,
+  mockMarketsSnapshot,
+  mockReserve,
+} from "./mocks";
+import { getBackfillRange } from "./record";
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+const range = { fromBlock: 100, toBlock: 104, step: 2 };
+
+describe("getRangeBlocks", () => {
+  it("lists the blocks of the range, the last one included", () => {
+    expect(getRangeBlocks(range)).toEqual([100, 102, 104]);
+    expect(getRangeBlocks({ fromBlock: 100, toBlock: 105, step: 2 })).toEqual([100, 102, 104]);
+  });
+
+  it("rejects a non-positive step", () => {
+    expect(() => getRangeBlocks({ ...range, step: 0 })).toThrow(
+      "Invalid backfill step 0, must be positive"
+    );
+  });
+});
+
+describe("backfill", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "backfill-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const fetchDataPoints = jest.fn(async (blockNumber: number) => [{ blockNumber }]);
+
+  beforeEach(() => {
+    fetchDataPoints.mockClear();
+  });
+
+  it("resumes an interrupted backfill after the last block saved", async () => {
+    const checkpoint = createFileCheckpointStore(join(dir, "checkpoint.json"));
+
+    await expect(
+      backfill(
+        async (blockNumber) => {
+          if (blockNumber === 104) throw new Error("Interrupted");
+
+          return fetchDataPoints(blockNumber);
+        },
+        range,
+        { checkpoint }
+      )
+    ).rejects.toThrow("Interrupted");
+    expect(await checkpoint.load()).toBe(102);
+
+    const onDataPoints = jest.fn();
+    const dataPoints = await backfill(fetchDataPoints, range, { checkpoint, onDataPoints });
+
+    expect(dataPoints).toEqual([{ blockNumber: 104 }]);
+    expect(onDataPoints.mock.calls).toEqual([[[{ blockNumber: 104 }], 104]]);
+    expect(fetchDataPoints.mock.calls.map(([blockNumber]) => blockNumber)).toEqual([100, 102, 104]);
+    expect(await checkpoint.load()).toBe(104);
+  });
+
+  it("fetches nothing once the range is backfilled", async () => {
+    const checkpoint = createFileCheckpointStore(join(dir, "checkpoint.json"));
+
+    await backfill(fetchDataPoints, range, { checkpoint });
+    fetchDataPoints.mockClear();
+
+    expect(await backfill(fetchDataPoints, range, { checkpoint })).toEqual([]);
+    expect(fetchDataPoints).not.toHaveBeenCalled();
+  });
+
+  it("starts from the first block without any checkpoint saved", async () => {
+    const checkpoint = createFileCheckpointStore(join(dir, "checkpoint.json"));
+
+    expect(await checkpoint.load()).toBeUndefined();
+    expect(await backfill(fetchDataPoints, range, { checkpoint })).toEqual([
+      { blockNumber: 100 },
+      { blockNumber: 102 },
+      { blockNumber: 104 },
+    ]);
+  });
+});
+
+describe("backfillMarkets", () => {
+  // The price of USDC is 1 + 0.01 per block since block 100 and the pool supply grows by 1,000 USDC per block.
+  const getMarkets = (blockNumber: number) => {
+    const timestamp = MockProvider.getTimestamp(blockNumber);
+
+    return [
+      {
+        market: mockMarket({
+          underlying: USDC,
+          aToken: "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c",
+          variableDebtToken: "0x72E95b8931767C79bA4EeE721354d6E99a61D004",
+          lastUpdateTimestamp: timestamp,
+        }),
+        reserve: mockReserve({
+          lastUpdateTimestamp: timestamp,
+          configuration: getReserveConfiguration({ decimals: 6 }),
+        }),
+        price: utils.parseUnits("1", 8).add(utils.parseUnits("0.01", 8).mul(blockNumber - 100)),
+        poolSupplyAmount: utils.parseUnits("1000", 6).mul(blockNumber - 99),
+        poolBorrowAmount: utils.parseUnits("500", 6),
+      },
+      {
+        market: mockMarket({
+          underlying: WETH,
+          aToken: "0x4d5F47FA6A74757f35C14fD3a6Ef8E3C9BC514E8",
+          variableDebtToken: "0xeA51d7853EEFb32b6ee06b1C12E6dcCA88Be0fFE",
+          lastUpdateTimestamp: timestamp,
+        }),
+        reserve: mockReserve({
+          lastUpdateTimestamp: timestamp,
+          configuration: getReserveConfiguration({ decimals: 18 }),
+        }),
+        price: utils.parseUnits("1800", 8),
+        poolSupplyAmount: utils.parseEther("10"),
+        poolBorrowAmount: utils.parseEther("5"),
+      },
+    ];
+  };
+
+  const getProvider = () => mockMarketsSnapshot(new MockProvider(104), getMarkets);
+
+  it("backfills the markets at each block of the range", async () => {
+    const dataPoints = await backfillMarkets(range, getProvider());
+
+    expect(dataPoints.map(({ blockNumber, underlying }) => [blockNumber, underlying])).toEqual([
+      [100, USDC],
+      [100, WETH],
+      [102, USDC],
+      [102, WETH],
+      [104, USDC],
+      [104, WETH],
+    ]);
+    expect(dataPoints[2]).toMatchObject({
+      timestamp: MockProvider.getTimestamp(102),
+      price: utils.parseUnits("1.02", 8),
+      poolSupplyAmount: utils.parseUnits("3000", 6),
+      poolBorrowAmount: utils.parseUnits("500", 6),
+    });
+  });
+
+  it("backfills the given markets only", async () => {
+    const dataPoints = await backfillMarkets(
+      range,
+      getProvider(),
+      {},
+      {
+        underlyings: [WETH.toLowerCase()],
+      }
+    );
+
+    expect(dataPoints.map(({ underlying }) => underlying)).toEqual([WETH, WETH, WETH]);
+  });
+
+  it("resumes from a checkpoint, reading the blocks after it only", async () => {
+    const provider = getProvider();
+    const checkpoint = { load: async () => 102, save: jest.fn(async () => {}) };
+
+    const dataPoints = await backfillMarkets(range, provider, {}, { checkpoint });
+
+    expect(dataPoints.map(({ blockNumber }) => blockNumber)).toEqual([104, 104]);
+    expect(checkpoint.save.mock.calls).toEqual([[104]]);
+  });
+});
+
+describe("toCsv & toJson", () => {
+  const dataPoints = [
+    { blockNumber: 100, underlying: USDC, price: BigNumber.from(100_000_000), isPaused: false },
+    { blockNumber: 102, underlying: USDC, price: BigNumber.from(102_000_000), isPaused: true },
+  ];
+
+  it("exports a header row and a row per data point, big numbers as decimal strings", () => {
+    expect(toCsv(dataPoints)).toBe(
+      [
+        "blockNumber,underlying,price,isPaused",
+        `100,${USDC},100000000,false`,
+        `102,${USDC},102000000,true`,
+      ].join("\n")
+    );
+  });
+
+  it("exports an array of plain objects, big numbers as decimal strings", () => {
+    expect(JSON.parse(toJson(dataPoints))).toEqual([
+      { blockNumber: 100, underlying: USDC, price: "100000000", isPaused: false },
+      { blockNumber: 102, underlying: USDC, price: "102000000", isPaused: true },
+    ]);
+  });
+
+  it("exports nothing without any data point", () => {
+    expect(toCsv([])).toBe("");
+    expect(toJson([])).toBe("[]");
+  });
+});
+
+const FIXTURES = loadFixtures();
+
+// The fixtures are recorded with `yarn test:record`, which needs an archive node: the suite is skipped without any.
+(FIXTURES.length > 0 ? describe : describe.skip)("backfillMarkets recorded on-chain", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "backfill-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(FIXTURES)(
+    "resumes an interrupted backfill ending at block $blockNumber",
+    async (fixture) => {
+      const range = getBackfillRange(fixture.blockNumber);
+      const provider = new ReplayProvider(fixture);
+
+      const uninterrupted = await backfillMarkets(range, provider);
+      expect(uninterrupted.length).toBeGreaterThan(0);
+
+      const checkpoint = createFileCheckpointStore(join(dir, "checkpoint.json"));
+      const exported: MarketDataPoint[] = [];
+
+      await backfillMarkets(
+        { ...range, toBlock: range.fromBlock },
+        provider,
+        {},
+        {
+          checkpoint,
+          onDataPoints: (dataPoints) => void exported.push(...dataPoints),
+        }
+      );
+      await backfillMarkets(
+        range,
+        provider,
+        {},
+        {
+          checkpoint,
+          onDataPoints: (dataPoints) => void exported.push(...dataPoints),
+        }
+      );
+
+      expect(toJson(exported)).toEqual(toJson(uninterrupted));
+
+      const blocks = getRangeBlocks(range).length;
+      expect(toCsv(exported).split("\n")).toHaveLength(uninterrupted.length + 1);
+      expect(JSON.parse(toJson(exported))).toHaveLength(uninterrupted.length);
+      expect(uninterrupted.length % blocks).toBe(0);
+    }
+  );
+});
@@ -0,0 +1,452 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { MorphoBulkerGateway__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import {
+  computeBundleSimulation,
+  encodeBundle,
+  encodeBundleStep,
+  getBorrowBundleSteps,
+  getRepayBundleSteps,
+} from "../../../typescript/morpho-aave-v3/bulker";
+import {
+  AssetLiquidityParams,
+  BulkerActionType,
+  BundleStep,
+} from "../../../typescript/morpho-aave-v3/types";
+
+const USER = "0x000000000000000000000000000000000000dEaD";
+const BULKER = "0x4095F064B8d3c3548A3bebfd0Bbfd04750E30077";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+const SIGNATURE = utils.joinSignature({
+  r: utils.hexZeroPad("0x01", 32),
+  s: utils.hexZeroPad("0x02", 32),
+  v: 27,
+});
+const DEADLINE = BigNumber.from(1_700_000_000);
+
+const context = { user: USER, bulker: BULKER, weth: WETH, isBulkerManager: false };
+const managerApproval = { nonce: constants.Zero, deadline: DEADLINE, signature: SIGNATURE };
+
+const e8 = (value: number) => BigNumber.from(value).mul(1e8);
+const ether = (value: string) => utils.parseEther(value);
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+/** A position with the given WETH collateral (LTV 80%, LT 82.5%, at $2,000) & USDC debt. */
+const getAssets = (collateral: BigNumber, debt: BigNumber): AssetLiquidityParams[] => [
+  {
+    underlying: WETH,
+    price: e8(2_000),
+    decimals: 18,
+    ltv: 8_000,
+    liquidationThreshold: 8_250,
+    collateralBalance: collateral,
+    borrowBalance: constants.Zero,
+  },
+  {
+    underlying: USDC,
+    price: e8(1),
+    decimals: 6,
+    ltv: 7_700,
+    liquidationThreshold: 8_000,
+    collateralBalance: constants.Zero,
+    borrowBalance: debt,
+  },
+];
+
+describe("borrow bundle", () => {
+  const params = {
+    collateral: WETH,
+    collateralAmount: ether("10"),
+    borrowed: WETH,
+    borrowAmount: ether("5"),
+    wrapEth: true,
+    unwrapEth: true,
+    managerApproval,
+  };
+
+  it("wraps ETH, supplies it as collateral, borrows WETH to the bulker and unwraps it", () => {
+    expect(getBorrowBundleSteps(context, params)).toEqual([
+      { type: BulkerActionType.wrapEth, amount: ether("10") },
+      { type: BulkerActionType.supplyCollateral, asset: WETH, amount: ether("10"), onBehalf: USER },
+      { type: BulkerActionType.approveManager, isAllowed: true, ...managerApproval },
+      {
+        type: BulkerActionType.borrow,
+        asset: WETH,
+        amount: ether("5"),
+        receiver: BULKER,
+        maxIterations: 4,
+      },
+      { type: BulkerActionType.unwrapEth, amount: ether("5"), receiver: USER },
+    ]);
+  });
+
+  it("simulates the position after each step, leaving nothing in the bulker", () => {
+    const steps = getBorrowBundleSteps(context, params);
+    const simulation = computeBundleSimulation(
+      getAssets(constants.Zero, constants.Zero),
+      steps,
+      context
+    );
+
+    expect(simulation.steps).toHaveLength(steps.length);
+    expect(simulation.steps[1].assets[0].collateralBalance).toEqual(ether("10"));
+    expect(simulation.steps[1].debt.isZero()).toBe(true);
+    expect(simulation.steps[3].assets[0].borrowBalance).toEqual(ether("5"));
+    expect(simulation.debt).toEqual(e8(10_000));
+    expect(simulation.healthFactor.gt(WadRayMath.WAD)).toBe(true);
+    expect(simulation.bulkerBalances).toEqual({});
+  });
+
+  it("sends the wrapped ETH along with the bundle", () => {
+    const { actions, value } = encodeBundle(getBorrowBundleSteps(context, params));
+
+    expect(actions).toEqual([
+      BulkerActionType.wrapEth,
+      BulkerActionType.supplyCollateral,
+      BulkerActionType.approveManager,
+      BulkerActionType.borrow,
+      BulkerActionType.unwrapEth,
+    ]);
+    expect(value).toEqual(ether("10"));
+  });
+
+  it("transfers the collateral through Permit2 instead of wrapping ETH", () => {
+    const permit = { deadline: DEADLINE, signature: SIGNATURE };
+    const steps = getBorrowBundleSteps(context, {
+      collateral: WETH,
+      collateralAmount: ether("10"),
+      borrowed: USDC,
+      borrowAmount: usdc("1000"),
+      permit,
+      managerApproval,
+    });
+
+    expect(steps.slice(0, 2)).toEqual([
+      { type: BulkerActionType.approve2, asset: WETH, amount: ether("10"), ...permit },
+      { type: BulkerActionType.transferFrom2, asset: WETH, amount: ether("10") },
+    ]);
+    expect(steps[4]).toMatchObject({ type: BulkerActionType.borrow, receiver: USER });
+    expect(encodeBundle(steps).value.isZero()).toBe(true);
+  });
+
+  it("rejects wrapping ETH into another collateral than WETH", () => {
+    expect(() => getBorrowBundleSteps(context, { ...params, collateral: USDC })).toThrow(
+      `Cannot wrap ETH into ${USDC}, only WETH`
+    );
+  });
+});
+
+describe("repay bundle", () => {
+  const permit = { deadline: DEADLINE, signature: SIGNATURE };
+  const params = {
+    borrowed: USDC,
+    repayAmount: usdc("4000"),
+    collateral: WETH,
+    withdrawAmount: ether("2"),
+    unwrapEth: true,
+    permit,
+    managerApproval,
+  };
+
+  it("repays through Permit2, withdraws WETH collateral to the bulker and unwraps it", () => {
+    expect(getRepayBundleSteps(context, params)).toEqual([
+      { type: BulkerActionType.approve2, asset: USDC, amount: usdc("4000"), ...permit },
+      { type: BulkerActionType.transferFrom2, asset: USDC, amount: usdc("4000") },
+      { type: BulkerActionType.repay, asset: USDC, amount: usdc("4000"), onBehalf: USER },
+      { type: BulkerActionType.approveManager, isAllowed: true, ...managerApproval },
+      {
+        type: BulkerActionType.withdrawCollateral,
+        asset: WETH,
+        amount: ether("2"),
+        receiver: BULKER,
+      },
+      { type: BulkerActionType.unwrapEth, amount: ether("2"), receiver: USER },
+    ]);
+  });
+
+  it("simulates the position after each step, leaving nothing in the bulker", () => {
+    const simulation = computeBundleSimulation(
+      getAssets(ether("10"), usdc("10000")),
+      getRepayBundleSteps(context, params),
+      context
+    );
+
+    expect(simulation.steps[2].assets[1].borrowBalance).toEqual(usdc("6000"));
+    expect(simulation.assets[0].collateralBalance).toEqual(ether("8"));
+    expect(simulation.debt).toEqual(e8(6_000));
+    expect(simulation.healthFactor.gt(WadRayMath.WAD)).toBe(true);
+    expect(simulation.bulkerBalances).toEqual({});
+  });
+
+  it("leaves the amount repaid in excess of the debt in the bulker", () => {
+    const simulation = computeBundleSimulation(
+      getAssets(ether("10"), usdc("10000")),
+      getRepayBundleSteps(context, {
+        ...params,
+        repayAmount: usdc("12000"),
+        withdrawAmount: constants.Zero,
+      }),
+      context
+    );
+
+    expect(simulation.debt.isZero()).toBe(true);
+    expect(simulation.bulkerBalances).toEqual({ [USDC.toLowerCase()]: usdc("2000") });
+  });
+});
+
+describe("computeBundleSimulation", () => {
+  it("rejects a borrow without the bulker being manager of the user", () => {
+    const steps = getBorrowBundleSteps(context, {
+      collateral: WETH,
+      collateralAmount: ether("10"),
+      borrowed: USDC,
+      borrowAmount: usdc("1000"),
+      wrapEth: true,
+    });
+
+    expect(() =>
+      computeBundleSimulation(getAssets(constants.Zero, constants.Zero), steps, context)
+    ).toThrow("Step 2 (borrow) borrows without the bulker being manager of the user");
+    expect(() =>
+      computeBundleSimulation(getAssets(constants.Zero, constants.Zero), steps, {
+        ...context,
+        isBulkerManager: true,
+      })
+    ).not.toThrow();
+  });
+
+  it("rejects a collateral withdrawal without the bulker being manager of the user", () => {
+    const steps = getRepayBundleSteps(context, {
+      borrowed: USDC,
+      repayAmount: constants.Zero,
+      collateral: WETH,
+      withdrawAmount: ether("1"),
+    });
+
+    expect(() =>
+      computeBundleSimulation(getAssets(ether("10"), usdc("1000")), steps, context)
+    ).toThrow(
+      "Step 0 (withdrawCollateral) withdraws collateral without the bulker being manager of the user"
+    );
+  });
+
+  it("rejects a borrow exceeding the borrowing capacity of the user", () => {
+    const steps = getBorrowBundleSteps(context, {
+      collateral: WETH,
+      collateralAmount: ether("1"),
+      borrowed: USDC,
+      borrowAmount: usdc("1600"),
+      wrapEth: true,
+      managerApproval,
+    });
+
+    expect(() =>
+      computeBundleSimulation(getAssets(constants.Zero, constants.Zero), steps, context)
+    ).toThrow("Step 3 (borrow) exceeds the borrowing capacity of the user");
+  });
+
+  it("rejects a collateral withdrawal bringing the health factor below 1", () => {
+    const steps = getRepayBundleSteps(context, {
+      borrowed: USDC,
+      repayAmount: constants.Zero,
+      collateral: WETH,
+      withdrawAmount: ether("9"),
+      managerApproval,
+    });
+
+    expect(() =>
+      computeBundleSimulation(getAssets(ether("10"), usdc("10000")), steps, context)
+    ).toThrow("Step 1 (withdrawCollateral) brings the health factor below 1");
+  });
+
+  it("rejects supplying a token the bulker does not hold", () => {
+    const steps: BundleStep[] = [
+      { type: BulkerActionType.supplyCollateral, asset: WETH, amount: ether("1"), onBehalf: USER },
+    ];
+
+    expect(() =>
+      computeBundleSimulation(getAssets(constants.Zero, constants.Zero), steps, context)
+    ).toThrow(`Step 0 (supplyCollateral) has no ${WETH} to use in the bulker`);
+  });
+
+  it("rejects unwrapping once the bulker's WETH is used", () => {
+    const steps: BundleStep[] = [
+      { type: BulkerActionType.wrapEth, amount: ether("1") },
+      { type: BulkerActionType.supplyCollateral, asset: WETH, amount: ether("1"), onBehalf: USER },
+      { type: BulkerActionType.unwrapEth, amount: ether("1"), receiver: USER },
+    ];
+
+    expect(() =>
+      computeBundleSimulation(getAssets(constants.Zero, constants.Zero), steps, context)
+    ).toThrow(`Step 2 (unwrapEth) has no ${WETH} to use in the bulker`);
+  });
+
+  it("rejects repaying a zero debt", () => {
+    const steps = getRepayBundleSteps(context, {
+      borrowed: USDC,
+      repayAmount: usdc("100"),
+      collateral: WETH,
+      withdrawAmount: constants.Zero,
+    });
+
+    expect(() =>
+      computeBundleSimulation(getAssets(ether("1"), constants.Zero), steps, context)
+    ).toThrow(`Step 1 (repay) repays a zero debt of ${USDC}`);
+  });
+});
+
+describe("encodeBundleStep", () => {
+  const coder = utils.defaultAbiCoder;
+  const signature = [27, utils.hexZeroPad("0x01", 32), utils.hexZeroPad("0x02", 32)];
+
+  // The parameters of each action, as decoded by the bulker gateway's `execute`.
+  const STEPS: [BundleStep, string[], unknown[]][] = [
+    [
+      {
+        type: BulkerActionType.approve2,
+        asset: USDC,
+        amount: usdc("1"),
+        deadline: DEADLINE,
+        signature: SIGNATURE,
+      },
+      ["address", "uint256", "uint256", "tuple(uint8 v, bytes32 r, bytes32 s)"],
+      [USDC, usdc("1"), DEADLINE, signature],
+    ],
+    [
+      { type: BulkerActionType.transferFrom2, asset: USDC, amount: usdc("1") },
+      ["address", "uint256"],
+      [USDC, usdc("1")],
+    ],
+    [
+      {
+        type: BulkerActionType.approveManager,
+        isAllowed: true,
+        nonce: constants.One,
+        deadline: DEADLINE,
+        signature: SIGNATURE,
+      },
+      ["bool", "uint256", "uint256", "tuple(uint8 v, bytes32 r, bytes32 s)"],
+      [true, constants.One, DEADLINE, signature],
+    ],
+    [
+      {
+        type: BulkerActionType.supply,
+        asset: USDC,
+        amount: usdc("1"),
+        onBehalf: USER,
+        maxIterations: 4,
+      },
+      ["address", "uint256", "address", "uint256"],
+      [USDC, usdc("1"), USER, 4],
+    ],
+    [
+      { type: BulkerActionType.supplyCollateral, asset: WETH, amount: ether("1"), onBehalf: USER },
+      ["address", "uint256", "address"],
+      [WETH, ether("1"), USER],
+    ],
+    [
+      {
+        type: BulkerActionType.borrow,
+        asset: USDC,
+        amount: usdc("1"),
+        receiver: BULKER,
+        maxIterations: 4,
+      },
+      ["address", "uint256", "address", "uint256"],
+      [USDC, usdc("1"), BULKER, 4],
+    ],
+    [
+      { type: BulkerActionType.repay, asset: USDC, amount: usdc("1"), onBehalf: USER },
+      ["address", "uint256", "address"],
+      [USDC, usdc("1"), USER],
+    ],
+    [
+      {
+        type: BulkerActionType.withdraw,
+        asset: USDC,
+        amount: usdc("1"),
+        receiver: USER,
+        maxIterations: 4,
+      },
+      ["address", "uint256", "address", "uint256"],
+      [USDC, usdc("1"), USER, 4],
+    ],
+    [
+      {
+        type: BulkerActionType.withdrawCollateral,
+        asset: WETH,
+        amount: ether("1"),
+        receiver: BULKER,
+      },
+      ["address", "uint256", "address"],
+      [WETH, ether("1"), BULKER],
+    ],
+    [{ type: BulkerActionType.wrapEth, amount: ether("1") }, ["uint256"], [ether("1")]],
+    [
+      { type: BulkerActionType.unwrapEth, amount: ether("1"), receiver: USER },
+      ["uint256", "address"],
+      [ether("1"), USER],
+    ],
+    [
+      { type: BulkerActionType.skim, asset: USDC, receiver: USER },
+      ["address", "address"],
+      [USDC, USER],
+    ],
+  ];
+
+  it.each(STEPS.map((params) => [BulkerActionType[params[0].type], ...params] as const))(
+    "encodes the parameters of %s",
+    (_, step, types, values) => {
+      expect(encodeBundleStep(step)).toBe(coder.encode(types, values));
+    }
+  );
+
+  it("encodes the parameters as 32-bytes words", () => {
+    expect(encodeBundleStep({ type: BulkerActionType.wrapEth, amount: ether("1") })).toBe(
+      utils.hexZeroPad("0x0de0b6b3a7640000", 32)
+    );
+    expect(
+      encodeBundleStep({ type: BulkerActionType.unwrapEth, amount: constants.One, receiver: USER })
+    ).toBe(
+      utils.hexConcat([utils.hexZeroPad("0x01", 32), utils.hexZeroPad(USER.toLowerCase(), 32)])
+    );
+  });
+
+  it("numbers the actions as the bulker gateway's ActionType", () => {
+    expect([
+      BulkerActionType.approve2,
+      BulkerActionType.transferFrom2,
+      BulkerActionType.approveManager,
+      BulkerActionType.supply,
+      BulkerActionType.supplyCollateral,
+      BulkerActionType.borrow,
+      BulkerActionType.repay,
+      BulkerActionType.withdraw,
+      BulkerActionType.withdrawCollateral,
+      BulkerActionType.wrapEth,
+      BulkerActionType.unwrapEth,
+      BulkerActionType.wrapStEth,
+      BulkerActionType.unwrapStEth,
+      BulkerActionType.skim,
+      BulkerActionType.claimRewards,
+    ]).toEqual([...Array(15).keys()]);
+  });
+
+  it("encodes a bundle into the call of the bulker gateway's execute", () => {
+    const steps = STEPS.map(([step]) => step);
+    const { actions, data } = encodeBundle(steps);
+    const gateway = MorphoBulkerGateway__factory.createInterface();
+
+    const [decodedActions, decodedData] = gateway.decodeFunctionData(
+      "execute",
+      gateway.encodeFunctionData("execute", [actions, data])
+    );
+
+    expect(decodedActions).toEqual(steps.map(({ type }) => type));
+    expect(decodedData).toEqual(STEPS.map(([, types, values]) => coder.encode(types, values)));
+  });
+});
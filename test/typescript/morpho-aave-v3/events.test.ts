@@ -0,0 +1,135 @@
+import { BigNumber, constants } from "ethers";
+
+import { getActiveUsers, updateActiveUsers } from "../../../typescript/morpho-aave-v3/events";
+import { MorphoEventRecord } from "../../../typescript/morpho-aave-v3/types";
+
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+
+const toRecord = (name: MorphoEventRecord["name"], blockNumber: number, args: object) =>
+  ({
+    name,
+    blockNumber,
+    transactionHash: constants.HashZero,
+    logIndex: 0,
+    ...args,
+  } as MorphoEventRecord);
+
+/** The record of an event updating the supply or borrow of a user, the balance being split between the pool & peer-to-peer. */
+const toBalanceRecord = (
+  name: "Supplied" | "Withdrawn" | "Borrowed" | "Repaid",
+  blockNumber: number,
+  onBehalf: string,
+  underlying: string,
+  scaledOnPool: number,
+  scaledInP2P = 0
+) =>
+  toRecord(name, blockNumber, {
+    onBehalf,
+    underlying,
+    amount: BigNumber.from(1),
+    scaledOnPool: BigNumber.from(scaledOnPool),
+    scaledInP2P: BigNumber.from(scaledInP2P),
+  });
+
+/** The record of an event updating the collateral of a user. */
+const toCollateralRecord = (
+  name: "CollateralSupplied" | "CollateralWithdrawn",
+  blockNumber: number,
+  onBehalf: string,
+  underlying: string,
+  scaledBalance: number
+) =>
+  toRecord(name, blockNumber, {
+    onBehalf,
+    underlying,
+    amount: BigNumber.from(1),
+    scaledBalance: BigNumber.from(scaledBalance),
+  });
+
+describe("updateActiveUsers", () => {
+  it("records the sides of the positions of the users and the last block they changed at", () => {
+    const activeUsers = updateActiveUsers({}, [
+      toCollateralRecord("CollateralSupplied", 100, ALICE, WETH.toUpperCase(), 1_000),
+      toBalanceRecord("Borrowed", 101, ALICE, USDC, 0, 500),
+      toBalanceRecord("Supplied", 102, BOB, USDC, 800),
+    ]);
+
+    expect(activeUsers).toEqual({
+      [WETH]: {
+        [ALICE]: { lastBlock: 100, hasSupply: false, hasCollateral: true, hasBorrow: false },
+      },
+      [USDC]: {
+        [ALICE]: { lastBlock: 101, hasSupply: false, hasCollateral: false, hasBorrow: true },
+        [BOB]: { lastBlock: 102, hasSupply: true, hasCollateral: false, hasBorrow: false },
+      },
+    });
+    expect(getActiveUsers(activeUsers)).toEqual([ALICE, BOB]);
+    expect(getActiveUsers(activeUsers, WETH)).toEqual([ALICE]);
+  });
+
+  it("removes a user from a market once its balances on the market are all zero", () => {
+    const activeUsers = updateActiveUsers({}, [
+      toBalanceRecord("Supplied", 100, BOB, USDC, 800),
+      toCollateralRecord("CollateralSupplied", 100, BOB, USDC, 1_000),
+      toBalanceRecord("Withdrawn", 101, BOB, USDC, 0),
+    ]);
+    expect(activeUsers[USDC][BOB]).toEqual({
+      lastBlock: 101,
+      hasSupply: false,
+      hasCollateral: true,
+      hasBorrow: false,
+    });
+
+    const prunedActiveUsers = updateActiveUsers(activeUsers, [
+      toCollateralRecord("CollateralWithdrawn", 102, BOB, USDC, 0),
+    ]);
+    expect(getActiveUsers(prunedActiveUsers, USDC)).toEqual([]);
+  });
+
+  it("keeps a user whose balance is only matched peer-to-peer", () => {
+    const activeUsers = updateActiveUsers({}, [
+      toBalanceRecord("Borrowed", 100, ALICE, USDC, 500),
+      toBalanceRecord("Repaid", 101, ALICE, USDC, 0, 200),
+    ]);
+
+    expect(getActiveUsers(activeUsers, USDC)).toEqual([ALICE]);
+  });
+
+  it("updates the last block of the positions of a liquidated borrower, their balances being updated by the other events", () => {
+    const activeUsers = updateActiveUsers({}, [
+      toCollateralRecord("CollateralSupplied", 100, ALICE, WETH, 1_000),
+      toBalanceRecord("Borrowed", 100, ALICE, USDC, 500),
+      toRecord("Liquidated", 110, {
+        borrower: ALICE,
+        underlyingBorrowed: USDC,
+        amountLiquidated: BigNumber.from(250),
+        underlyingCollateral: WETH,
+        amountSeized: BigNumber.from(300),
+      }),
+    ]);
+
+    expect(activeUsers).toEqual({
+      [WETH]: {
+        [ALICE]: { lastBlock: 110, hasSupply: false, hasCollateral: true, hasBorrow: false },
+      },
+      [USDC]: {
+        [ALICE]: { lastBlock: 110, hasSupply: false, hasCollateral: false, hasBorrow: true },
+      },
+    });
+  });
+
+  it("leaves the given store untouched", () => {
+    const activeUsers = updateActiveUsers({}, [toBalanceRecord("Supplied", 100, BOB, USDC, 800)]);
+    const snapshot = JSON.stringify(activeUsers);
+
+    updateActiveUsers(activeUsers, [
+      toBalanceRecord("Withdrawn", 101, BOB, USDC, 0),
+      toBalanceRecord("Supplied", 101, ALICE, USDC, 100),
+    ]);
+
+    expect(JSON.stringify(activeUsers)).toEqual(snapshot);
+  });
+});
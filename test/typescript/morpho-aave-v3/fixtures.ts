@@ -0,0 +1,96 @@
+import { providers } from "ethers";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Recorded RPC fixtures: the raw JSON-RPC responses read by a snippet against a real node at a pinned block,
+ * recorded by `yarn test:record` and replayed offline by the tests, so that the ports can be checked against
+ * the values computed on-chain.
+ */
+
+export const FIXTURES_DIR = join(__dirname, "fixtures");
+
+export interface RpcFixture {
+  /** The chain id of the network the responses were recorded on. */
+  chainId: number;
+
+  /** The pinned block the responses were recorded at. */
+  blockNumber: number;
+
+  /** The raw responses, by request (see `getRequestKey`). */
+  responses: { [request: string]: unknown };
+}
+
+/** The key of a request: the method & its params, as normalized by ethers before being sent. */
+export const getRequestKey = (method: string, params: unknown) =>
+  `${method}:${JSON.stringify(params ?? {})}`;
+
+/** A provider recording the responses of a node, to be saved as a fixture. */
+export class RecordingProvider extends providers.StaticJsonRpcProvider {
+  public readonly responses: RpcFixture["responses"] = {};
+
+  public async perform(method: string, params: unknown): Promise<unknown> {
+    const response: unknown = await super.perform(method, params);
+    this.responses[getRequestKey(method, params)] = response;
+
+    return response;
+  }
+
+  public async save(blockNumber: number) {
+    const { chainId } = await this.getNetwork();
+    const path = join(FIXTURES_DIR, `${chainId}-${blockNumber}.json`);
+
+    writeFileSync(
+      path,
+      JSON.stringify({ chainId, blockNumber, responses: this.responses }, null, 2)
+    );
+
+    return path;
+  }
+}
+
+/** A provider replaying the responses of a fixture, failing on any request that was not recorded. */
+export class ReplayProvider extends providers.BaseProvider {
+  constructor(private readonly fixture: RpcFixture) {
+    super(fixture.chainId);
+  }
+
+  public async detectNetwork() {
+    return this.network;
+  }
+
+  public async perform(method: string, params: unknown): Promise<unknown> {
+    const key = getRequestKey(method, params);
+    if (!(key in this.fixture.responses))
+      throw new Error(`No response recorded at block ${this.fixture.blockNumber} for ${key}`);
+
+    return this.fixture.responses[key];
+  }
+}
+
+const isRpcFixture = (value: unknown): value is RpcFixture => {
+  if (typeof value !== "object" || value == null) return false;
+
+  const { chainId, blockNumber, responses } = value as { [field: string]: unknown };
+
+  return (
+    typeof chainId === "number" &&
+    typeof blockNumber === "number" &&
+    typeof responses === "object" &&
+    responses != null
+  );
+};
+
+/** This function loads the fixtures recorded in `FIXTURES_DIR`, if any. */
+export const loadFixtures = (): RpcFixture[] => {
+  if (!existsSync(FIXTURES_DIR)) return [];
+
+  return readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => {
+      const fixture: unknown = JSON.parse(readFileSync(join(FIXTURES_DIR, file), "utf8"));
+      if (!isRpcFixture(fixture)) throw new Error(`Invalid fixture ${file}`);
+
+      return fixture;
+    });
+};
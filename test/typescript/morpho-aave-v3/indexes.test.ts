@@ -0,0 +1,221 @@
+import { BigNumber, utils } from "ethers";
+
+import {
+  AaveV3Pool__factory,
+  AToken__factory,
+  MorphoAaveV3__factory,
+  Multicall3__factory,
+} from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import {
+  computeIndexes,
+  computePoolIndexes,
+  getUpdatedIndexes,
+  SECONDS_PER_YEAR,
+} from "../../../typescript/morpho-aave-v3/indexes";
+import { getMarketsSnapshot } from "../../../typescript/morpho-aave-v3/snapshot";
+import { getTotalMarketSupply } from "../../../typescript/morpho-aave-v3/snippets";
+
+import { loadFixtures, ReplayProvider } from "./fixtures";
+import { MockProvider, mockMarket, mockReserve } from "./mocks";
+
+const ray = (value: string) => utils.parseUnits(value, 27);
+
+const LAST_UPDATE = 1_700_000_000;
+const NOW = LAST_UPDATE + 3_600;
+
+const toString = ({ supply, borrow }: ReturnType<typeof computeIndexes>) => ({
+  supply: { poolIndex: supply.poolIndex.toString(), p2pIndex: supply.p2pIndex.toString() },
+  borrow: { poolIndex: borrow.poolIndex.toString(), p2pIndex: borrow.p2pIndex.toString() },
+});
+
+// The pool supply index grows by 1% and the pool borrow index by 3% since the last update of the market.
+const reserve = mockReserve({
+  liquidityIndex: ray("1.111"),
+  variableBorrowIndex: ray("1.236"),
+  lastUpdateTimestamp: NOW,
+});
+
+const indexes = {
+  supply: { poolIndex: ray("1.1"), p2pIndex: ray("1.1") },
+  borrow: { poolIndex: ray("1.2"), p2pIndex: ray("1.05") },
+};
+
+describe("computePoolIndexes", () => {
+  it("returns the stored indexes at the last update of the reserve", () => {
+    expect(computePoolIndexes(reserve, NOW)).toEqual({
+      poolSupplyIndex: reserve.liquidityIndex,
+      poolBorrowIndex: reserve.variableBorrowIndex,
+    });
+  });
+
+  it("accrues the supply index linearly and the borrow index compounded", () => {
+    const { poolSupplyIndex, poolBorrowIndex } = computePoolIndexes(
+      mockReserve({
+        currentLiquidityRate: ray("0.05"),
+        currentVariableBorrowRate: ray("0.1"),
+        lastUpdateTimestamp: LAST_UPDATE,
+      }),
+      SECONDS_PER_YEAR.add(LAST_UPDATE)
+    );
+
+    expect(poolSupplyIndex).toEqual(ray("1.05"));
+    // The binomial expansion of order 3 of e^0.1 = 1.10517091...
+    expect(poolBorrowIndex.sub(ray("1.10517")).abs().lt(ray("0.00001"))).toBe(true);
+  });
+});
+
+describe("computeIndexes", () => {
+  it("returns the stored indexes at the last update of the market", () => {
+    const market = mockMarket({ indexes, lastUpdateTimestamp: NOW });
+
+    expect(computeIndexes(market, reserve, NOW)).toEqual(indexes);
+  });
+
+  it("grows the peer-to-peer indexes along the cursor without peer-to-peer amount", () => {
+    const market = mockMarket({ indexes, lastUpdateTimestamp: LAST_UPDATE });
+
+    expect(toString(computeIndexes(market, reserve, NOW))).toEqual(
+      toString({
+        supply: { poolIndex: ray("1.111"), p2pIndex: ray("1.122") },
+        borrow: { poolIndex: ray("1.236"), p2pIndex: ray("1.071") },
+      })
+    );
+  });
+
+  it("shares the peer-to-peer spread with the reserve factor", () => {
+    const market = mockMarket({ indexes, lastUpdateTimestamp: LAST_UPDATE, reserveFactor: 1_000 });
+
+    const { supply, borrow } = computeIndexes(market, reserve, NOW);
+
+    // The peer-to-peer growth factors are 1.019 on the supply side and 1.021 on the borrow side.
+    expect(supply.p2pIndex).toEqual(ray("1.1209"));
+    expect(borrow.p2pIndex).toEqual(ray("1.07205"));
+  });
+
+  it("grows the share of the peer-to-peer supply matched by the delta at the pool rate", () => {
+    const market = mockMarket({
+      indexes,
+      lastUpdateTimestamp: LAST_UPDATE,
+      deltas: {
+        supply: { scaledDelta: utils.parseEther("500"), scaledP2PTotal: utils.parseEther("1000") },
+      },
+    });
+
+    // Half of the peer-to-peer supply grows by 1.02, the other half by 1.01.
+    expect(computeIndexes(market, reserve, NOW).supply.p2pIndex).toEqual(ray("1.1165"));
+  });
+
+  it("does not grow the share of the peer-to-peer supply that is idle", () => {
+    const market = mockMarket({
+      indexes,
+      lastUpdateTimestamp: LAST_UPDATE,
+      deltas: {
+        supply: { scaledDelta: BigNumber.from(0), scaledP2PTotal: utils.parseEther("1000") },
+      },
+      idleSupply: utils.parseEther("275"),
+    });
+
+    // A quarter of the peer-to-peer supply is idle, the rest grows by 1.02.
+    expect(computeIndexes(market, reserve, NOW).supply.p2pIndex).toEqual(ray("1.1165"));
+  });
+
+  it("grows the peer-to-peer indexes at the pool borrow rate after a flash loan", () => {
+    const market = mockMarket({ indexes, lastUpdateTimestamp: LAST_UPDATE });
+    const flashLoaned = mockReserve({
+      liquidityIndex: ray("1.133"),
+      variableBorrowIndex: ray("1.212"),
+      lastUpdateTimestamp: NOW,
+    });
+
+    const { supply, borrow } = computeIndexes(market, flashLoaned, NOW);
+
+    // The pool supply growth factor (1.03) exceeds the pool borrow growth factor (1.01).
+    expect(supply.p2pIndex).toEqual(ray("1.111"));
+    expect(borrow.p2pIndex).toEqual(ray("1.0605"));
+  });
+
+  it("rejects a timestamp prior to the last update of the reserve", () => {
+    const market = mockMarket({ indexes, lastUpdateTimestamp: LAST_UPDATE });
+
+    expect(() =>
+      computeIndexes(market, mockReserve({ lastUpdateTimestamp: NOW }), NOW - 1)
+    ).toThrow("The timestamp is prior to the last update");
+  });
+});
+
+describe("getTotalMarketSupply", () => {
+  const blockNumber = 17_000_000;
+  const aToken = { address: "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c" };
+  const underlying = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const deployment = DEPLOYMENTS[1];
+
+  it("values the peer-to-peer supply with the indexes updated at the block read", async () => {
+    const timestamp = MockProvider.getTimestamp(blockNumber);
+    const provider = new MockProvider(blockNumber)
+      .mock(
+        { address: deployment.morphoAaveV3, interface: MorphoAaveV3__factory.createInterface() },
+        "market",
+        () => [
+          mockMarket({
+            indexes,
+            lastUpdateTimestamp: timestamp - 3_600,
+            aToken: aToken.address,
+            deltas: {
+              supply: {
+                scaledDelta: BigNumber.from(0),
+                scaledP2PTotal: utils.parseUnits("1000", 6),
+              },
+            },
+          }),
+        ]
+      )
+      .mock(
+        { address: deployment.pool, interface: AaveV3Pool__factory.createInterface() },
+        "getReserveData",
+        () => [{ ...reserve, lastUpdateTimestamp: timestamp }]
+      )
+      .mock(
+        { address: deployment.multicall3, interface: Multicall3__factory.createInterface() },
+        "getCurrentBlockTimestamp",
+        () => [timestamp]
+      )
+      .mock({ ...aToken, interface: AToken__factory.createInterface() }, "balanceOf", () => [
+        utils.parseUnits("200", 6),
+      ]);
+
+    const { p2pSupplyAmount, poolSupplyAmount } = await getTotalMarketSupply(underlying, provider);
+
+    // The peer-to-peer supply index grew from 1.1 to 1.122 since the last update of the market.
+    expect(p2pSupplyAmount).toEqual(utils.parseUnits("1122", 6));
+    expect(poolSupplyAmount).toEqual(utils.parseUnits("200", 6));
+  });
+});
+
+const FIXTURES = loadFixtures();
+
+// The fixtures are recorded with `yarn test:record`, which needs an archive node: the suite is skipped without any.
+(FIXTURES.length > 0 ? describe : describe.skip)("updatedIndexes recorded on-chain", () => {
+  it.each(FIXTURES)("matches Morpho's updatedIndexes at block $blockNumber", async (fixture) => {
+    const provider = new ReplayProvider(fixture);
+    const blockTag = fixture.blockNumber;
+    const morphoAaveV3 = MorphoAaveV3__factory.connect(
+      DEPLOYMENTS[fixture.chainId].morphoAaveV3,
+      provider
+    );
+
+    const { timestamp, markets } = await getMarketsSnapshot(provider, { blockTag });
+    expect(markets.length).toBeGreaterThan(0);
+
+    for (const snapshot of markets) {
+      const { supply, borrow } = await morphoAaveV3.updatedIndexes(snapshot.underlying, {
+        blockTag,
+      });
+
+      expect(toString(getUpdatedIndexes(snapshot, timestamp))).toEqual(
+        toString({ supply, borrow })
+      );
+    }
+  });
+});
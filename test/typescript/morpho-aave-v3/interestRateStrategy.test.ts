@@ -0,0 +1,289 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import {
+  AaveV3Pool__factory,
+  ERC20__factory,
+  Multicall3__factory,
+} from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import {
+  computeInterestRateCurve,
+  computeInterestRates,
+  INTEREST_RATE_STRATEGY_ABI,
+  STABLE_DEBT_TOKEN_ABI,
+  VARIABLE_DEBT_TOKEN_ABI,
+  verifyReserveRates,
+} from "../../../typescript/morpho-aave-v3/interestRateStrategy";
+import { ReserveLiquidity } from "../../../typescript/morpho-aave-v3/types";
+
+import { loadFixtures, ReplayProvider } from "./fixtures";
+import { getReserveConfiguration, MockProvider, mockReserve, STRATEGY_PARAMS } from "./mocks";
+
+const ray = (value: string) => utils.parseUnits(value, 27);
+
+// The reserve factor of 10% leaves 90% of the interests paid by the borrowers to the suppliers.
+const liquidity: ReserveLiquidity = {
+  availableLiquidity: utils.parseUnits("200", 6),
+  totalVariableDebt: utils.parseUnits("800", 6),
+  totalStableDebt: constants.Zero,
+  averageStableBorrowRate: constants.Zero,
+  unbacked: constants.Zero,
+  reserveFactor: 1_000,
+};
+
+// Half of the debt is borrowed at an average stable rate of 6%, exceeding the optimal stable to total debt ratio of 20%.
+const halfStableLiquidity: ReserveLiquidity = {
+  ...liquidity,
+  totalVariableDebt: utils.parseUnits("400", 6),
+  totalStableDebt: utils.parseUnits("400", 6),
+  averageStableBorrowRate: ray("0.06"),
+};
+
+const toString = ({ usageRatio, liquidityRate, variableBorrowRate, stableBorrowRate }: any) => ({
+  usageRatio: usageRatio.toString(),
+  liquidityRate: liquidityRate.toString(),
+  variableBorrowRate: variableBorrowRate.toString(),
+  stableBorrowRate: stableBorrowRate.toString(),
+});
+
+describe("computeInterestRates", () => {
+  it("computes the base rates without any debt", () => {
+    expect(
+      computeInterestRates(STRATEGY_PARAMS, { ...liquidity, totalVariableDebt: constants.Zero })
+    ).toEqual({
+      borrowUsageRatio: constants.Zero,
+      supplyUsageRatio: constants.Zero,
+      liquidityRate: constants.Zero,
+      variableBorrowRate: constants.Zero,
+      stableToTotalDebtRatio: constants.Zero,
+      stableBorrowRate: ray("0.05"),
+    });
+  });
+
+  it("lowers the supply usage ratio with the unbacked aTokens", () => {
+    const { borrowUsageRatio, supplyUsageRatio, liquidityRate } = computeInterestRates(
+      STRATEGY_PARAMS,
+      { ...liquidity, unbacked: utils.parseUnits("1000", 6) }
+    );
+
+    expect(borrowUsageRatio).toEqual(ray("0.8"));
+    expect(supplyUsageRatio).toEqual(ray("0.4"));
+    expect(liquidityRate).toEqual(ray("0.0144"));
+  });
+});
+
+describe("computeInterestRateCurve", () => {
+  const curve = computeInterestRateCurve(STRATEGY_PARAMS, liquidity, 11);
+
+  it("spreads the usage ratios evenly from 0% to 100%", () => {
+    expect(curve.map(({ usageRatio }) => usageRatio.toString())).toEqual(
+      Array.from({ length: 11 }, (_, i) => ray((i / 10).toString()).toString())
+    );
+  });
+
+  it("starts from the base rates at 0% of usage", () => {
+    expect(toString(curve[0])).toEqual(
+      toString({
+        usageRatio: constants.Zero,
+        liquidityRate: constants.Zero,
+        variableBorrowRate: constants.Zero,
+        stableBorrowRate: ray("0.05"),
+      })
+    );
+  });
+
+  it("reaches the first slopes at the kink", () => {
+    expect(toString(curve[8])).toEqual(
+      toString({
+        usageRatio: ray("0.8"),
+        liquidityRate: ray("0.0288"),
+        variableBorrowRate: ray("0.04"),
+        stableBorrowRate: ray("0.055"),
+      })
+    );
+  });
+
+  it("reaches both slopes at 100% of usage", () => {
+    expect(toString(curve[10])).toEqual(
+      toString({
+        usageRatio: ray("1"),
+        liquidityRate: ray("0.576"),
+        variableBorrowRate: ray("0.64"),
+        stableBorrowRate: ray("0.655"),
+      })
+    );
+  });
+
+  it("grows linearly with the first slope below the kink", () => {
+    expect(curve[4].variableBorrowRate).toEqual(ray("0.02"));
+    expect(curve[9].variableBorrowRate).toEqual(ray("0.34"));
+  });
+
+  it("keeps the share of the debt borrowed at a stable rate along the curve", () => {
+    const [start, , , , , , , , kink, , end] = computeInterestRateCurve(
+      STRATEGY_PARAMS,
+      halfStableLiquidity,
+      11
+    );
+
+    // The stable borrow rate is raised by 8% * (50% - 20%) / (100% - 20%) = 3% as soon as there is debt.
+    expect(start.stableBorrowRate).toEqual(ray("0.05"));
+    expect(kink.stableBorrowRate).toEqual(ray("0.085"));
+    expect(end.stableBorrowRate).toEqual(ray("0.685"));
+
+    // The overall borrow rate averages the variable borrow rate & the average stable borrow rate of 6%.
+    expect(kink.liquidityRate).toEqual(ray("0.036"));
+    expect(end.liquidityRate).toEqual(ray("0.315"));
+  });
+
+  it("rejects a curve of less than 2 points", () => {
+    expect(() => computeInterestRateCurve(STRATEGY_PARAMS, liquidity, 1)).toThrow(
+      "Cannot compute an interest rate curve of 1 points"
+    );
+  });
+});
+
+describe("verifyReserveRates", () => {
+  const { pool, multicall3 } = DEPLOYMENTS[1];
+  const underlying = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const aToken = "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c";
+  const variableDebtToken = "0x72E95b8931767C79bA4EeE721354d6E99a61D004";
+  const stableDebtToken = "0xb0fe3d292f4bd50de902ba5bdf120ad66e9d7a39";
+  const strategy = "0x8659327a1ff2f3c6dc6aa5bf0a3b5ea81cd64a3f";
+  const lastUpdateTimestamp = MockProvider.getTimestamp(17_000_000) - 3_600;
+
+  const getProvider = (rates: { [rate: string]: BigNumber }) => {
+    const provider = new MockProvider()
+      .mock(
+        { address: pool, interface: AaveV3Pool__factory.createInterface() },
+        "getReserveData",
+        () => [
+          mockReserve({
+            configuration: getReserveConfiguration({ decimals: 6, reserveFactor: 1_000 }),
+            variableBorrowIndex: ray("1.25"),
+            lastUpdateTimestamp,
+            aTokenAddress: aToken,
+            variableDebtTokenAddress: variableDebtToken,
+            stableDebtTokenAddress: stableDebtToken,
+            interestRateStrategyAddress: strategy,
+            ...rates,
+          }),
+        ]
+      )
+      .mock(
+        { address: underlying, interface: ERC20__factory.createInterface() },
+        "balanceOf",
+        () => [liquidity.availableLiquidity]
+      )
+      // The variable debt has accrued interests since the last update of the reserve: the rates stored were computed
+      // on the scaled debt valued at the stored borrow index.
+      .mock(
+        { address: variableDebtToken, interface: ERC20__factory.createInterface() },
+        "totalSupply",
+        () => [utils.parseUnits("810", 6)]
+      )
+      .mock(
+        { address: variableDebtToken, interface: new utils.Interface(VARIABLE_DEBT_TOKEN_ABI) },
+        "scaledTotalSupply",
+        () => [utils.parseUnits("640", 6)]
+      )
+      .mock(
+        { address: stableDebtToken, interface: new utils.Interface(STABLE_DEBT_TOKEN_ABI) },
+        "getTotalSupplyAndAvgRate",
+        () => [0, 0]
+      )
+      .mock(
+        { address: stableDebtToken, interface: new utils.Interface(STABLE_DEBT_TOKEN_ABI) },
+        "getSupplyData",
+        () => [0, 0, 0, lastUpdateTimestamp]
+      )
+      .mock(
+        { address: multicall3, interface: Multicall3__factory.createInterface() },
+        "getCurrentBlockTimestamp",
+        () => [MockProvider.getTimestamp(17_000_000)]
+      );
+
+    const strategyInterface = new utils.Interface(INTEREST_RATE_STRATEGY_ABI);
+    Object.entries({
+      OPTIMAL_USAGE_RATIO: STRATEGY_PARAMS.optimalUsageRatio,
+      OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO: STRATEGY_PARAMS.optimalStableToTotalDebtRatio,
+      getBaseVariableBorrowRate: STRATEGY_PARAMS.baseVariableBorrowRate,
+      getVariableRateSlope1: STRATEGY_PARAMS.variableRateSlope1,
+      getVariableRateSlope2: STRATEGY_PARAMS.variableRateSlope2,
+      getBaseStableBorrowRate: STRATEGY_PARAMS.baseStableBorrowRate,
+      getStableRateSlope1: STRATEGY_PARAMS.stableRateSlope1,
+      getStableRateSlope2: STRATEGY_PARAMS.stableRateSlope2,
+      getStableRateExcessOffset: STRATEGY_PARAMS.stableRateExcessOffset,
+    }).forEach(([method, value]) =>
+      provider.mock({ address: strategy, interface: strategyInterface }, method, () => [value])
+    );
+
+    return provider;
+  };
+
+  it("matches the rates stored by the pool at its last update", async () => {
+    const verification = await verifyReserveRates(
+      underlying,
+      getProvider({
+        currentLiquidityRate: ray("0.0288"),
+        currentVariableBorrowRate: ray("0.04"),
+        currentStableBorrowRate: ray("0.055"),
+      })
+    );
+
+    expect(verification.computed.borrowUsageRatio).toEqual(ray("0.8"));
+    expect(verification.maxError).toEqual(constants.Zero);
+    expect(verification.isMatching).toBe(true);
+  });
+
+  it("reports the largest difference with the rates stored by the pool", async () => {
+    const provider = getProvider({
+      currentLiquidityRate: ray("0.0288"),
+      currentVariableBorrowRate: ray("0.041"),
+      currentStableBorrowRate: ray("0.055"),
+    });
+
+    const verification = await verifyReserveRates(underlying, provider);
+    expect(verification.maxError).toEqual(ray("0.001"));
+    expect(verification.isMatching).toBe(false);
+
+    expect((await verifyReserveRates(underlying, provider, {}, ray("0.001"))).isMatching).toBe(
+      true
+    );
+  });
+});
+
+const FIXTURES = loadFixtures();
+
+// The fixtures are recorded with `yarn test:record`, which needs an archive node: the suite is skipped without any.
+(FIXTURES.length > 0 ? describe : describe.skip)("verifyReserveRates recorded on-chain", () => {
+  it.each(FIXTURES)(
+    "matches the rates stored by the pool for every reserve at block $blockNumber",
+    async (fixture) => {
+      const provider = new ReplayProvider(fixture);
+      const blockTag = fixture.blockNumber;
+      const reserves = await AaveV3Pool__factory.connect(
+        DEPLOYMENTS[fixture.chainId].pool,
+        provider
+      ).getReservesList({ blockTag });
+      expect(reserves.length).toBeGreaterThan(0);
+
+      for (const underlying of reserves) {
+        // The port mirrors the rounding of the strategy: the rates must match exactly.
+        const { maxError, isMatching } = await verifyReserveRates(
+          underlying,
+          provider,
+          { blockTag },
+          0
+        );
+
+        expect({ underlying, maxError: maxError.toString(), isMatching }).toEqual({
+          underlying,
+          maxError: "0",
+          isMatching: true,
+        });
+      }
+    }
+  );
+});
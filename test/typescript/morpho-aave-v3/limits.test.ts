@@ -0,0 +1,232 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import { ERC20__factory, MorphoAaveV3__factory } from "@morpho-labs/morpho-ethers-contract";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import {
+  computeMaxBorrowable,
+  computeMaxWithdrawable,
+  getUserMaxBorrowable,
+} from "../../../typescript/morpho-aave-v3/limits";
+import { AssetLiquidityParams, LiquidityData } from "../../../typescript/morpho-aave-v3/types";
+
+import {
+  getReserveConfiguration,
+  MockProvider,
+  mockMarket,
+  mockMarketsSnapshot,
+  mockReserve,
+} from "./mocks";
+
+const USER = "0x000000000000000000000000000000000000dEaD";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const A_USDC = "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c";
+const VARIABLE_DEBT_USDC = "0x72E95b8931767C79bA4EeE721354d6E99a61D004";
+const STABLE_DEBT_USDC = "0xb0fe3d292f4bd50de902ba5bdf120ad66e9d7a39";
+
+const e8 = (value: string) => utils.parseUnits(value, 8);
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+/** USDC at $1 (LTV 77%, LT 80%), with 1,000 USDC of collateral. */
+const asset: AssetLiquidityParams = {
+  underlying: USDC,
+  price: e8("1"),
+  decimals: 6,
+  ltv: 7_700,
+  liquidationThreshold: 8_000,
+  collateralBalance: usdc("1000"),
+  borrowBalance: constants.Zero,
+};
+
+/** The liquidity data of a user who can still borrow $300 and whose health factor is 1.25. */
+const liquidityData: LiquidityData = { borrowable: e8("700"), maxDebt: e8("500"), debt: e8("400") };
+
+const market = mockMarket({ underlying: USDC, aToken: A_USDC });
+
+const pause = (pauseStatuses: Partial<Types.PauseStatusesStructOutput>) =>
+  mockMarket({
+    underlying: USDC,
+    aToken: A_USDC,
+    pauseStatuses: pauseStatuses as Types.PauseStatusesStructOutput,
+  });
+
+describe("computeMaxBorrowable", () => {
+  const marketLiquidity = {
+    poolLiquidity: usdc("10000"),
+    borrowCap: usdc("10000"),
+    totalBorrow: constants.Zero,
+  };
+
+  it("is limited by the borrowing capacity of the user", () => {
+    expect(computeMaxBorrowable(asset, liquidityData, market, marketLiquidity)).toEqual({
+      amount: usdc("300"),
+      limiter: "borrowCapacity",
+    });
+  });
+
+  it("is limited by the liquidity of the pool, along with the idle supply", () => {
+    expect(
+      computeMaxBorrowable(
+        asset,
+        liquidityData,
+        mockMarket({ underlying: USDC, aToken: A_USDC, idleSupply: usdc("50") }),
+        { ...marketLiquidity, poolLiquidity: usdc("200") }
+      )
+    ).toEqual({ amount: usdc("250"), limiter: "poolLiquidity" });
+  });
+
+  it("is limited by the room left below the borrow cap", () => {
+    expect(
+      computeMaxBorrowable(asset, liquidityData, market, {
+        ...marketLiquidity,
+        totalBorrow: usdc("9900"),
+      })
+    ).toEqual({ amount: usdc("100"), limiter: "borrowCap" });
+  });
+
+  it("is zero once the borrow cap is reached", () => {
+    expect(
+      computeMaxBorrowable(asset, liquidityData, market, {
+        ...marketLiquidity,
+        totalBorrow: usdc("10001"),
+      })
+    ).toEqual({ amount: constants.Zero, limiter: "borrowCap" });
+  });
+
+  it("is zero once the borrowing capacity is used", () => {
+    expect(
+      computeMaxBorrowable(asset, { ...liquidityData, debt: e8("800") }, market, marketLiquidity)
+    ).toEqual({ amount: constants.Zero, limiter: "borrowCapacity" });
+  });
+
+  it("ignores the borrow cap of a reserve without any", () => {
+    expect(
+      computeMaxBorrowable(asset, liquidityData, market, {
+        ...marketLiquidity,
+        borrowCap: constants.Zero,
+        totalBorrow: usdc("1000000"),
+      })
+    ).toEqual({ amount: usdc("300"), limiter: "borrowCapacity" });
+  });
+
+  it("is zero when the borrow is paused", () => {
+    expect(
+      computeMaxBorrowable(asset, liquidityData, pause({ isBorrowPaused: true }), marketLiquidity)
+    ).toEqual({ amount: constants.Zero, limiter: "paused" });
+  });
+});
+
+describe("computeMaxWithdrawable", () => {
+  const marketLiquidity = { poolLiquidity: usdc("10000") };
+
+  it("is limited by the health factor of the user", () => {
+    // The excess of $100 of maximum debt is worth 125 USDC of collateral at a liquidation threshold of 80%,
+    // reduced by the lower bound of Morpho's liquidation threshold.
+    expect(computeMaxWithdrawable(asset, liquidityData, market, marketLiquidity)).toEqual({
+      amount: BigNumber.from(125_012_501),
+      limiter: "healthFactor",
+    });
+  });
+
+  it("is limited by the collateral balance of a user without debt", () => {
+    expect(
+      computeMaxWithdrawable(
+        asset,
+        { ...liquidityData, debt: constants.Zero },
+        market,
+        marketLiquidity
+      )
+    ).toEqual({ amount: usdc("1000"), limiter: "balance" });
+  });
+
+  it("is limited by the liquidity of the pool", () => {
+    expect(
+      computeMaxWithdrawable(asset, liquidityData, market, { poolLiquidity: usdc("100") })
+    ).toEqual({ amount: usdc("100"), limiter: "poolLiquidity" });
+  });
+
+  it("is zero once the health factor reaches 1", () => {
+    expect(
+      computeMaxWithdrawable(asset, { ...liquidityData, debt: e8("500") }, market, marketLiquidity)
+    ).toEqual({ amount: constants.Zero, limiter: "healthFactor" });
+  });
+
+  it("is zero when the withdrawal of collateral is paused", () => {
+    expect(
+      computeMaxWithdrawable(
+        asset,
+        liquidityData,
+        pause({ isWithdrawCollateralPaused: true }),
+        marketLiquidity
+      )
+    ).toEqual({ amount: constants.Zero, limiter: "paused" });
+  });
+});
+
+describe("getUserMaxBorrowable", () => {
+  const morphoAaveV3 = {
+    address: DEPLOYMENTS[1].morphoAaveV3,
+    interface: MorphoAaveV3__factory.createInterface(),
+  };
+  const erc20Interface = ERC20__factory.createInterface();
+
+  // 300 USDC are borrowed peer-to-peer on Morpho, 100 of which are accounted for in the borrow delta, borrowed on the pool.
+  const getMarkets = (blockNumber: number) => [
+    {
+      market: mockMarket({
+        underlying: USDC,
+        aToken: A_USDC,
+        variableDebtToken: VARIABLE_DEBT_USDC,
+        lastUpdateTimestamp: MockProvider.getTimestamp(blockNumber),
+        deltas: {
+          borrow: { scaledDelta: usdc("100"), scaledP2PTotal: usdc("300") },
+        },
+      }),
+      reserve: mockReserve({
+        lastUpdateTimestamp: MockProvider.getTimestamp(blockNumber),
+        stableDebtTokenAddress: STABLE_DEBT_USDC,
+        configuration: getReserveConfiguration({
+          ltv: 7_700,
+          liquidationThreshold: 8_000,
+          decimals: 6,
+          borrowCap: 1_000,
+        }),
+      }),
+      price: e8("1"),
+      poolSupplyAmount: usdc("10000"),
+      poolBorrowAmount: usdc("500"),
+    },
+  ];
+
+  it("accounts for the debt matched peer-to-peer in the borrow cap", async () => {
+    const provider = mockMarketsSnapshot(new MockProvider(), getMarkets)
+      .mock(morphoAaveV3, "userCollaterals", () => [[]])
+      .mock(morphoAaveV3, "userBorrows", () => [[]])
+      .mock(morphoAaveV3, "liquidityData", () => [
+        { borrowable: e8("1000000"), maxDebt: e8("1000000"), debt: constants.Zero },
+      ]);
+    [
+      "scaledP2PSupplyBalance",
+      "scaledPoolSupplyBalance",
+      "collateralBalance",
+      "scaledP2PBorrowBalance",
+      "scaledPoolBorrowBalance",
+    ].forEach((method) => provider.mock(morphoAaveV3, method, () => [constants.Zero]));
+    provider
+      .mock({ address: USDC, interface: erc20Interface }, "balanceOf", () => [usdc("10000")])
+      .mock({ address: VARIABLE_DEBT_USDC, interface: erc20Interface }, "totalSupply", () => [
+        usdc("500"),
+      ])
+      .mock({ address: STABLE_DEBT_USDC, interface: erc20Interface }, "totalSupply", () => [
+        usdc("100"),
+      ]);
+
+    // The borrow cap of 1,000 USDC is used by 600 USDC borrowed on the pool and 200 USDC matched peer-to-peer.
+    expect(await getUserMaxBorrowable(USER, USDC, provider)).toEqual({
+      blockNumber: 17_000_000,
+      amount: usdc("200"),
+      limiter: "borrowCap",
+    });
+  });
+});
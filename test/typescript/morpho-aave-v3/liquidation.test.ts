@@ -0,0 +1,148 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+
+import {
+  DEFAULT_CLOSE_FACTOR,
+  MAX_CLOSE_FACTOR,
+  MIN_LIQUIDATION_THRESHOLD,
+  computeLiquidationAmounts,
+  computeLiquidationPrices,
+  getCloseFactor,
+} from "../../../typescript/morpho-aave-v3/liquidation";
+import { AssetLiquidationParams } from "../../../typescript/morpho-aave-v3/types";
+
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+const ether = (value: string) => utils.parseEther(value);
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+/** WETH at $2,000 (LTV 80%, LT 82.5%, bonus 5%), with the given collateral & borrow balances. */
+const getWeth = (
+  collateralBalance: BigNumber,
+  borrowBalance = constants.Zero
+): AssetLiquidationParams => ({
+  underlying: WETH,
+  price: utils.parseUnits("2000", 8),
+  decimals: 18,
+  ltv: 8_000,
+  liquidationThreshold: 8_250,
+  liquidationBonus: 10_500,
+  collateralBalance,
+  borrowBalance,
+  isDeprecated: false,
+});
+
+/** USDC at $1 (LTV 77%, LT 80%, bonus 4.5%), with the given collateral & borrow balances. */
+const getUsdc = (
+  collateralBalance: BigNumber,
+  borrowBalance = constants.Zero
+): AssetLiquidationParams => ({
+  underlying: USDC,
+  price: utils.parseUnits("1", 8),
+  decimals: 6,
+  ltv: 7_700,
+  liquidationThreshold: 8_000,
+  liquidationBonus: 10_450,
+  collateralBalance,
+  borrowBalance,
+  isDeprecated: false,
+});
+
+describe("getCloseFactor", () => {
+  it.each([
+    ["above 1", WadRayMath.WAD.add(1), false, BigNumber.from(0)],
+    ["at 1", WadRayMath.WAD, false, BigNumber.from(0)],
+    ["just below 1", WadRayMath.WAD.sub(1), false, DEFAULT_CLOSE_FACTOR],
+    ["just above 0.95", MIN_LIQUIDATION_THRESHOLD.add(1), false, DEFAULT_CLOSE_FACTOR],
+    ["at 0.95", MIN_LIQUIDATION_THRESHOLD, false, DEFAULT_CLOSE_FACTOR],
+    ["just below 0.95", MIN_LIQUIDATION_THRESHOLD.sub(1), false, MAX_CLOSE_FACTOR],
+    ["at 0", BigNumber.from(0), false, MAX_CLOSE_FACTOR],
+    ["above 1 on a deprecated market", WadRayMath.WAD.mul(2), true, MAX_CLOSE_FACTOR],
+  ])(
+    "mirrors _authorizeLiquidate with a health factor %s",
+    (_, healthFactor, isDeprecated, closeFactor) => {
+      expect(getCloseFactor(healthFactor, isDeprecated)).toEqual(closeFactor);
+    }
+  );
+});
+
+describe("computeLiquidationPrices", () => {
+  it("computes the price of each collateral under which the user gets liquidatable", () => {
+    const [weth, ...others] = computeLiquidationPrices([
+      getWeth(ether("10")),
+      getUsdc(constants.Zero, usdc("12375")),
+    ]);
+
+    // The debt of $12,375 equals 10 WETH valued at 82.5% of $1,500, reduced by the lower bound of Morpho's liquidation threshold.
+    expect(others).toEqual([]);
+    expect(weth).toEqual({
+      underlying: WETH,
+      price: utils.parseUnits("2000", 8),
+      liquidationPrice: BigNumber.from(150_015_001_500),
+      priceDrop: BigNumber.from(249_924_992_500_000_000n),
+    });
+  });
+
+  it("accounts for the other collaterals", () => {
+    const [weth, usdcCollateral] = computeLiquidationPrices([
+      getWeth(ether("10")),
+      getUsdc(usdc("5000"), usdc("12375")),
+    ]);
+
+    // The USDC collateral allows $4,000 more debt, lowering the liquidation price of WETH.
+    expect(weth.liquidationPrice!.lt(BigNumber.from(150_015_001_500))).toBe(true);
+    // The WETH collateral alone covers the debt: no price of USDC gets the user liquidatable.
+    expect(usdcCollateral).toEqual({ underlying: USDC, price: utils.parseUnits("1", 8) });
+  });
+
+  it("has no liquidation price when the collateral also backs a debt in the same asset", () => {
+    expect(computeLiquidationPrices([getWeth(ether("10"), ether("5"))])).toEqual([
+      { underlying: WETH, price: utils.parseUnits("2000", 8) },
+    ]);
+    expect(computeLiquidationPrices([getWeth(ether("1"), ether("1"))])).toEqual([
+      { underlying: WETH, price: utils.parseUnits("2000", 8) },
+    ]);
+  });
+});
+
+describe("computeLiquidationAmounts", () => {
+  const borrowed = getUsdc(constants.Zero, usdc("10000"));
+
+  it("seizes the collateral worth the amount repaid, including the liquidation bonus", () => {
+    expect(computeLiquidationAmounts(borrowed, getWeth(ether("10")), DEFAULT_CLOSE_FACTOR)).toEqual(
+      {
+        closeFactor: DEFAULT_CLOSE_FACTOR,
+        maxRepayable: usdc("5000"),
+        seizedCollateral: ether("2.625"),
+      }
+    );
+  });
+
+  it("caps the collateral seized at the collateral balance, lowering the amount repayable", () => {
+    expect(computeLiquidationAmounts(borrowed, getWeth(ether("2")), DEFAULT_CLOSE_FACTOR)).toEqual({
+      closeFactor: DEFAULT_CLOSE_FACTOR,
+      maxRepayable: BigNumber.from(3_809_523_810),
+      seizedCollateral: ether("2"),
+    });
+  });
+
+  it("repays the whole debt below a health factor of 0.95", () => {
+    const closeFactor = getCloseFactor(MIN_LIQUIDATION_THRESHOLD.sub(1), false);
+
+    expect(computeLiquidationAmounts(borrowed, getWeth(ether("10")), closeFactor)).toEqual({
+      closeFactor: MAX_CLOSE_FACTOR,
+      maxRepayable: usdc("10000"),
+      seizedCollateral: ether("5.25"),
+    });
+  });
+
+  it("seizes nothing when the borrow cannot be liquidated", () => {
+    expect(computeLiquidationAmounts(borrowed, getWeth(ether("10")), constants.Zero)).toEqual({
+      closeFactor: constants.Zero,
+      maxRepayable: constants.Zero,
+      seizedCollateral: constants.Zero,
+    });
+  });
+});
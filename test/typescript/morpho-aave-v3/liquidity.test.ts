@@ -0,0 +1,230 @@
+import { BigNumber, constants } from "ethers";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { MorphoAaveV3__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import {
+  computeHealthFactorSimulation,
+  computeHealthReport,
+  computeLiquidityData,
+  DEFAULT_AT_RISK_THRESHOLD,
+  getHealthFactor,
+  getUserHealthReport,
+} from "../../../typescript/morpho-aave-v3/liquidity";
+import { getUserHealthFactor } from "../../../typescript/morpho-aave-v3/snippets";
+import { AssetLiquidityParams, HealthStatus } from "../../../typescript/morpho-aave-v3/types";
+
+import { MockProvider } from "./mocks";
+
+const USER = "0x000000000000000000000000000000000000dEaD";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+const e8 = (value: number) => BigNumber.from(Math.round(value * 1e4)).mul(1e4);
+
+const morphoAaveV3 = {
+  address: DEPLOYMENTS[1].morphoAaveV3,
+  interface: MorphoAaveV3__factory.createInterface(),
+};
+
+/** Mocks the `liquidityData` of the user, in base currency (8 decimals). */
+const mockLiquidityData = (borrowable: BigNumber, maxDebt: BigNumber, debt: BigNumber) =>
+  new MockProvider().mock(morphoAaveV3, "liquidityData", ([user]) => {
+    expect(user).toBe(USER);
+
+    return [{ borrowable, maxDebt, debt }];
+  });
+
+describe("health factor over a mocked liquidityData", () => {
+  it("is MaxUint256 without debt", async () => {
+    const provider = mockLiquidityData(e8(800), e8(850), constants.Zero);
+
+    const healthFactor = await getUserHealthFactor(USER, provider);
+    const report = await getUserHealthReport(USER, provider);
+
+    expect(healthFactor.eq(constants.MaxUint256)).toBe(true);
+    expect(report.healthFactor.eq(constants.MaxUint256)).toBe(true);
+    expect(report.borrowRatio.eq(constants.MaxUint256)).toBe(true);
+    expect(report).toMatchObject({
+      hasCollateral: true,
+      hasDebt: false,
+      status: HealthStatus.healthy,
+    });
+  });
+
+  it("is MaxUint256 without debt nor collateral", async () => {
+    const report = await getUserHealthReport(
+      USER,
+      mockLiquidityData(constants.Zero, constants.Zero, constants.Zero)
+    );
+
+    expect(report.healthFactor.eq(constants.MaxUint256)).toBe(true);
+    expect(report).toMatchObject({
+      hasCollateral: false,
+      hasDebt: false,
+      status: HealthStatus.healthy,
+    });
+  });
+
+  it("is 0 and liquidatable with debt but no collateral", async () => {
+    const provider = mockLiquidityData(constants.Zero, constants.Zero, e8(100));
+
+    const healthFactor = await getUserHealthFactor(USER, provider);
+    const report = await getUserHealthReport(USER, provider);
+
+    expect(healthFactor.isZero()).toBe(true);
+    expect(report.healthFactor.isZero()).toBe(true);
+    expect(report.borrowRatio.isZero()).toBe(true);
+    expect(report).toMatchObject({
+      hasCollateral: false,
+      hasDebt: true,
+      status: HealthStatus.liquidatable,
+    });
+  });
+
+  it("is healthy exactly at the at-risk threshold, and at risk just below", async () => {
+    const debt = e8(1_000);
+
+    const atThreshold = await getUserHealthReport(
+      USER,
+      mockLiquidityData(e8(1_000), e8(1_050), debt)
+    );
+    expect(atThreshold.healthFactor.eq(DEFAULT_AT_RISK_THRESHOLD)).toBe(true);
+    expect(atThreshold.status).toBe(HealthStatus.healthy);
+
+    const belowThreshold = await getUserHealthReport(
+      USER,
+      mockLiquidityData(e8(1_000), e8(1_050).sub(1), debt)
+    );
+    expect(belowThreshold.healthFactor.lt(DEFAULT_AT_RISK_THRESHOLD)).toBe(true);
+    expect(belowThreshold.status).toBe(HealthStatus.atRisk);
+  });
+
+  it("applies a custom at-risk threshold", async () => {
+    const report = await getUserHealthReport(
+      USER,
+      mockLiquidityData(e8(1_000), e8(1_100), e8(1_000)),
+      {},
+      WadRayMath.WAD.mul(12).div(10)
+    );
+
+    expect(report.status).toBe(HealthStatus.atRisk);
+  });
+
+  it("is at risk but not liquidatable exactly at 1, and liquidatable just below", async () => {
+    const debt = e8(1_000);
+
+    const atOne = await getUserHealthReport(USER, mockLiquidityData(e8(900), debt, debt));
+    expect(atOne.healthFactor.eq(WadRayMath.WAD)).toBe(true);
+    expect(atOne.status).toBe(HealthStatus.atRisk);
+    expect(await getUserHealthFactor(USER, mockLiquidityData(e8(900), debt, debt))).toEqual(
+      WadRayMath.WAD
+    );
+
+    const belowOne = await getUserHealthReport(USER, mockLiquidityData(e8(900), debt.sub(1), debt));
+    expect(belowOne.healthFactor.lt(WadRayMath.WAD)).toBe(true);
+    expect(belowOne.status).toBe(HealthStatus.liquidatable);
+  });
+
+  it("reads the liquidity data at the given block", async () => {
+    const provider = new MockProvider(100).mock(morphoAaveV3, "liquidityData", (_, blockNumber) => [
+      { borrowable: e8(blockNumber), maxDebt: e8(2 * blockNumber), debt: e8(blockNumber) },
+    ]);
+
+    const report = await getUserHealthReport(USER, provider, { blockTag: 42 });
+
+    expect(report.maxDebt).toEqual(e8(84));
+    expect(report.healthFactor).toEqual(WadRayMath.WAD.mul(2));
+    expect(await getUserHealthFactor(USER, provider, { blockTag: 42 })).toEqual(
+      WadRayMath.WAD.mul(2)
+    );
+  });
+});
+
+describe("computeHealthReport", () => {
+  it("matches getHealthFactor", () => {
+    const liquidityData = { borrowable: e8(750), maxDebt: e8(800), debt: e8(640) };
+
+    expect(computeHealthReport(liquidityData).healthFactor).toEqual(getHealthFactor(liquidityData));
+    expect(getHealthFactor(liquidityData)).toEqual(WadRayMath.WAD.mul(125).div(100));
+  });
+});
+
+describe("computeHealthFactorSimulation", () => {
+  // 1 WETH at $2,000 (LTV 80%, LT 82.5%) as collateral, 1,000 USDC borrowed.
+  const assets: AssetLiquidityParams[] = [
+    {
+      underlying: WETH,
+      price: e8(2_000),
+      decimals: 18,
+      ltv: 8_000,
+      liquidationThreshold: 8_250,
+      collateralBalance: WadRayMath.WAD,
+      borrowBalance: constants.Zero,
+    },
+    {
+      underlying: USDC,
+      price: e8(1),
+      decimals: 6,
+      ltv: 7_700,
+      liquidationThreshold: 8_000,
+      collateralBalance: constants.Zero,
+      borrowBalance: BigNumber.from(1_000e6),
+    },
+  ];
+
+  it("computes the liquidity data of the position as Morpho's liquidityData", () => {
+    const { borrowable, maxDebt, debt } = computeLiquidityData(assets);
+
+    // The collateral value is reduced by 1 bps by Morpho's LT_LOWER_BOUND.
+    expect(debt).toEqual(e8(1_000));
+    expect(maxDebt).toEqual(e8(2_000).mul(9_999).div(10_000).mul(8_250).div(10_000));
+    expect(borrowable).toEqual(e8(2_000).mul(9_999).div(10_000).mul(8_000).div(10_000));
+    expect(getHealthFactor({ borrowable, maxDebt, debt }).gt(WadRayMath.WAD)).toBe(true);
+  });
+
+  it("crosses 1 when borrowing beyond the maximum debt", () => {
+    const { healthFactor: before } = computeHealthFactorSimulation(assets, []);
+    const { healthFactor: after } = computeHealthFactorSimulation(assets, [
+      { type: "borrow", underlying: USDC, amount: BigNumber.from(700e6) },
+    ]);
+
+    expect(before.gte(WadRayMath.WAD)).toBe(true);
+    expect(after.lt(WadRayMath.WAD)).toBe(true);
+    expect(computeHealthReport(computeLiquidityData(assets)).status).toBe(HealthStatus.healthy);
+  });
+
+  it("crosses 1 when withdrawing beyond the maximum withdrawable collateral", () => {
+    const {
+      assets: [{ maxWithdrawable }],
+    } = computeHealthFactorSimulation(assets, []);
+
+    const { healthFactor: withinMax } = computeHealthFactorSimulation(assets, [
+      { type: "withdrawCollateral", underlying: WETH, amount: maxWithdrawable.div(2) },
+    ]);
+    const { healthFactor: beyondMax } = computeHealthFactorSimulation(assets, [
+      { type: "withdrawCollateral", underlying: WETH, amount: maxWithdrawable.add(1e12) },
+    ]);
+
+    expect(withinMax.gte(WadRayMath.WAD)).toBe(true);
+    expect(beyondMax.lt(WadRayMath.WAD)).toBe(true);
+  });
+
+  it("crosses back above 1 when repaying", () => {
+    const { healthFactor } = computeHealthFactorSimulation(assets, [
+      { type: "borrow", underlying: USDC, amount: BigNumber.from(700e6) },
+      { type: "repay", underlying: USDC, amount: BigNumber.from(200e6) },
+    ]);
+
+    expect(healthFactor.gte(WadRayMath.WAD)).toBe(true);
+  });
+
+  it("rejects an action on an unknown market", () => {
+    expect(() =>
+      computeHealthFactorSimulation(assets, [
+        { type: "borrow", underlying: constants.AddressZero, amount: constants.One },
+      ])
+    ).toThrow(`No market created for ${constants.AddressZero}`);
+  });
+});
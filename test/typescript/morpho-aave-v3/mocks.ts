@@ -0,0 +1,434 @@
+import { BaseContract, BigNumber, constants, providers, utils } from "ethers";
+
+import {
+  AaveV3Oracle__factory,
+  AaveV3Pool__factory,
+  ERC20__factory,
+  MorphoAaveV3__factory,
+  Multicall3__factory,
+} from "@morpho-labs/morpho-ethers-contract";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { DEPLOYMENTS, MULTICALL3_ADDRESS } from "../../../typescript/morpho-aave-v3/addresses";
+import { Indexes, InterestRateStrategyParams } from "../../../typescript/morpho-aave-v3/types";
+
+/**
+ * A mocked contract layer: a provider answering the calls to the mocked contracts by decoding them
+ * with the interface of the contract and encoding the outputs returned by their handler.
+ * Multicall3's `aggregate3` is unrolled into the calls it batches, so that the snippets batching their calls
+ * read the same handlers.
+ */
+
+export type CallHandler = (args: utils.Result, blockNumber: number) => ReadonlyArray<unknown>;
+
+interface MockedFunction {
+  contract: Pick<BaseContract, "address" | "interface">;
+  method: string;
+  handler: CallHandler;
+}
+
+const multicallInterface = Multicall3__factory.createInterface();
+
+const BLOCK_HASH_PREFIX = "0xb10c";
+
+export const getBlockHash = (blockNumber: number) =>
+  utils.hexZeroPad(utils.hexConcat([BLOCK_HASH_PREFIX, utils.hexlify(blockNumber)]), 32);
+
+export class MockProvider extends providers.BaseProvider {
+  /** The latest block. */
+  public latestBlock: number;
+
+  /** The logs returned by `getLogs`, filtered by block range, address & topics. */
+  public logs: providers.Log[] = [];
+
+  /** The number of calls performed, by method (`call`, `getLogs`, ...), to assert what was read. */
+  public readonly performed: { [method: string]: number } = {};
+
+  private readonly functions = new Map<string, MockedFunction>();
+
+  /** A failure to throw on the next calls of a method, to simulate an unavailable RPC. */
+  private failures: { [method: string]: Error } = {};
+
+  constructor(blockNumber = 17_000_000, chainId = 1) {
+    super({ chainId, name: chainId === 1 ? "homestead" : "unknown" });
+
+    this.latestBlock = blockNumber;
+  }
+
+  public async detectNetwork() {
+    return this.network;
+  }
+
+  /** The timestamp of a block: 12 seconds per block since the genesis, at timestamp 1_600_000_000. */
+  public static getTimestamp(blockNumber: number) {
+    return 1_600_000_000 + 12 * blockNumber;
+  }
+
+  /**
+   * Mocks a function of a contract.
+   *
+   * @param contract The contract, connected at its address, whose interface decodes the calls.
+   * @param method The name or signature of the function.
+   * @param handler The function returning the outputs of the call, given its arguments and the block it is read at.
+   */
+  public mock(
+    contract: Pick<BaseContract, "address" | "interface">,
+    method: string,
+    handler: CallHandler
+  ) {
+    const selector = contract.interface.getSighash(method);
+    this.functions.set(`${contract.address.toLowerCase()}:${selector}`, {
+      contract,
+      method,
+      handler,
+    });
+
+    return this;
+  }
+
+  public fail(method: string, error: Error = new Error(`${method} is unavailable`)) {
+    this.failures[method] = error;
+  }
+
+  public recover(method: string) {
+    delete this.failures[method];
+  }
+
+  private resolveBlockNumber(blockTag: string | undefined) {
+    if (blockTag == null || blockTag === "latest" || blockTag === "pending")
+      return this.latestBlock;
+
+    return BigNumber.from(blockTag).toNumber();
+  }
+
+  private execute(to: string, data: string, blockNumber: number): string {
+    const selector = utils.hexDataSlice(data, 0, 4);
+
+    if (
+      to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase() &&
+      selector === multicallInterface.getSighash("aggregate3")
+    ) {
+      const [calls] = multicallInterface.decodeFunctionData("aggregate3", data);
+
+      return multicallInterface.encodeFunctionResult("aggregate3", [
+        calls.map(({ target, callData }: { target: string; callData: string }) => ({
+          success: true,
+          returnData: this.execute(target, callData, blockNumber),
+        })),
+      ]);
+    }
+
+    const mocked = this.functions.get(`${to.toLowerCase()}:${selector}`);
+    if (!mocked) throw new Error(`Unmocked call to ${selector} of ${to}`);
+
+    const { contract, method, handler } = mocked;
+
+    return contract.interface.encodeFunctionResult(
+      method,
+      handler(contract.interface.decodeFunctionData(method, data), blockNumber)
+    );
+  }
+
+  public async perform(method: string, params: any): Promise<any> {
+    this.performed[method] = (this.performed[method] ?? 0) + 1;
+    if (this.failures[method]) throw this.failures[method];
+
+    switch (method) {
+      case "getBlockNumber":
+        return this.latestBlock;
+      case "call":
+        return this.execute(
+          params.transaction.to,
+          params.transaction.data,
+          this.resolveBlockNumber(params.blockTag)
+        );
+      case "getBlock": {
+        const number = this.resolveBlockNumber(params.blockTag);
+
+        return {
+          hash: getBlockHash(number),
+          parentHash: getBlockHash(number - 1),
+          number,
+          timestamp: MockProvider.getTimestamp(number),
+          nonce: "0x0000000000000000",
+          difficulty: 0,
+          gasLimit: "0x1c9c380",
+          gasUsed: "0x0",
+          miner: "0x0000000000000000000000000000000000000000",
+          extraData: "0x",
+          transactions: [],
+        };
+      }
+      case "getLogs": {
+        const { fromBlock, toBlock, address, topics = [] } = params.filter;
+        const from = this.resolveBlockNumber(fromBlock);
+        const to = this.resolveBlockNumber(toBlock);
+
+        return this.logs.filter(
+          (log) =>
+            log.blockNumber >= from &&
+            log.blockNumber <= to &&
+            (address == null || log.address.toLowerCase() === address.toLowerCase()) &&
+            topics.every(
+              (topic: string | string[] | null, i: number) =>
+                topic == null ||
+                (Array.isArray(topic) ? topic.includes(log.topics[i]) : topic === log.topics[i])
+            )
+        );
+      }
+    }
+
+    throw new Error(`${method} is not mocked`);
+  }
+}
+
+/**
+ * This function builds the log of an event, as emitted by a contract at a given block.
+ *
+ * @param contract The contract emitting the event.
+ * @param event The name or signature of the event.
+ * @param args The arguments of the event.
+ * @param blockNumber The block the event is emitted at.
+ * @param logIndex The index of the log in the block.
+ */
+export const toLog = (
+  contract: Pick<BaseContract, "address" | "interface">,
+  event: string,
+  args: ReadonlyArray<unknown>,
+  blockNumber: number,
+  logIndex = 0
+): providers.Log => {
+  const fragment = contract.interface.getEvent(event);
+  const { data, topics } = contract.interface.encodeEventLog(fragment, args);
+
+  return {
+    blockNumber,
+    blockHash: getBlockHash(blockNumber),
+    transactionIndex: 0,
+    removed: false,
+    address: contract.address,
+    data,
+    topics,
+    transactionHash: utils.hexZeroPad(utils.hexlify(blockNumber * 1_000 + logIndex), 32),
+    logIndex,
+  };
+};
+
+const RAY = BigNumber.from(10).pow(27);
+
+const PAUSE_STATUSES = {
+  isP2PDisabled: false,
+  isSupplyPaused: false,
+  isSupplyCollateralPaused: false,
+  isBorrowPaused: false,
+  isWithdrawPaused: false,
+  isWithdrawCollateralPaused: false,
+  isRepayPaused: false,
+  isLiquidateCollateralPaused: false,
+  isLiquidateBorrowPaused: false,
+  isDeprecated: false,
+};
+
+/**
+ * This function builds a Morpho market, as returned by `morphoAaveV3.market`, from the fields to override:
+ * unit indexes, no peer-to-peer amount, a reserve factor of 0% and a cursor of 50% by default.
+ */
+export const mockMarket = ({
+  indexes = {},
+  deltas = {},
+  ...market
+}: {
+  indexes?: Partial<Indexes>;
+  deltas?: {
+    [side in "supply" | "borrow"]?: { scaledDelta: BigNumber; scaledP2PTotal: BigNumber };
+  };
+} & Partial<Omit<Types.MarketStructOutput, "indexes" | "deltas">> = {}) =>
+  ({
+    indexes: {
+      supply: { poolIndex: RAY, p2pIndex: RAY },
+      borrow: { poolIndex: RAY, p2pIndex: RAY },
+      ...indexes,
+    },
+    deltas: {
+      supply: { scaledDelta: constants.Zero, scaledP2PTotal: constants.Zero },
+      borrow: { scaledDelta: constants.Zero, scaledP2PTotal: constants.Zero },
+      ...deltas,
+    },
+    underlying: constants.AddressZero,
+    pauseStatuses: PAUSE_STATUSES,
+    isCollateral: false,
+    variableDebtToken: constants.AddressZero,
+    lastUpdateTimestamp: 0,
+    reserveFactor: 0,
+    p2pIndexCursor: 5_000,
+    aToken: constants.AddressZero,
+    stableDebtToken: constants.AddressZero,
+    idleSupply: constants.Zero,
+    ...market,
+  } as unknown as Types.MarketStructOutput);
+
+/**
+ * This function builds an Aave reserve, as returned by `pool.getReserveData`, from the fields to override:
+ * unit indexes and no interest by default.
+ */
+export const mockReserve = (reserve: Partial<DataTypes.ReserveDataStructOutput> = {}) =>
+  ({
+    configuration: { data: constants.Zero },
+    liquidityIndex: RAY,
+    currentLiquidityRate: constants.Zero,
+    variableBorrowIndex: RAY,
+    currentVariableBorrowRate: constants.Zero,
+    currentStableBorrowRate: constants.Zero,
+    lastUpdateTimestamp: 0,
+    id: 0,
+    aTokenAddress: constants.AddressZero,
+    stableDebtTokenAddress: constants.AddressZero,
+    variableDebtTokenAddress: constants.AddressZero,
+    interestRateStrategyAddress: constants.AddressZero,
+    accruedToTreasury: constants.Zero,
+    unbacked: constants.Zero,
+    isolationModeTotalDebt: constants.Zero,
+    ...reserve,
+  } as unknown as DataTypes.ReserveDataStructOutput);
+
+/**
+ * This function builds the configuration of an Aave reserve, packing its parameters into the bitmap.
+ *
+ * @param params The LTV, liquidation threshold & bonus, the decimals, the reserve factor (in bps), the borrow cap (in whole tokens)
+ * and the e-mode category of the reserve.
+ */
+export const getReserveConfiguration = ({
+  ltv = 0,
+  liquidationThreshold = 0,
+  liquidationBonus = 0,
+  decimals = 18,
+  reserveFactor = 0,
+  borrowCap = 0,
+  eModeCategory = 0,
+}: {
+  ltv?: number;
+  liquidationThreshold?: number;
+  liquidationBonus?: number;
+  decimals?: number;
+  reserveFactor?: number;
+  borrowCap?: number;
+  eModeCategory?: number;
+}) =>
+  ({
+    data: BigNumber.from(ltv)
+      .or(BigNumber.from(liquidationThreshold).shl(16))
+      .or(BigNumber.from(liquidationBonus).shl(32))
+      .or(BigNumber.from(decimals).shl(48))
+      .or(BigNumber.from(reserveFactor).shl(64))
+      .or(BigNumber.from(borrowCap).shl(80))
+      .or(BigNumber.from(eModeCategory).shl(168)),
+  } as DataTypes.ReserveConfigurationMapStructOutput);
+
+/**
+ * The parameters of an interest rate strategy with a kink at 80% of usage: the variable borrow rate grows from 0%
+ * to 4% up to the kink, then to 64% at 100% of usage, and the stable borrow rate from 5% to 5.5%, then to 65.5%.
+ * The stable borrow rate is raised by up to 8% when more than 20% of the debt is borrowed at a stable rate.
+ */
+export const STRATEGY_PARAMS: InterestRateStrategyParams = {
+  optimalUsageRatio: utils.parseUnits("0.8", 27),
+  baseVariableBorrowRate: constants.Zero,
+  variableRateSlope1: utils.parseUnits("0.04", 27),
+  variableRateSlope2: utils.parseUnits("0.6", 27),
+  baseStableBorrowRate: utils.parseUnits("0.05", 27),
+  stableRateSlope1: utils.parseUnits("0.005", 27),
+  stableRateSlope2: utils.parseUnits("0.6", 27),
+  optimalStableToTotalDebtRatio: utils.parseUnits("0.2", 27),
+  stableRateExcessOffset: utils.parseUnits("0.08", 27),
+};
+
+export interface MockedMarketSnapshot {
+  /** The Morpho market, whose underlying, aToken & variable debt token identify the mocked contracts. */
+  market: Types.MarketStructOutput;
+
+  /** The Aave reserve. */
+  reserve: DataTypes.ReserveDataStructOutput;
+
+  /** The price of the underlying (in base currency, with 8 decimals). */
+  price: BigNumber;
+
+  /** The aTokens held by Morpho (in underlying). */
+  poolSupplyAmount: BigNumber;
+
+  /** The variable debt tokens held by Morpho (in underlying). */
+  poolBorrowAmount: BigNumber;
+}
+
+/**
+ * This function mocks the contracts read by `getMarketsSnapshot`, at the addresses registered for mainnet:
+ * Morpho, the pool, the oracle, Multicall3 and the tokens of each market.
+ *
+ * @param provider The provider to mock the contracts on.
+ * @param getMarkets The function returning the markets at a given block.
+ * @param eMode The e-mode category of Morpho and its parameters, without any price source. Defaults to no e-mode.
+ */
+export const mockMarketsSnapshot = (
+  provider: MockProvider,
+  getMarkets: (blockNumber: number) => MockedMarketSnapshot[],
+  eMode?: { id: number; ltv: number; liquidationThreshold: number; liquidationBonus: number }
+) => {
+  const { morphoAaveV3, pool, oracle, multicall3 } = DEPLOYMENTS[1];
+  const getMarket = (underlying: string, blockNumber: number) => {
+    const snapshot = getMarkets(blockNumber).find(
+      ({ market }) => market.underlying.toLowerCase() === underlying.toLowerCase()
+    );
+    if (!snapshot) throw new Error(`No market mocked for ${underlying}`);
+
+    return snapshot;
+  };
+
+  const morphoContract = {
+    address: morphoAaveV3,
+    interface: MorphoAaveV3__factory.createInterface(),
+  };
+  const oracleContract = { address: oracle, interface: AaveV3Oracle__factory.createInterface() };
+  const erc20Interface = ERC20__factory.createInterface();
+
+  provider
+    .mock(morphoContract, "marketsCreated", (_, blockNumber) => [
+      getMarkets(blockNumber).map(({ market }) => market.underlying),
+    ])
+    .mock(morphoContract, "eModeCategoryId", () => [eMode?.id ?? 0])
+    .mock(morphoContract, "market", ([underlying], blockNumber) => [
+      getMarket(underlying, blockNumber).market,
+    ])
+    .mock(
+      { address: pool, interface: AaveV3Pool__factory.createInterface() },
+      "getReserveData",
+      ([underlying], blockNumber) => [getMarket(underlying, blockNumber).reserve]
+    )
+    .mock(
+      { address: pool, interface: AaveV3Pool__factory.createInterface() },
+      "getEModeCategoryData",
+      () => [{ ...eMode, priceSource: constants.AddressZero, label: "" }]
+    )
+    .mock(oracleContract, "BASE_CURRENCY_UNIT", () => [1e8])
+    .mock(oracleContract, "getAssetPrice", ([underlying], blockNumber) => [
+      getMarket(underlying, blockNumber).price,
+    ])
+    .mock(
+      { address: multicall3, interface: Multicall3__factory.createInterface() },
+      "getCurrentBlockTimestamp",
+      (_, blockNumber) => [MockProvider.getTimestamp(blockNumber)]
+    );
+
+  getMarkets(provider.latestBlock).forEach(
+    ({ market: { underlying, aToken, variableDebtToken } }) =>
+      provider
+        .mock({ address: aToken, interface: erc20Interface }, "balanceOf", (_, blockNumber) => [
+          getMarket(underlying, blockNumber).poolSupplyAmount,
+        ])
+        .mock(
+          { address: variableDebtToken, interface: erc20Interface },
+          "balanceOf",
+          (_, blockNumber) => [getMarket(underlying, blockNumber).poolBorrowAmount]
+        )
+  );
+
+  return provider;
+};
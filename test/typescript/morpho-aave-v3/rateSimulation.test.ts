@@ -0,0 +1,356 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import {
+  computeBorrowRateSimulation,
+  computeSupplyRateSimulation,
+} from "../../../typescript/morpho-aave-v3/rateSimulation";
+import { RateSimulationMarket } from "../../../typescript/morpho-aave-v3/types";
+
+import { mockMarket, STRATEGY_PARAMS } from "./mocks";
+
+const ray = (value: string) => utils.parseUnits(value, 27);
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+const RAY_INDEXES = {
+  supply: { poolIndex: ray("1"), p2pIndex: ray("1") },
+  borrow: { poolIndex: ray("1"), p2pIndex: ray("1") },
+};
+
+/**
+ * This function mocks a market whose reserve follows `STRATEGY_PARAMS` with a reserve factor of 10%,
+ * without any delta nor peer-to-peer amount other than the idle supply.
+ */
+const mockSimulationMarket = ({
+  availableLiquidity,
+  totalVariableDebt,
+  poolSupplyAmount = constants.Zero,
+  poolBorrowAmount = constants.Zero,
+  supplyCapRoom = constants.MaxUint256,
+  idleSupply = constants.Zero,
+  isP2PDisabled = false,
+}: {
+  availableLiquidity: BigNumber;
+  totalVariableDebt: BigNumber;
+  poolSupplyAmount?: BigNumber;
+  poolBorrowAmount?: BigNumber;
+  supplyCapRoom?: BigNumber;
+  idleSupply?: BigNumber;
+  isP2PDisabled?: boolean;
+}): RateSimulationMarket => ({
+  market: mockMarket({
+    indexes: RAY_INDEXES,
+    idleSupply,
+    // The idle supply is accounted for in the peer-to-peer supply.
+    deltas: { supply: { scaledDelta: constants.Zero, scaledP2PTotal: idleSupply } },
+    pauseStatuses: { isP2PDisabled } as Types.PauseStatusesStructOutput,
+  }),
+  indexes: RAY_INDEXES,
+  poolSupplyAmount,
+  poolBorrowAmount,
+  supplyCapRoom,
+  rateModel: {
+    params: STRATEGY_PARAMS,
+    liquidity: {
+      availableLiquidity,
+      totalVariableDebt,
+      totalStableDebt: constants.Zero,
+      averageStableBorrowRate: constants.Zero,
+      unbacked: constants.Zero,
+      reserveFactor: 1_000,
+    },
+  },
+});
+
+const toString = (values: { [name: string]: BigNumber }) =>
+  Object.fromEntries(Object.entries(values).map(([name, value]) => [name, value.toString()]));
+
+describe("computeSupplyRateSimulation", () => {
+  it("supplies to a reserve at 0% of usage without any interest", () => {
+    const simulation = computeSupplyRateSimulation(
+      mockSimulationMarket({ availableLiquidity: usdc("1000"), totalVariableDebt: constants.Zero }),
+      usdc("100")
+    );
+
+    expect(
+      toString({
+        poolAmount: simulation.poolAmount,
+        p2pAmount: simulation.p2pAmount,
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        poolAmount: usdc("100"),
+        p2pAmount: constants.Zero,
+        borrowUsageRatio: constants.Zero,
+        poolSupplyRatePerYear: constants.Zero,
+        poolBorrowRatePerYear: constants.Zero,
+        experiencedRatePerYear: constants.Zero,
+      })
+    );
+  });
+
+  it("lowers the usage of the reserve down to the kink", () => {
+    const simulation = computeSupplyRateSimulation(
+      mockSimulationMarket({ availableLiquidity: usdc("100"), totalVariableDebt: usdc("800") }),
+      usdc("100")
+    );
+
+    expect(
+      toString({
+        poolAmount: simulation.poolAmount,
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        poolAmount: usdc("100"),
+        borrowUsageRatio: ray("0.8"),
+        poolSupplyRatePerYear: ray("0.0288"),
+        poolBorrowRatePerYear: ray("0.04"),
+        experiencedRatePerYear: ray("0.0288"),
+      })
+    );
+  });
+
+  it("promotes the borrowers of a reserve at 100% of usage, matching the amount peer-to-peer", () => {
+    const simulation = computeSupplyRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: constants.Zero,
+        totalVariableDebt: usdc("1000"),
+        poolBorrowAmount: usdc("1000"),
+      }),
+      usdc("100")
+    );
+
+    // The borrowers promoted repay 100 USDC to the pool, lowering its usage to 90%:
+    // the variable borrow rate is 4% + 60% * (90% - 80%) / (100% - 80%) = 34% and the supply rate 34% * 90% * 90%.
+    expect(
+      toString({
+        poolAmount: simulation.poolAmount,
+        p2pAmount: simulation.p2pAmount,
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        p2pSupplyRatePerYear: simulation.p2pSupplyRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        poolAmount: constants.Zero,
+        p2pAmount: usdc("100"),
+        borrowUsageRatio: ray("0.9"),
+        poolSupplyRatePerYear: ray("0.2754"),
+        poolBorrowRatePerYear: ray("0.34"),
+        // The peer-to-peer index cursor of 50% sets the peer-to-peer rate midway between the pool rates.
+        p2pSupplyRatePerYear: ray("0.3077"),
+        experiencedRatePerYear: ray("0.3077"),
+      })
+    );
+  });
+
+  it("supplies up to the supply cap", () => {
+    const simulation = computeSupplyRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: usdc("100"),
+        totalVariableDebt: usdc("800"),
+        supplyCapRoom: usdc("100"),
+      }),
+      usdc("100")
+    );
+
+    expect(simulation.poolAmount).toEqual(usdc("100"));
+    expect(simulation.idleAmount).toEqual(constants.Zero);
+    expect(simulation.p2pAmount).toEqual(constants.Zero);
+  });
+
+  it("rejects an amount supplied to the pool exceeding the supply cap", () => {
+    expect(() =>
+      computeSupplyRateSimulation(
+        mockSimulationMarket({
+          availableLiquidity: usdc("100"),
+          totalVariableDebt: usdc("800"),
+          supplyCapRoom: usdc("40"),
+        }),
+        usdc("100")
+      )
+    ).toThrow(
+      `Cannot supply ${usdc("100")}, exceeding the supply cap room of the pool ${usdc("40")}`
+    );
+  });
+
+  it("does not count the borrowers promoted against the supply cap", () => {
+    const simulation = computeSupplyRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: usdc("100"),
+        totalVariableDebt: usdc("800"),
+        poolBorrowAmount: usdc("60"),
+        supplyCapRoom: usdc("40"),
+      }),
+      usdc("100")
+    );
+
+    expect(simulation.p2pAmount).toEqual(usdc("60"));
+    expect(simulation.poolAmount).toEqual(usdc("40"));
+  });
+
+  it("rejects a zero amount", () => {
+    expect(() =>
+      computeSupplyRateSimulation(
+        mockSimulationMarket({ availableLiquidity: usdc("100"), totalVariableDebt: usdc("800") }),
+        constants.Zero
+      )
+    ).toThrow("Cannot simulate the supply of a zero amount");
+  });
+});
+
+describe("computeBorrowRateSimulation", () => {
+  it("borrows from a reserve at 0% of usage along the first slope", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({ availableLiquidity: usdc("1000"), totalVariableDebt: constants.Zero }),
+      usdc("100")
+    );
+
+    // The usage of the reserve rises to 10%: the variable borrow rate is 4% * 10% / 80% = 0.5%.
+    expect(
+      toString({
+        poolAmount: simulation.poolAmount,
+        p2pAmount: simulation.p2pAmount,
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        poolAmount: usdc("100"),
+        p2pAmount: constants.Zero,
+        borrowUsageRatio: ray("0.1"),
+        poolSupplyRatePerYear: ray("0.00045"),
+        poolBorrowRatePerYear: ray("0.005"),
+        experiencedRatePerYear: ray("0.005"),
+      })
+    );
+  });
+
+  it("raises the usage of the reserve up to the kink", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({ availableLiquidity: usdc("300"), totalVariableDebt: usdc("700") }),
+      usdc("100")
+    );
+
+    expect(
+      toString({
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        borrowUsageRatio: ray("0.8"),
+        poolSupplyRatePerYear: ray("0.0288"),
+        poolBorrowRatePerYear: ray("0.04"),
+        experiencedRatePerYear: ray("0.04"),
+      })
+    );
+  });
+
+  it("raises the usage of the reserve up to 100%, borrowing all its liquidity", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({ availableLiquidity: usdc("100"), totalVariableDebt: usdc("900") }),
+      usdc("100")
+    );
+
+    expect(
+      toString({
+        borrowUsageRatio: simulation.borrowUsageRatio,
+        poolSupplyRatePerYear: simulation.poolSupplyRatePerYear,
+        poolBorrowRatePerYear: simulation.poolBorrowRatePerYear,
+        experiencedRatePerYear: simulation.experiencedRatePerYear,
+      })
+    ).toEqual(
+      toString({
+        borrowUsageRatio: ray("1"),
+        poolSupplyRatePerYear: ray("0.576"),
+        poolBorrowRatePerYear: ray("0.64"),
+        experiencedRatePerYear: ray("0.64"),
+      })
+    );
+  });
+
+  it("promotes the suppliers on the pool, withdrawing their liquidity from the pool", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: usdc("300"),
+        totalVariableDebt: usdc("700"),
+        poolSupplyAmount: usdc("40"),
+      }),
+      usdc("100")
+    );
+
+    // The suppliers promoted withdraw 40 USDC from the pool, which lends the remaining 60 USDC.
+    expect(simulation.p2pAmount).toEqual(usdc("40"));
+    expect(simulation.poolAmount).toEqual(usdc("60"));
+    expect(simulation.borrowUsageRatio).toEqual(WadRayMath.rayDiv(usdc("760"), usdc("960")));
+  });
+
+  it("matches the idle supply before the supply delta & the suppliers on the pool", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: usdc("300"),
+        totalVariableDebt: usdc("700"),
+        poolSupplyAmount: usdc("40"),
+        idleSupply: usdc("30"),
+      }),
+      usdc("100")
+    );
+
+    expect(simulation.idleAmount).toEqual(usdc("30"));
+    expect(simulation.p2pAmount).toEqual(usdc("70"));
+    expect(simulation.poolAmount).toEqual(usdc("30"));
+  });
+
+  it("leaves the idle supply unmatched when peer-to-peer is disabled", () => {
+    const simulation = computeBorrowRateSimulation(
+      mockSimulationMarket({
+        availableLiquidity: usdc("300"),
+        totalVariableDebt: usdc("700"),
+        poolSupplyAmount: usdc("40"),
+        idleSupply: usdc("30"),
+        isP2PDisabled: true,
+      }),
+      usdc("100")
+    );
+
+    expect(simulation.idleAmount).toEqual(constants.Zero);
+    expect(simulation.p2pAmount).toEqual(constants.Zero);
+    expect(simulation.poolAmount).toEqual(usdc("100"));
+    expect(simulation.borrowUsageRatio).toEqual(ray("0.8"));
+  });
+
+  it("rejects an amount exceeding the liquidity of the pool", () => {
+    expect(() =>
+      computeBorrowRateSimulation(
+        mockSimulationMarket({ availableLiquidity: usdc("100"), totalVariableDebt: usdc("900") }),
+        usdc("101")
+      )
+    ).toThrow(`Cannot borrow ${usdc("101")}, exceeding the liquidity of the pool ${usdc("100")}`);
+  });
+
+  it("rejects a zero amount", () => {
+    expect(() =>
+      computeBorrowRateSimulation(
+        mockSimulationMarket({ availableLiquidity: usdc("100"), totalVariableDebt: usdc("900") }),
+        constants.Zero
+      )
+    ).toThrow("Cannot simulate the borrow of a zero amount");
+  });
+});
@@ -0,0 +1,113 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import {
+  computeAverageBorrowRates,
+  computeAverageSupplyRates,
+} from "../../../typescript/morpho-aave-v3/rates";
+
+import { mockMarket, mockReserve } from "./mocks";
+
+/**
+ * The expected average rates are computed with the formula of the Solidity `Utils.weightedRate`, in native bigint,
+ * independently of the maths used by the snippets.
+ */
+
+const RAY = 10n ** 27n;
+const HALF_RAY = RAY / 2n;
+
+const rayMul = (a: bigint, b: bigint) => (a * b + HALF_RAY) / RAY;
+const rayDiv = (a: bigint, b: bigint) => (a * RAY + b / 2n) / b;
+
+const ray = (value: string) => utils.parseUnits(value, 27);
+
+const indexes = {
+  supply: { poolIndex: ray("1"), p2pIndex: ray("1") },
+  borrow: { poolIndex: ray("1"), p2pIndex: ray("1") },
+};
+
+// The peer-to-peer rates are halfway between the pool supply rate of 3% and the pool borrow rate of 5%.
+const reserve = mockReserve({
+  currentLiquidityRate: ray("0.03"),
+  currentVariableBorrowRate: ray("0.05"),
+});
+const P2P_RATE = ray("0.04");
+
+/** The average rate of balances truly matched peer-to-peer and supplied or borrowed on the pool. */
+const getExpectedRate = (
+  p2pRate: BigNumber,
+  poolRate: BigNumber,
+  inP2P: bigint,
+  onPool: bigint
+) => {
+  const totalBalance = inP2P + onPool;
+
+  return BigNumber.from(
+    rayMul(p2pRate.toBigInt(), rayDiv(inP2P, totalBalance)) +
+      rayMul(poolRate.toBigInt(), rayDiv(onPool, totalBalance))
+  );
+};
+
+describe("computeAverageBorrowRates", () => {
+  const getMarket = (scaledP2PTotal: number) =>
+    mockMarket({
+      deltas: {
+        borrow: { scaledDelta: constants.Zero, scaledP2PTotal: BigNumber.from(scaledP2PTotal) },
+      },
+    });
+
+  it("rounds the average borrow rate as the Solidity avgBorrowAPR does", () => {
+    const rates = computeAverageBorrowRates(
+      { market: getMarket(1), reserve, poolBorrowAmount: BigNumber.from(6) },
+      indexes
+    );
+
+    expect(rates.p2pBorrowRatePerYear).toEqual(P2P_RATE);
+    expect(rates.poolBorrowRatePerYear).toEqual(ray("0.05"));
+    // Weighting the rates by the balances before dividing by the total would round 1 wei lower.
+    expect(rates.avgBorrowRatePerYear).toEqual(getExpectedRate(P2P_RATE, ray("0.05"), 1n, 6n));
+    expect(rates.avgBorrowRatePerYear).toEqual(BigNumber.from("48571428571428571428571429"));
+  });
+
+  it("is zero without any borrow", () => {
+    expect(
+      computeAverageBorrowRates(
+        { market: getMarket(0), reserve, poolBorrowAmount: constants.Zero },
+        indexes
+      ).avgBorrowRatePerYear
+    ).toEqual(constants.Zero);
+  });
+});
+
+describe("computeAverageSupplyRates", () => {
+  const getMarket = (scaledP2PTotal: number, idleSupply = 0) =>
+    mockMarket({
+      idleSupply: BigNumber.from(idleSupply),
+      deltas: {
+        supply: { scaledDelta: constants.Zero, scaledP2PTotal: BigNumber.from(scaledP2PTotal) },
+      },
+    });
+
+  it("rounds the average supply rate as the Solidity weightedRate does", () => {
+    const rates = computeAverageSupplyRates(
+      { market: getMarket(5), reserve, poolSupplyAmount: BigNumber.from(7) },
+      indexes
+    );
+
+    expect(rates.p2pSupplyRatePerYear).toEqual(P2P_RATE);
+    expect(rates.avgSupplyRatePerYear).toEqual(getExpectedRate(P2P_RATE, ray("0.03"), 5n, 7n));
+  });
+
+  it("includes the idle supply, earning no interest, in the average supply rate", () => {
+    // The idle supply is part of the peer-to-peer supply, but not of the supply truly matched peer-to-peer.
+    const { avgSupplyRatePerYear } = computeAverageSupplyRates(
+      { market: getMarket(3, 2), reserve, poolSupplyAmount: BigNumber.from(6) },
+      indexes
+    );
+
+    expect(avgSupplyRatePerYear).toEqual(
+      BigNumber.from(
+        rayMul(P2P_RATE.toBigInt(), rayDiv(1n, 9n)) + rayMul(ray("0.03").toBigInt(), rayDiv(6n, 9n))
+      )
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import "dotenv/config";
+import { providers } from "ethers";
+
+import { AaveV3Pool__factory, MorphoAaveV3__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import { backfillMarkets } from "../../../typescript/morpho-aave-v3/backfill";
+import { verifyReserveRates } from "../../../typescript/morpho-aave-v3/interestRateStrategy";
+import { getMarketsSnapshot } from "../../../typescript/morpho-aave-v3/snapshot";
+
+import { RecordingProvider } from "./fixtures";
+
+/**
+ * Records the RPC fixtures replayed by the tests: each scenario reads, at the pinned block, what a test replays.
+ * Run with `yarn test:record [blockNumber]`, the node being queried at `RPC_URL` (an archive node for past blocks).
+ */
+
+export const PINNED_BLOCK = 18_000_000;
+
+/** The range of blocks backfilled by the backfill scenario: 3 blocks, 100 blocks apart, up to the pinned block. */
+export const getBackfillRange = (toBlock: number) => ({
+  fromBlock: toBlock - 200,
+  toBlock,
+  step: 100,
+});
+
+const SCENARIOS: {
+  [name: string]: (provider: providers.BaseProvider, blockTag: number) => Promise<unknown>;
+} = {
+  // indexes.test.ts: the markets snapshot & Morpho's updatedIndexes of each market.
+  indexes: async (provider, blockTag) => {
+    const { markets } = await getMarketsSnapshot(provider, { blockTag });
+    const { chainId } = await provider.getNetwork();
+    const morphoAaveV3 = MorphoAaveV3__factory.connect(DEPLOYMENTS[chainId].morphoAaveV3, provider);
+
+    return Promise.all(
+      markets.map(({ underlying }) => morphoAaveV3.updatedIndexes(underlying, { blockTag }))
+    );
+  },
+  // backfill.test.ts: the markets data points at each block of the backfilled range.
+  backfill: (provider, blockTag) => backfillMarkets(getBackfillRange(blockTag), provider),
+  // interestRateStrategy.test.ts: the verification of the rates of every reserve of the pool.
+  reserves: async (provider, blockTag) => {
+    const { chainId } = await provider.getNetwork();
+    const reserves = await AaveV3Pool__factory.connect(
+      DEPLOYMENTS[chainId].pool,
+      provider
+    ).getReservesList({ blockTag });
+
+    for (const underlying of reserves) await verifyReserveRates(underlying, provider, { blockTag });
+  },
+};
+
+const record = async () => {
+  if (!process.env.RPC_URL) throw new Error("RPC_URL is not set");
+
+  const blockNumber = Number(process.argv[2] ?? PINNED_BLOCK);
+  const provider = new RecordingProvider(process.env.RPC_URL);
+
+  for (const [name, scenario] of Object.entries(SCENARIOS)) {
+    await scenario(provider, blockNumber);
+    console.log(`Recorded ${name} at block ${blockNumber}`);
+  }
+
+  console.log(`Saved ${await provider.save(blockNumber)}`);
+};
+
+if (require.main === module)
+  record().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,159 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import {
+  computeMarketRewardsAprs,
+  computeRewardApr,
+} from "../../../typescript/morpho-aave-v3/rewards";
+import { MarketSnapshot, RewardEmission } from "../../../typescript/morpho-aave-v3/types";
+
+import { mockMarket, mockReserve } from "./mocks";
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const AAVE = "0x7fc66500c84a76ad7e9c93437bfc5ac33e2ddae9";
+
+const ray = (value: string) => utils.parseUnits(value, 27);
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+const TIMESTAMP = BigNumber.from(1_700_000_000);
+const BASE_CURRENCY_UNIT = utils.parseUnits("1", 8);
+
+/** 1 AAVE emitted per second until a day after `TIMESTAMP`, priced at $2 by a feed with 8 decimals. */
+const emission: RewardEmission = {
+  reward: AAVE,
+  emissionPerSecond: utils.parseEther("1"),
+  distributionEnd: TIMESTAMP.add(86_400),
+  rewardPrice: utils.parseUnits("2", 8),
+  rewardPriceDecimals: 8,
+  rewardDecimals: 18,
+};
+
+// The $63,072,000 emitted per year over the $1,000,000,000 supplied.
+const APR = ray("0.063072");
+
+describe("computeRewardApr", () => {
+  const price = utils.parseUnits("1", 8);
+
+  it("computes the value emitted per year over the value of the total supply", () => {
+    expect(
+      computeRewardApr(emission, usdc("1000000000"), price, 6, BASE_CURRENCY_UNIT, TIMESTAMP)
+    ).toEqual(APR);
+  });
+
+  it("scales the price of the reward to the base currency of the oracle", () => {
+    // A feed with 18 decimals.
+    expect(
+      computeRewardApr(
+        { ...emission, rewardPrice: utils.parseEther("2"), rewardPriceDecimals: 18 },
+        usdc("1000000000"),
+        price,
+        6,
+        BASE_CURRENCY_UNIT,
+        TIMESTAMP
+      )
+    ).toEqual(APR);
+
+    // An oracle whose base currency has 18 decimals.
+    expect(
+      computeRewardApr(
+        emission,
+        usdc("1000000000"),
+        utils.parseEther("1"),
+        6,
+        utils.parseEther("1"),
+        TIMESTAMP
+      )
+    ).toEqual(APR);
+  });
+
+  it("is zero once the distribution has ended", () => {
+    expect(
+      computeRewardApr(
+        { ...emission, distributionEnd: TIMESTAMP },
+        usdc("1000000000"),
+        price,
+        6,
+        BASE_CURRENCY_UNIT,
+        TIMESTAMP
+      )
+    ).toEqual(constants.Zero);
+  });
+
+  it("is zero without any supply", () => {
+    expect(
+      computeRewardApr(emission, constants.Zero, price, 6, BASE_CURRENCY_UNIT, TIMESTAMP)
+    ).toEqual(constants.Zero);
+  });
+
+  it("is zero without any price", () => {
+    expect(
+      computeRewardApr(
+        emission,
+        usdc("1000000000"),
+        constants.Zero,
+        6,
+        BASE_CURRENCY_UNIT,
+        TIMESTAMP
+      )
+    ).toEqual(constants.Zero);
+    expect(
+      computeRewardApr(
+        { ...emission, rewardPrice: BigNumber.from(-1) },
+        usdc("1000000000"),
+        price,
+        6,
+        BASE_CURRENCY_UNIT,
+        TIMESTAMP
+      )
+    ).toEqual(constants.Zero);
+  });
+});
+
+describe("computeMarketRewardsAprs", () => {
+  // Morpho supplies 600M USDC to the pool and 400M USDC are matched peer-to-peer, earning no reward.
+  const snapshot = {
+    underlying: USDC,
+    market: mockMarket({
+      underlying: USDC,
+      deltas: {
+        supply: { scaledDelta: constants.Zero, scaledP2PTotal: usdc("400000000") },
+        borrow: { scaledDelta: constants.Zero, scaledP2PTotal: usdc("400000000") },
+      },
+    }),
+    reserve: mockReserve(),
+    price: utils.parseUnits("1", 8),
+    decimals: 6,
+    ltv: 0,
+    liquidationThreshold: 0,
+    liquidationBonus: 0,
+    poolSupplyAmount: usdc("600000000"),
+    poolBorrowAmount: constants.Zero,
+  } as MarketSnapshot;
+
+  it("averages the rewards APRs over the pool & peer-to-peer exposures of Morpho", () => {
+    const aprs = computeMarketRewardsAprs(
+      snapshot,
+      {
+        supply: { poolIndex: ray("1"), p2pIndex: ray("1") },
+        borrow: { poolIndex: ray("1"), p2pIndex: ray("1") },
+      },
+      [emission],
+      [],
+      usdc("1000000000"),
+      usdc("1000000000"),
+      BASE_CURRENCY_UNIT,
+      TIMESTAMP
+    );
+
+    expect(aprs).toEqual({
+      underlying: USDC,
+      supplyRewards: [{ reward: AAVE, apr: APR }],
+      borrowRewards: [],
+      poolSupplyRewardsApr: APR,
+      p2pSupplyRewardsApr: constants.Zero,
+      avgSupplyRewardsApr: APR.mul(6).div(10),
+      poolBorrowRewardsApr: constants.Zero,
+      p2pBorrowRewardsApr: constants.Zero,
+      avgBorrowRewardsApr: constants.Zero,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { utils } from "ethers";
+
+import { getMarketsSnapshot } from "../../../typescript/morpho-aave-v3/snapshot";
+
+import {
+  getReserveConfiguration,
+  MockProvider,
+  mockMarket,
+  mockMarketsSnapshot,
+  mockReserve,
+} from "./mocks";
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const WSTETH = "0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0";
+
+const TOKENS: { [underlying: string]: [aToken: string, variableDebtToken: string] } = {
+  [USDC]: [
+    "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c",
+    "0x72E95b8931767C79bA4EeE721354d6E99a61D004",
+  ],
+  [WETH]: [
+    "0x4d5F47FA6A74757f35C14fD3a6Ef8E3C9BC514E8",
+    "0xeA51d7853EEFb32b6ee06b1C12E6dcCA88Be0fFE",
+  ],
+  [WSTETH]: [
+    "0x0B925eD163218f6662a35e0f0371Ac234f9E9371",
+    "0xC96113eED8cAB59cD8A66813bCB0cEb29F06D2e4",
+  ],
+};
+
+// The ETH correlated e-mode category of Aave, which WETH & wstETH belong to.
+const E_MODE = { id: 1, ltv: 9_000, liquidationThreshold: 9_300, liquidationBonus: 10_100 };
+
+const mockSnapshot = (configurations: {
+  [underlying: string]: Parameters<typeof getReserveConfiguration>[0];
+}) =>
+  mockMarketsSnapshot(
+    new MockProvider(),
+    () =>
+      Object.entries(configurations).map(([underlying, configuration]) => {
+        const [aToken, variableDebtToken] = TOKENS[underlying];
+
+        return {
+          market: mockMarket({ underlying, aToken, variableDebtToken }),
+          reserve: mockReserve({ configuration: getReserveConfiguration(configuration) }),
+          price: utils.parseUnits("1", 8),
+          poolSupplyAmount: utils.parseEther("1"),
+          poolBorrowAmount: utils.parseEther("1"),
+        };
+      }),
+    E_MODE
+  );
+
+describe("getMarketsSnapshot", () => {
+  it("replaces the collateral parameters of the assets of Morpho's e-mode category", async () => {
+    const { markets } = await getMarketsSnapshot(
+      mockSnapshot({
+        [USDC]: { ltv: 7_700, liquidationThreshold: 7_900, liquidationBonus: 10_450, decimals: 6 },
+        [WETH]: {
+          ltv: 8_050,
+          liquidationThreshold: 8_300,
+          liquidationBonus: 10_500,
+          eModeCategory: 1,
+        },
+      })
+    );
+
+    expect(
+      markets.map(({ ltv, liquidationThreshold, liquidationBonus }) => [
+        ltv,
+        liquidationThreshold,
+        liquidationBonus,
+      ])
+    ).toEqual([
+      [7_700, 7_900, 10_450],
+      [9_000, 9_300, 10_100],
+    ]);
+  });
+
+  it("zeroes the LTV & liquidation threshold of the assets with a LTV of 0 on Aave, even in e-mode", async () => {
+    const { markets } = await getMarketsSnapshot(
+      mockSnapshot({
+        [USDC]: { ltv: 0, liquidationThreshold: 7_900, liquidationBonus: 10_450, decimals: 6 },
+        [WSTETH]: {
+          ltv: 0,
+          liquidationThreshold: 8_000,
+          liquidationBonus: 10_700,
+          eModeCategory: 1,
+        },
+      })
+    );
+
+    expect(
+      markets.map(({ ltv, liquidationThreshold, liquidationBonus }) => [
+        ltv,
+        liquidationThreshold,
+        liquidationBonus,
+      ])
+    ).toEqual([
+      [0, 0, 10_450],
+      [0, 0, 10_100],
+    ]);
+  });
+});
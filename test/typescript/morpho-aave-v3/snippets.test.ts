@@ -0,0 +1,333 @@
+import { BigNumber } from "ethers";
+
+import { getP2PBorrowRate, getP2PSupplyRate } from "../../../typescript/morpho-aave-v3/snippets";
+import { getWeightedRate } from "../../../typescript/morpho-aave-v3/utils";
+
+/**
+ * Vectors of `test/unit/TestUnitUtils.sol`, each case instantiating the fuzzed parameters of a Solidity test
+ * within its bounds. The expected rates are computed with the formulas of the Solidity tests, in native bigint,
+ * independently of the maths used by the snippets.
+ */
+
+const RAY = 10n ** 27n;
+const HALF_RAY = RAY / 2n;
+const PERCENTAGE_FACTOR = 10_000n;
+const HALF_PERCENTAGE_FACTOR = PERCENTAGE_FACTOR / 2n;
+const MAX_UINT96 = 2n ** 96n - 1n;
+const MAX_UINT128 = 2n ** 128n - 1n;
+
+const rayMul = (a: bigint, b: bigint) => (a * b + HALF_RAY) / RAY;
+const rayDiv = (a: bigint, b: bigint) => (a * RAY + b / 2n) / b;
+const rayDivUp = (a: bigint, b: bigint) => (a * RAY + b - 1n) / b;
+const percentMul = (x: bigint, percentage: bigint) =>
+  (x * percentage + HALF_PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR;
+const weightedAvg = (x: bigint, y: bigint, percentage: bigint) =>
+  (x * (PERCENTAGE_FACTOR - percentage) + y * percentage + HALF_PERCENTAGE_FACTOR) /
+  PERCENTAGE_FACTOR;
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+interface Vector {
+  supplyPoolRate: bigint;
+  borrowPoolRate: bigint;
+  poolIndex: bigint;
+  p2pIndex: bigint;
+  p2pDelta: bigint;
+  p2pTotal: bigint;
+  idleAmount: bigint;
+  reserveFactor: bigint;
+  p2pIndexCursor: bigint;
+}
+
+const toParams = (vector: Vector, proportionIdle = 0n) => ({
+  poolSupplyRatePerYear: BigNumber.from(vector.supplyPoolRate),
+  poolBorrowRatePerYear: BigNumber.from(vector.borrowPoolRate),
+  poolIndex: BigNumber.from(vector.poolIndex),
+  p2pIndex: BigNumber.from(vector.p2pIndex),
+  p2pDelta: BigNumber.from(vector.p2pDelta),
+  p2pAmount: BigNumber.from(vector.p2pTotal),
+  proportionIdle: BigNumber.from(proportionIdle),
+  reserveFactor: BigNumber.from(vector.reserveFactor),
+  p2pIndexCursor: BigNumber.from(vector.p2pIndexCursor),
+});
+
+const vector = (overrides: Partial<Vector>): Vector => ({
+  supplyPoolRate: 0n,
+  borrowPoolRate: 0n,
+  poolIndex: RAY,
+  p2pIndex: RAY,
+  p2pDelta: 0n,
+  p2pTotal: 0n,
+  idleAmount: 0n,
+  reserveFactor: 0n,
+  p2pIndexCursor: 0n,
+  ...overrides,
+});
+
+/** Rates within `[0, uint128]`, along with the extreme reserve factors & cursors. */
+const RATES_VECTORS: Vector[] = [
+  vector({ supplyPoolRate: 0n, borrowPoolRate: 0n }),
+  vector({
+    supplyPoolRate: 2n * 10n ** 25n,
+    borrowPoolRate: 3n * 10n ** 25n,
+    reserveFactor: 1_000n,
+    p2pIndexCursor: 3_333n,
+  }),
+  vector({
+    supplyPoolRate: 12345678901234567890123456n,
+    borrowPoolRate: 98765432109876543210987654n,
+    reserveFactor: 10_000n,
+    p2pIndexCursor: 0n,
+  }),
+  vector({
+    supplyPoolRate: 10n ** 26n,
+    borrowPoolRate: 10n ** 26n + 1n,
+    reserveFactor: 0n,
+    p2pIndexCursor: 10_000n,
+  }),
+  vector({
+    supplyPoolRate: 1n,
+    borrowPoolRate: MAX_UINT128,
+    reserveFactor: 2_500n,
+    p2pIndexCursor: 5_000n,
+    poolIndex: 3n * RAY,
+    p2pIndex: 2n * RAY,
+  }),
+  vector({
+    supplyPoolRate: MAX_UINT128 - 1n,
+    borrowPoolRate: MAX_UINT128,
+    reserveFactor: 9_999n,
+    p2pIndexCursor: 1n,
+  }),
+];
+
+/** Rates with a supply rate greater than the borrow rate, hence no rate spread. */
+const INVERTED_RATES_VECTORS: Vector[] = [
+  vector({
+    supplyPoolRate: 3n * 10n ** 25n,
+    borrowPoolRate: 2n * 10n ** 25n,
+    reserveFactor: 1_000n,
+    p2pIndexCursor: 3_333n,
+  }),
+  vector({
+    supplyPoolRate: MAX_UINT128,
+    borrowPoolRate: 0n,
+    reserveFactor: 10_000n,
+    p2pIndexCursor: 10_000n,
+  }),
+  vector({
+    supplyPoolRate: 10n ** 26n + 1n,
+    borrowPoolRate: 10n ** 26n,
+    reserveFactor: 0n,
+    p2pIndexCursor: 0n,
+    poolIndex: 0n,
+    p2pIndex: 7n,
+  }),
+];
+
+/** Deltas, totals & idle supply within `uint128` and indexes within `uint96`, such that the delta & idle supply stay below the peer-to-peer total. */
+const DELTA_VECTORS: Vector[] = [
+  vector({
+    supplyPoolRate: 2n * 10n ** 25n,
+    borrowPoolRate: 3n * 10n ** 25n,
+    p2pDelta: 10n ** 18n,
+    p2pTotal: 10n ** 19n,
+    reserveFactor: 1_000n,
+    p2pIndexCursor: 3_333n,
+  }),
+  vector({
+    supplyPoolRate: 2n * 10n ** 25n,
+    borrowPoolRate: 3n * 10n ** 25n,
+    p2pDelta: 4n * 10n ** 6n,
+    p2pTotal: 10n ** 7n,
+    idleAmount: 5n * 10n ** 6n,
+    reserveFactor: 1_000n,
+    p2pIndexCursor: 3_333n,
+  }),
+  vector({
+    supplyPoolRate: 4n * 10n ** 25n,
+    borrowPoolRate: 3n * 10n ** 25n,
+    p2pDelta: 123456789n,
+    p2pTotal: 987654321n,
+    idleAmount: 1n,
+    reserveFactor: 500n,
+    p2pIndexCursor: 10_000n,
+  }),
+  vector({
+    supplyPoolRate: 17n * 10n ** 24n,
+    borrowPoolRate: 41n * 10n ** 24n,
+    poolIndex: 1_050_000_000_000_000_000_000_000_000n,
+    p2pIndex: 1_020_000_000_000_000_000_000_000_000n,
+    p2pDelta: 900n * 10n ** 18n,
+    p2pTotal: 1_000n * 10n ** 18n,
+    reserveFactor: 2_000n,
+    p2pIndexCursor: 5_000n,
+  }),
+  vector({
+    supplyPoolRate: MAX_UINT128,
+    borrowPoolRate: MAX_UINT128,
+    poolIndex: MAX_UINT96,
+    p2pIndex: MAX_UINT96,
+    p2pDelta: 10n ** 30n,
+    p2pTotal: MAX_UINT128,
+    idleAmount: 10n ** 35n,
+    reserveFactor: 10_000n,
+    p2pIndexCursor: 0n,
+  }),
+  vector({
+    supplyPoolRate: 0n,
+    borrowPoolRate: 5n * 10n ** 25n,
+    poolIndex: 2n * RAY,
+    p2pIndex: 3n * RAY,
+    p2pDelta: 0n,
+    p2pTotal: 10n ** 20n,
+    idleAmount: 10n ** 19n,
+    reserveFactor: 0n,
+    p2pIndexCursor: 2_500n,
+  }),
+];
+
+const getExpectedP2PRate = ({ supplyPoolRate, borrowPoolRate, p2pIndexCursor }: Vector) =>
+  weightedAvg(supplyPoolRate, borrowPoolRate, p2pIndexCursor);
+
+const getExpectedSupplyRateWithoutDelta = (vector: Vector) => {
+  if (vector.supplyPoolRate > vector.borrowPoolRate) return vector.borrowPoolRate;
+
+  const p2pRate = getExpectedP2PRate(vector);
+
+  return p2pRate - percentMul(p2pRate - vector.supplyPoolRate, vector.reserveFactor);
+};
+
+const getExpectedBorrowRateWithoutDelta = (vector: Vector) => {
+  if (vector.supplyPoolRate > vector.borrowPoolRate) return vector.borrowPoolRate;
+
+  const p2pRate = getExpectedP2PRate(vector);
+
+  return p2pRate + percentMul(vector.borrowPoolRate - p2pRate, vector.reserveFactor);
+};
+
+describe("getP2PSupplyRate", () => {
+  it.each(INVERTED_RATES_VECTORS)(
+    "returns the pool borrow rate when the supply rate is greater than the borrow rate (%#)",
+    (vector) => {
+      expect(getP2PSupplyRate(toParams(vector)).toBigInt()).toBe(vector.borrowPoolRate);
+    }
+  );
+
+  it.each(RATES_VECTORS)(
+    "applies the reserve factor without delta nor idle supply (%#)",
+    (vector) => {
+      expect(getP2PSupplyRate(toParams(vector)).toBigInt()).toBe(
+        getExpectedSupplyRateWithoutDelta(vector)
+      );
+    }
+  );
+
+  it.each(DELTA_VECTORS)("accounts for the delta & the idle supply (%#)", (vector) => {
+    const totalP2P = rayMul(vector.p2pTotal, vector.p2pIndex);
+    expect(rayMul(vector.p2pDelta, vector.poolIndex) + vector.idleAmount).toBeLessThan(totalP2P);
+
+    const proportionIdle = min(rayDivUp(vector.idleAmount, totalP2P), RAY);
+    const proportionDelta = min(
+      rayDivUp(rayMul(vector.p2pDelta, vector.poolIndex), totalP2P),
+      RAY - proportionIdle
+    );
+    const expected =
+      rayMul(getExpectedSupplyRateWithoutDelta(vector), RAY - proportionDelta - proportionIdle) +
+      rayMul(vector.supplyPoolRate, proportionDelta);
+
+    const p2pSupplyRate = getP2PSupplyRate(toParams(vector, proportionIdle)).toBigInt();
+    // The Solidity test accepts a difference of 1, as `assertApproxEqAbs`.
+    expect(p2pSupplyRate - expected).toBeGreaterThanOrEqual(-1n);
+    expect(p2pSupplyRate - expected).toBeLessThanOrEqual(1n);
+  });
+
+  it("matches a rate computed by hand", () => {
+    // p2pRate = 2% * 66.67% + 3% * 33.33% = 2.3333%, p2pSupplyRate = p2pRate - 10% * (p2pRate - 2%) = 2.29997%.
+    expect(getP2PSupplyRate(toParams(RATES_VECTORS[1])).toBigInt()).toBe(
+      22_999_700_000_000_000_000_000_000n
+    );
+  });
+});
+
+describe("getP2PBorrowRate", () => {
+  it.each(INVERTED_RATES_VECTORS)(
+    "returns the pool borrow rate when the supply rate is greater than the borrow rate (%#)",
+    (vector) => {
+      expect(getP2PBorrowRate(toParams(vector)).toBigInt()).toBe(vector.borrowPoolRate);
+    }
+  );
+
+  it.each(RATES_VECTORS)("applies the reserve factor without delta (%#)", (vector) => {
+    expect(getP2PBorrowRate(toParams(vector)).toBigInt()).toBe(
+      getExpectedBorrowRateWithoutDelta(vector)
+    );
+  });
+
+  it.each(DELTA_VECTORS)("accounts for the delta (%#)", (vector) => {
+    const totalP2P = rayMul(vector.p2pTotal, vector.p2pIndex);
+    expect(rayMul(vector.p2pDelta, vector.poolIndex)).toBeLessThan(totalP2P);
+
+    const proportionDelta = min(rayDivUp(rayMul(vector.p2pDelta, vector.poolIndex), totalP2P), RAY);
+    const expected =
+      rayMul(getExpectedBorrowRateWithoutDelta(vector), RAY - proportionDelta) +
+      rayMul(vector.borrowPoolRate, proportionDelta);
+
+    expect(getP2PBorrowRate(toParams(vector)).toBigInt()).toBe(expected);
+  });
+});
+
+describe("getWeightedRate", () => {
+  const p2pRate = BigNumber.from(3n * 10n ** 25n);
+  const poolRate = BigNumber.from(5n * 10n ** 25n);
+
+  it("returns 0 when both balances are 0", () => {
+    expect(
+      getWeightedRate(p2pRate, poolRate, BigNumber.from(0), BigNumber.from(0)).weightedRate.isZero()
+    ).toBe(true);
+  });
+
+  it("returns the peer-to-peer rate when the pool balance is 0", () => {
+    expect(
+      getWeightedRate(
+        p2pRate,
+        poolRate,
+        BigNumber.from(10n ** 18n),
+        BigNumber.from(0)
+      ).weightedRate.eq(p2pRate)
+    ).toBe(true);
+  });
+
+  it("returns the pool rate when the peer-to-peer balance is 0", () => {
+    expect(
+      getWeightedRate(
+        p2pRate,
+        poolRate,
+        BigNumber.from(0),
+        BigNumber.from(10n ** 18n)
+      ).weightedRate.eq(poolRate)
+    ).toBe(true);
+  });
+
+  it.each([
+    [1n, MAX_UINT128],
+    [10n ** 18n, 3n * 10n ** 18n],
+    [123456789n, 987654321n],
+  ])("weights the rates by the balances (%s in p2p, %s on pool)", (balanceInP2P, balanceOnPool) => {
+    const total = balanceInP2P + balanceOnPool;
+    const expected =
+      rayMul(p2pRate.toBigInt(), rayDiv(balanceInP2P, total)) +
+      rayMul(poolRate.toBigInt(), rayDiv(balanceOnPool, total));
+
+    const { weightedRate, totalBalance } = getWeightedRate(
+      p2pRate,
+      poolRate,
+      BigNumber.from(balanceInP2P),
+      BigNumber.from(balanceOnPool)
+    );
+
+    expect(totalBalance.toBigInt()).toBe(total);
+    // The snippet divides once instead of rounding each weight, hence a difference of at most 1 per rate.
+    expect(weightedRate.toBigInt() - expected).toBeGreaterThanOrEqual(-2n);
+    expect(weightedRate.toBigInt() - expected).toBeLessThanOrEqual(2n);
+  });
+});
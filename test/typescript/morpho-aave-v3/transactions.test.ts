@@ -0,0 +1,221 @@
+import { BigNumber, constants, PopulatedTransaction, utils } from "ethers";
+
+import { ERC20__factory, MorphoAaveV3__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import {
+  buildRepayTx,
+  buildSupplyTx,
+  DEFAULT_MAX_ITERATIONS,
+} from "../../../typescript/morpho-aave-v3/transactions";
+
+import { MockProvider, mockMarket } from "./mocks";
+
+const USER = "0x000000000000000000000000000000000000dEaD";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const A_USDC = "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c";
+
+const RAY = utils.parseUnits("1", 27);
+
+const usdc = (value: string) => utils.parseUnits(value, 6);
+
+const morphoAaveV3 = {
+  address: DEPLOYMENTS[1].morphoAaveV3,
+  interface: MorphoAaveV3__factory.createInterface(),
+};
+const erc20 = { address: USDC, interface: ERC20__factory.createInterface() };
+
+/** Mocks the USDC market, the wallet balance & allowance of the user and its debt, entirely on the pool. */
+const getProvider = ({
+  balance,
+  allowance = constants.Zero,
+  debt = constants.Zero,
+}: {
+  balance: BigNumber;
+  allowance?: BigNumber;
+  debt?: BigNumber;
+}) =>
+  new MockProvider()
+    .mock(morphoAaveV3, "market", () => [mockMarket({ underlying: USDC, aToken: A_USDC })])
+    .mock(morphoAaveV3, "updatedIndexes", () => [
+      {
+        supply: { poolIndex: RAY, p2pIndex: RAY },
+        borrow: { poolIndex: RAY, p2pIndex: RAY },
+      },
+    ])
+    .mock(morphoAaveV3, "scaledP2PBorrowBalance", () => [constants.Zero])
+    .mock(morphoAaveV3, "scaledPoolBorrowBalance", () => [debt])
+    .mock(erc20, "balanceOf", () => [balance])
+    .mock(erc20, "allowance", ([owner, spender]) => {
+      expect([owner, spender]).toEqual([USER, morphoAaveV3.address]);
+
+      return [allowance];
+    });
+
+/** Decodes the amounts approved, in order. */
+const getApproved = (approvals: PopulatedTransaction[]) =>
+  approvals.map(({ to, data }) => {
+    expect(to).toBe(USDC);
+
+    const [spender, amount] = erc20.interface.decodeFunctionData("approve", data!);
+    expect(spender).toBe(morphoAaveV3.address);
+
+    return amount.toString();
+  });
+
+describe("buildSupplyTx", () => {
+  it("supplies with the default maximum number of iterations", async () => {
+    const { amount, transaction } = await buildSupplyTx(
+      USER,
+      USDC,
+      usdc("100"),
+      getProvider({ balance: usdc("100") })
+    );
+
+    const [underlying, supplied, onBehalf, maxIterations] =
+      morphoAaveV3.interface.decodeFunctionData("supply", transaction.data!);
+    expect(DEFAULT_MAX_ITERATIONS).toBe(4);
+    expect([underlying, supplied.toString(), onBehalf, maxIterations.toNumber()]).toEqual([
+      USDC,
+      usdc("100").toString(),
+      USER,
+      DEFAULT_MAX_ITERATIONS,
+    ]);
+    expect(amount).toEqual(usdc("100"));
+    expect(transaction.from).toBe(USER);
+  });
+
+  it("supplies with the given maximum number of iterations", async () => {
+    const { transaction } = await buildSupplyTx(
+      USER,
+      USDC,
+      usdc("100"),
+      getProvider({ balance: usdc("100") }),
+      {},
+      { maxIterations: 10 }
+    );
+
+    const [, , , maxIterations] = morphoAaveV3.interface.decodeFunctionData(
+      "supply",
+      transaction.data!
+    );
+    expect(maxIterations.toNumber()).toBe(10);
+  });
+
+  it("supplies the wallet balance of the user with max", async () => {
+    const { amount } = await buildSupplyTx(USER, USDC, "max", getProvider({ balance: usdc("42") }));
+
+    expect(amount).toEqual(usdc("42"));
+  });
+
+  it("approves the amount without any allowance", async () => {
+    const { approvals } = await buildSupplyTx(
+      USER,
+      USDC,
+      usdc("100"),
+      getProvider({ balance: usdc("100") })
+    );
+
+    expect(getApproved(approvals)).toEqual([usdc("100").toString()]);
+  });
+
+  it("approves nothing with a sufficient allowance", async () => {
+    const { approvals } = await buildSupplyTx(
+      USER,
+      USDC,
+      usdc("100"),
+      getProvider({ balance: usdc("100"), allowance: usdc("100") })
+    );
+
+    expect(approvals).toEqual([]);
+  });
+
+  it("resets an insufficient non-zero allowance before approving the amount", async () => {
+    const { approvals } = await buildSupplyTx(
+      USER,
+      USDC,
+      usdc("100"),
+      getProvider({ balance: usdc("100"), allowance: usdc("1") })
+    );
+
+    expect(getApproved(approvals)).toEqual(["0", usdc("100").toString()]);
+  });
+
+  it("rejects an amount exceeding the wallet balance", async () => {
+    await expect(
+      buildSupplyTx(USER, USDC, usdc("100"), getProvider({ balance: usdc("99") }))
+    ).rejects.toThrow(`Insufficient balance of ${USDC}: ${usdc("99")} < ${usdc("100")}`);
+  });
+});
+
+describe("buildRepayTx", () => {
+  // The debt of 1,000 USDC with a buffer of 10 bps for the interests accrued until the transaction is mined.
+  const debtWithBuffer = usdc("1001");
+
+  it("repays the whole debt with max, approving the debt and the buffer", async () => {
+    const { amount, approvals, transaction } = await buildRepayTx(
+      USER,
+      USDC,
+      "max",
+      getProvider({ balance: usdc("2000"), debt: usdc("1000") })
+    );
+
+    expect(amount).toEqual(constants.MaxUint256);
+    expect(getApproved(approvals)).toEqual([debtWithBuffer.toString()]);
+
+    const [, repaid] = morphoAaveV3.interface.decodeFunctionData("repay", transaction.data!);
+    expect(repaid).toEqual(constants.MaxUint256);
+  });
+
+  it("repays the wallet balance with max when it doesn't cover the buffer", async () => {
+    const { amount, approvals } = await buildRepayTx(
+      USER,
+      USDC,
+      "max",
+      getProvider({ balance: usdc("1000.5"), debt: usdc("1000") })
+    );
+
+    expect(amount).toEqual(usdc("1000.5"));
+    expect(getApproved(approvals)).toEqual([usdc("1000.5").toString()]);
+  });
+
+  it("approves the debt and the buffer when repaying an amount exceeding the debt", async () => {
+    const { amount, approvals } = await buildRepayTx(
+      USER,
+      USDC,
+      usdc("2000"),
+      getProvider({ balance: usdc("2000"), debt: usdc("1000") })
+    );
+
+    expect(amount).toEqual(usdc("2000"));
+    expect(getApproved(approvals)).toEqual([debtWithBuffer.toString()]);
+  });
+
+  it("approves the amount only when repaying part of the debt", async () => {
+    const { approvals } = await buildRepayTx(
+      USER,
+      USDC,
+      usdc("500"),
+      getProvider({ balance: usdc("2000"), debt: usdc("1000") })
+    );
+
+    expect(getApproved(approvals)).toEqual([usdc("500").toString()]);
+  });
+
+  it("resets an insufficient non-zero allowance before approving the debt and the buffer", async () => {
+    const { approvals } = await buildRepayTx(
+      USER,
+      USDC,
+      "max",
+      getProvider({ balance: usdc("2000"), allowance: usdc("1000"), debt: usdc("1000") })
+    );
+
+    expect(getApproved(approvals)).toEqual(["0", debtWithBuffer.toString()]);
+  });
+
+  it("rejects a repay without any debt", async () => {
+    await expect(
+      buildRepayTx(USER, USDC, "max", getProvider({ balance: usdc("2000") }))
+    ).rejects.toThrow(`No debt to repay on ${USDC}`);
+  });
+});
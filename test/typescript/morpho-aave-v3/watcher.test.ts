@@ -0,0 +1,409 @@
+import { BigNumber, constants } from "ethers";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import {
+  AaveV3Oracle__factory,
+  AaveV3Pool__factory,
+  MorphoAaveV3__factory,
+} from "@morpho-labs/morpho-ethers-contract";
+
+import { DEPLOYMENTS } from "../../../typescript/morpho-aave-v3/addresses";
+import { DEFAULT_AT_RISK_THRESHOLD } from "../../../typescript/morpho-aave-v3/liquidity";
+import { HealthFactorAlert, HealthStatus } from "../../../typescript/morpho-aave-v3/types";
+import {
+  createHealthWatcher,
+  createWebhookSink,
+  DEFAULT_HEALTH_THRESHOLDS,
+  getThresholdCrossings,
+  getTouchedUsers,
+} from "../../../typescript/morpho-aave-v3/watcher";
+
+import { getReserveConfiguration, MockProvider, mockReserve, toLog } from "./mocks";
+
+const wad = (value: number) => WadRayMath.WAD.mul(Math.round(value * 1e4)).div(1e4);
+
+/** The health factor of a position, given its maximum debt & debt (in USD). */
+const getHealthFactor = (maxDebt: number, debt: number) => WadRayMath.wadDiv(maxDebt, debt);
+
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const DAI = "0x6b175474e89094c44da98b954eedeac495271d0f";
+const PRICE_SOURCE = "0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419";
+
+const morphoAaveV3 = {
+  address: DEPLOYMENTS[1].morphoAaveV3,
+  interface: MorphoAaveV3__factory.createInterface(),
+};
+const oracle = {
+  address: DEPLOYMENTS[1].oracle,
+  interface: AaveV3Oracle__factory.createInterface(),
+};
+const pool = {
+  address: DEPLOYMENTS[1].pool,
+  interface: AaveV3Pool__factory.createInterface(),
+};
+
+describe("getThresholdCrossings", () => {
+  const [atRisk, liquidatable] = DEFAULT_HEALTH_THRESHOLDS;
+
+  it.each([
+    ["stays above the thresholds", wad(1.2), wad(1.1), []],
+    ["stays between the thresholds", wad(1.04), wad(1.01), []],
+    ["falls below the at-risk threshold", wad(1.1), wad(1.04), [[atRisk, "below"]]],
+    ["falls to the at-risk threshold", wad(1.1), atRisk, []],
+    ["falls from the at-risk threshold", atRisk, atRisk.sub(1), [[atRisk, "below"]]],
+    [
+      "falls below both thresholds",
+      wad(1.1),
+      wad(0.9),
+      [
+        [atRisk, "below"],
+        [liquidatable, "below"],
+      ],
+    ],
+    ["rises back to 1", wad(0.9), liquidatable, [[liquidatable, "above"]]],
+    [
+      "repays the whole debt",
+      wad(0.9),
+      constants.MaxUint256,
+      [
+        [atRisk, "above"],
+        [liquidatable, "above"],
+      ],
+    ],
+  ] as [string, BigNumber, BigNumber, [BigNumber, string][]][])(
+    "%s",
+    (_, previousHealthFactor, healthFactor, expected) => {
+      expect(
+        getThresholdCrossings(previousHealthFactor, healthFactor, DEFAULT_HEALTH_THRESHOLDS)
+      ).toEqual(expected.map(([threshold, crossing]) => ({ threshold, crossing })));
+    }
+  );
+});
+
+describe("getTouchedUsers", () => {
+  const positions = {
+    [ALICE]: { healthFactor: wad(1.2), markets: [WETH, USDC], blockNumber: 1 },
+    [BOB]: { healthFactor: wad(1.2), markets: [DAI], blockNumber: 1 },
+  };
+
+  it("lists the users touched by an event", () => {
+    expect(getTouchedUsers(positions, [BOB], [])).toEqual([BOB]);
+  });
+
+  it("lists the users in a market whose price changed", () => {
+    expect(getTouchedUsers(positions, [], [USDC])).toEqual([ALICE]);
+    expect(getTouchedUsers(positions, [BOB], [WETH])).toEqual([ALICE, BOB]);
+  });
+
+  it("ignores the users not watched and the markets nobody is in", () => {
+    expect(getTouchedUsers(positions, [constants.AddressZero], [constants.AddressZero])).toEqual(
+      []
+    );
+  });
+});
+
+/**
+ * Mocks Morpho, the pool & the oracle: the maximum debt of a user is the value of its collateral,
+ * the debts being constant (in base currency). Morpho is in no e-mode category by default,
+ * and WETH is in the e-mode category 1, priced by `PRICE_SOURCE`.
+ */
+const mockMorpho = (blockNumber = 100) => {
+  const prices: { [market: string]: BigNumber } = {
+    [WETH]: BigNumber.from(2_000e8),
+    [USDC]: BigNumber.from(1e8),
+    [DAI]: BigNumber.from(1e8),
+  };
+  const collaterals: { [user: string]: { [market: string]: number } } = {
+    [ALICE]: { [WETH]: 1 },
+    [BOB]: { [DAI]: 2_000 },
+  };
+  const eMode = { categoryId: 0, price: BigNumber.from(2_000e8) };
+  const debts: { [user: string]: BigNumber } = {
+    [ALICE]: BigNumber.from(1_800e8),
+    [BOB]: BigNumber.from(1_800e8),
+  };
+
+  const getMaxDebt = (user: string) =>
+    Object.entries(collaterals[user]).reduce(
+      (maxDebt, [market, amount]) => maxDebt.add(prices[market].mul(amount)),
+      constants.Zero
+    );
+
+  const provider = new MockProvider(blockNumber)
+    .mock(morphoAaveV3, "marketsCreated", () => [[WETH, USDC, DAI]])
+    .mock(morphoAaveV3, "eModeCategoryId", () => [eMode.categoryId])
+    .mock(pool, "getEModeCategoryData", () => [
+      {
+        ltv: 9_000,
+        liquidationThreshold: 9_300,
+        liquidationBonus: 10_100,
+        priceSource: PRICE_SOURCE,
+        label: "ETH correlated",
+      },
+    ])
+    .mock(pool, "getReserveData", ([market]) => [
+      mockReserve({
+        configuration: getReserveConfiguration({
+          eModeCategory: market.toLowerCase() === WETH ? 1 : 0,
+        }),
+      }),
+    ])
+    .mock(oracle, "getAssetsPrices", ([markets]) => [
+      markets.map((market: string) => prices[market.toLowerCase()]),
+    ])
+    .mock(oracle, "getAssetPrice", ([asset]) => {
+      expect(asset.toLowerCase()).toBe(PRICE_SOURCE);
+
+      return [eMode.price];
+    })
+    .mock(morphoAaveV3, "liquidityData", ([user]) => [
+      {
+        borrowable: constants.Zero,
+        maxDebt: getMaxDebt(user.toLowerCase()),
+        debt: debts[user.toLowerCase()],
+      },
+    ])
+    .mock(morphoAaveV3, "userCollaterals", ([user]) => [
+      Object.keys(collaterals[user.toLowerCase()]),
+    ])
+    .mock(morphoAaveV3, "userBorrows", () => [[USDC]]);
+
+  return { provider, prices, collaterals, eMode };
+};
+
+describe("processBlock", () => {
+  it("initializes the positions of the users at the first block", async () => {
+    const { provider } = mockMorpho();
+    const watcher = createHealthWatcher([ALICE, BOB.toUpperCase().replace("0X", "0x")], provider);
+
+    expect(await watcher.processBlock(100)).toEqual([]);
+    expect(watcher.getPositions()).toEqual({
+      [ALICE]: {
+        healthFactor: getHealthFactor(2_000, 1_800),
+        status: HealthStatus.healthy,
+        markets: [WETH, USDC],
+        blockNumber: 100,
+      },
+      [BOB]: {
+        healthFactor: getHealthFactor(2_000, 1_800),
+        status: HealthStatus.healthy,
+        markets: [DAI, USDC],
+        blockNumber: 100,
+      },
+    });
+  });
+
+  it("recomputes the users in a market whose price changed and alerts the crossings", async () => {
+    const { provider, prices } = mockMorpho();
+    const alerts: HealthFactorAlert[] = [];
+    const watcher = createHealthWatcher(
+      [ALICE, BOB],
+      provider,
+      {},
+      { sinks: [(alert) => void alerts.push(alert)] }
+    );
+    await watcher.processBlock(100);
+
+    prices[WETH] = BigNumber.from(1_850e8);
+
+    const blockAlerts = await watcher.processBlock(101);
+
+    expect(blockAlerts).toEqual([
+      {
+        blockNumber: 101,
+        user: ALICE,
+        crossing: "below",
+        threshold: DEFAULT_AT_RISK_THRESHOLD,
+        previousHealthFactor: getHealthFactor(2_000, 1_800),
+        healthFactor: getHealthFactor(1_850, 1_800),
+        status: HealthStatus.atRisk,
+      },
+    ]);
+    expect(alerts).toEqual(blockAlerts);
+    // Bob holds no WETH: his position is not recomputed.
+    expect(watcher.getPositions()[ALICE].blockNumber).toBe(101);
+    expect(watcher.getPositions()[BOB].blockNumber).toBe(100);
+  });
+
+  it("detects the price changes of the assets of Morpho's e-mode category on its price source", async () => {
+    const { provider, prices, eMode } = mockMorpho();
+    eMode.categoryId = 1;
+    const watcher = createHealthWatcher([ALICE, BOB], provider);
+    await watcher.processBlock(100);
+
+    // The price of WETH on the oracle doesn't apply to Morpho, WETH being priced by the price source of the category.
+    prices[WETH] = BigNumber.from(1_850e8);
+    await watcher.processBlock(101);
+    expect(watcher.getPositions()[ALICE].blockNumber).toBe(100);
+
+    eMode.price = BigNumber.from(1_850e8);
+    await watcher.processBlock(102);
+    expect(watcher.getPositions()[ALICE].blockNumber).toBe(102);
+    expect(watcher.getPositions()[BOB].blockNumber).toBe(100);
+  });
+
+  it("recomputes the users touched by an event of Morpho", async () => {
+    const { provider, collaterals } = mockMorpho();
+    const watcher = createHealthWatcher([ALICE, BOB], provider);
+    await watcher.processBlock(100);
+
+    // Bob withdraws half of his collateral at block 102.
+    collaterals[BOB][DAI] = 1_000;
+    provider.logs.push(
+      toLog(morphoAaveV3, "CollateralWithdrawn", [BOB, BOB, BOB, DAI, 1_000, 1_000], 102)
+    );
+
+    const alerts = await watcher.processBlock(102);
+
+    expect(
+      alerts.map(({ user, crossing, threshold, status }) => ({ user, crossing, threshold, status }))
+    ).toEqual([
+      {
+        user: BOB,
+        crossing: "below",
+        threshold: DEFAULT_AT_RISK_THRESHOLD,
+        status: HealthStatus.liquidatable,
+      },
+      {
+        user: BOB,
+        crossing: "below",
+        threshold: WadRayMath.WAD,
+        status: HealthStatus.liquidatable,
+      },
+    ]);
+    expect(watcher.getPositions()[ALICE].blockNumber).toBe(100);
+    expect(watcher.getPositions()[BOB]).toEqual({
+      healthFactor: getHealthFactor(1_000, 1_800),
+      markets: [DAI, USDC],
+      blockNumber: 102,
+    });
+  });
+
+  it("skips the blocks already processed", async () => {
+    const { provider, prices } = mockMorpho();
+    const watcher = createHealthWatcher([ALICE], provider);
+    await watcher.processBlock(100);
+    await watcher.processBlock(101);
+
+    prices[WETH] = BigNumber.from(1_000e8);
+
+    expect(await watcher.processBlock(101)).toEqual([]);
+    expect(await watcher.processBlock(99)).toEqual([]);
+    expect(watcher.getPositions()[ALICE].healthFactor).toEqual(getHealthFactor(2_000, 1_800));
+  });
+});
+
+const waitFor = async (predicate: () => boolean, timeout = 2_000) => {
+  for (const start = Date.now(); !predicate(); ) {
+    if (Date.now() - start > timeout) throw new Error("Timed out");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("createHealthWatcher", () => {
+  it("keeps polling after the block number failed to be retrieved", async () => {
+    const { provider, prices } = mockMorpho();
+    const errors: unknown[] = [];
+    const alerts: HealthFactorAlert[] = [];
+    const watcher = createHealthWatcher(
+      [ALICE],
+      provider,
+      {},
+      {
+        pollingInterval: 5,
+        sinks: [(alert) => void alerts.push(alert)],
+        onError: (error) => void errors.push(error),
+      }
+    );
+
+    await watcher.start();
+    try {
+      provider.fail("getBlockNumber");
+      await waitFor(() => errors.length >= 2);
+
+      prices[WETH] = BigNumber.from(1_000e8);
+      provider.latestBlock = 101;
+      provider.recover("getBlockNumber");
+      await waitFor(() => alerts.length > 0);
+    } finally {
+      watcher.stop();
+    }
+
+    expect(errors[0]).toEqual(new Error("getBlockNumber is unavailable"));
+    expect(alerts.map(({ blockNumber, crossing }) => ({ blockNumber, crossing }))).toEqual([
+      { blockNumber: 101, crossing: "below" },
+      { blockNumber: 101, crossing: "below" },
+    ]);
+  });
+});
+
+describe("createWebhookSink", () => {
+  const alert: HealthFactorAlert = {
+    blockNumber: 101,
+    user: ALICE,
+    crossing: "below",
+    threshold: WadRayMath.WAD,
+    previousHealthFactor: wad(1.01),
+    healthFactor: wad(0.99),
+    status: HealthStatus.liquidatable,
+  };
+
+  let server: Server;
+  let url: string;
+  let respond: (body: string, send: (status: number) => void) => void;
+
+  beforeEach(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => respond(body, (status) => response.writeHead(status).end()));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("posts the alert as JSON", async () => {
+    let received: unknown;
+    respond = (body, send) => {
+      received = JSON.parse(body);
+      send(204);
+    };
+
+    await createWebhookSink(url)(alert);
+
+    expect(received).toEqual({
+      ...alert,
+      threshold: WadRayMath.WAD.toString(),
+      previousHealthFactor: wad(1.01).toString(),
+      healthFactor: wad(0.99).toString(),
+    });
+  });
+
+  it("rejects a response with an error status", async () => {
+    respond = (_, send) => send(500);
+
+    await expect(createWebhookSink(url)(alert)).rejects.toThrow(
+      `Webhook ${url} responded with status 500`
+    );
+  });
+
+  it("rejects when the webhook does not respond within the timeout", async () => {
+    respond = () => undefined;
+
+    await expect(createWebhookSink(url, {}, 50)(alert)).rejects.toThrow(
+      `Webhook ${url} did not respond within 50ms`
+    );
+  });
+});
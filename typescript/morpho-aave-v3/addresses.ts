@@ -0,0 +1,99 @@
+import { providers } from "ethers";
+
+import { BulkerAddresses, MorphoAaveV3Addresses } from "./types";
+
+/**
+ * The address of the Multicall3 contract, which is the same on all supported networks.
+ */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * The address of the Permit2 contract, which is the same on all supported networks.
+ */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+/**
+ * The known Morpho Aave v3 deployments, keyed by chain id.
+ */
+export const DEPLOYMENTS: { [chainId: number]: MorphoAaveV3Addresses } = {
+  1: {
+    morphoAaveV3: "0x33333aea097c193e66081E930c33020272b33333",
+    oracle: "0xA50ba011c48153De246E5192C8f9258A2ba79Ca9",
+    pool: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2",
+    multicall3: MULTICALL3_ADDRESS,
+  },
+};
+
+/**
+ * The known Morpho Aave v3 bulker gateways, keyed by chain id.
+ */
+export const BULKER_DEPLOYMENTS: { [chainId: number]: string } = {
+  1: "0x4095F064B8d3c3548A3bebfd0Bbfd04750E30077",
+};
+
+const getRegisteredDeployment = async (provider: providers.BaseProvider) => {
+  const { chainId } = await provider.getNetwork();
+
+  const deployment = DEPLOYMENTS[chainId];
+  if (!deployment)
+    throw new Error(
+      `No Morpho Aave v3 deployment registered for chain ${chainId}, custom addresses must be provided`
+    );
+
+  return deployment;
+};
+
+/**
+ * This function resolves the addresses of the contracts to interact with.
+ * If all the core addresses are given, the network is not queried. Otherwise, the missing
+ * addresses are taken from the deployment registered for the chain id of the provider.
+ * The Multicall3 address defaults to its canonical address.
+ *
+ * @param provider A provider instance
+ * @param addresses Custom addresses overriding the registered deployment.
+ *
+ * @returns The addresses of the Morpho Aave v3, Aave price oracle, Aave v3 pool and Multicall3 contracts.
+ */
+export const getAddresses = async (
+  provider: providers.BaseProvider,
+  { morphoAaveV3, oracle, pool, multicall3 }: Partial<MorphoAaveV3Addresses> = {}
+): Promise<MorphoAaveV3Addresses> => {
+  if (morphoAaveV3 && oracle && pool)
+    return { morphoAaveV3, oracle, pool, multicall3: multicall3 ?? MULTICALL3_ADDRESS };
+
+  const deployment = await getRegisteredDeployment(provider);
+
+  return {
+    morphoAaveV3: morphoAaveV3 ?? deployment.morphoAaveV3,
+    oracle: oracle ?? deployment.oracle,
+    pool: pool ?? deployment.pool,
+    multicall3: multicall3 ?? deployment.multicall3,
+  };
+};
+
+/**
+ * This function resolves the addresses of the bulker gateway & the Permit2 contract.
+ * If the bulker address is given, the network is not queried.
+ * The Permit2 address defaults to its canonical address.
+ *
+ * @param provider A provider instance
+ * @param addresses Custom addresses overriding the registered bulker gateway.
+ *
+ * @returns The addresses of the bulker gateway & Permit2 contracts.
+ */
+export const getBulkerAddresses = async (
+  provider: providers.BaseProvider,
+  { bulker, permit2 }: Partial<BulkerAddresses> = {}
+): Promise<BulkerAddresses> => {
+  if (bulker) return { bulker, permit2: permit2 ?? PERMIT2_ADDRESS };
+
+  const { chainId } = await provider.getNetwork();
+
+  const registeredBulker = BULKER_DEPLOYMENTS[chainId];
+  if (!registeredBulker)
+    throw new Error(
+      `No Morpho Aave v3 bulker registered for chain ${chainId}, a custom address must be provided`
+    );
+
+  return { bulker: registeredBulker, permit2: permit2 ?? PERMIT2_ADDRESS };
+};
@@ -0,0 +1,241 @@
+import { BigNumber, providers } from "ethers";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+import { getUpdatedIndexes } from "./indexes";
+import { getTrueP2PBorrow, getTrueP2PSupply } from "./marketLib";
+import { getUserPosition } from "./position";
+import { getMarketsSnapshot } from "./snapshot";
+import { getMarketRatesPerYear } from "./snippets";
+import {
+  BackfillOptions,
+  BackfillRange,
+  CheckpointStore,
+  DataPoint,
+  MarketDataPoint,
+  SnippetOverrides,
+  UserDataPoint,
+} from "./types";
+import { isSameAddress } from "./utils";
+
+/**
+ * This function lists the blocks of a range, from the first block to the last one included, separated by a given step.
+ *
+ * @param range The range of blocks.
+ */
+export const getRangeBlocks = ({ fromBlock, toBlock, step }: BackfillRange) => {
+  if (step <= 0) throw new Error(`Invalid backfill step ${step}, must be positive`);
+
+  const blocks: number[] = [];
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber += step)
+    blocks.push(blockNumber);
+
+  return blocks;
+};
+
+/**
+ * This function fetches data points at each block of a range, sequentially, saving a checkpoint after each block
+ * so that an interrupted backfill resumes after the last block fetched.
+ *
+ * @param fetchDataPoints The function fetching the data points at a given block.
+ * @param range The range of blocks to fetch the data points at.
+ * @param options The checkpoint store to resume from and the callback to call with the data points of each block.
+ * @returns The data points fetched, excluding the ones fetched before the checkpoint.
+ */
+export const backfill = async <T extends DataPoint>(
+  fetchDataPoints: (blockNumber: number) => Promise<T[]>,
+  range: BackfillRange,
+  { checkpoint, onDataPoints }: BackfillOptions<T> = {}
+) => {
+  const lastBlock = await checkpoint?.load();
+
+  const dataPoints: T[] = [];
+  for (const blockNumber of getRangeBlocks(range)) {
+    if (lastBlock != null && blockNumber <= lastBlock) continue;
+
+    const blockDataPoints = await fetchDataPoints(blockNumber);
+
+    await onDataPoints?.(blockDataPoints, blockNumber);
+    await checkpoint?.save(blockNumber);
+
+    dataPoints.push(...blockDataPoints);
+  }
+
+  return dataPoints;
+};
+
+/**
+ * This function retrieves the amounts, rates, indexes & price of all the markets created on Morpho at a given block.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getMarketsDataPoints = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketDataPoint[]> => {
+  const { blockNumber, timestamp, markets } = await getMarketsSnapshot(provider, overrides);
+
+  return markets.map((snapshot): MarketDataPoint => {
+    const { underlying, market, price, poolSupplyAmount, poolBorrowAmount } = snapshot;
+    const indexes = getUpdatedIndexes(snapshot, timestamp);
+    const { p2pSupplyRate, poolSupplyRate, p2pBorrowRate, poolBorrowRate } = getMarketRatesPerYear(
+      snapshot,
+      indexes
+    );
+
+    return {
+      blockNumber,
+      timestamp: timestamp.toNumber(),
+      underlying,
+      price,
+      p2pSupplyAmount: getTrueP2PSupply(market, indexes),
+      poolSupplyAmount,
+      idleSupply: market.idleSupply,
+      p2pBorrowAmount: getTrueP2PBorrow(market, indexes),
+      poolBorrowAmount,
+      p2pSupplyRate,
+      poolSupplyRate,
+      p2pBorrowRate,
+      poolBorrowRate,
+      p2pSupplyIndex: indexes.supply.p2pIndex,
+      poolSupplyIndex: indexes.supply.poolIndex,
+      p2pBorrowIndex: indexes.borrow.p2pIndex,
+      poolBorrowIndex: indexes.borrow.poolIndex,
+    };
+  });
+};
+
+/**
+ * This function backfills the time series of the amounts, rates, indexes & prices of markets over a range of blocks.
+ *
+ * @param range The range of blocks to backfill.
+ * @param provider A provider instance, which must serve the state at the blocks of the range (e.g. an archive node).
+ * @param overrides The overrides to apply, such as custom contract addresses.
+ * @param options The markets to backfill (all by default), the checkpoint store to resume from and the callback to call with the data points of each block.
+ */
+export const backfillMarkets = (
+  range: BackfillRange,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  { underlyings, ...options }: BackfillOptions<MarketDataPoint> & { underlyings?: string[] } = {}
+) =>
+  backfill(
+    async (blockTag) => {
+      const dataPoints = await getMarketsDataPoints(provider, { ...overrides, blockTag });
+      if (underlyings == null) return dataPoints;
+
+      return dataPoints.filter(({ underlying }) =>
+        underlyings.some((market) => isSameAddress(market, underlying))
+      );
+    },
+    range,
+    options
+  );
+
+/**
+ * This function backfills the time series of the position of a user over a range of blocks.
+ *
+ * @param user The user address.
+ * @param range The range of blocks to backfill.
+ * @param provider A provider instance, which must serve the state at the blocks of the range (e.g. an archive node).
+ * @param overrides The overrides to apply, such as custom contract addresses.
+ * @param options The checkpoint store to resume from and the callback to call with the data point of each block.
+ */
+export const backfillUser = (
+  user: string,
+  range: BackfillRange,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  options: BackfillOptions<UserDataPoint> = {}
+) =>
+  backfill(
+    async (blockTag): Promise<UserDataPoint[]> => {
+      const {
+        blockNumber,
+        totalSupplyUsd,
+        totalCollateralUsd,
+        totalBorrowUsd,
+        netRatePerYear,
+        healthFactor,
+        borrowCapacity,
+        maxDebt,
+        debt,
+      } = await getUserPosition(user, provider, { ...overrides, blockTag });
+
+      return [
+        {
+          blockNumber,
+          user,
+          totalSupplyUsd,
+          totalCollateralUsd,
+          totalBorrowUsd,
+          netRatePerYear,
+          healthFactor,
+          borrowCapacity,
+          maxDebt,
+          debt,
+        },
+      ];
+    },
+    range,
+    options
+  );
+
+/**
+ * This function creates a checkpoint store persisting the last block backfilled in a file.
+ *
+ * @param path The path of the checkpoint file.
+ */
+export const createFileCheckpointStore = (path: string): CheckpointStore => ({
+  load: async () => {
+    if (!existsSync(path)) return;
+
+    return JSON.parse(readFileSync(path, "utf8")).lastBlock;
+  },
+  save: async (lastBlock) => writeFileSync(path, JSON.stringify({ lastBlock })),
+});
+
+/**
+ * This function serializes a value of a data point, big numbers being written as decimal strings.
+ *
+ * @param value The value to serialize.
+ */
+const serializeValue = (value: DataPoint[string]) =>
+  BigNumber.isBigNumber(value) ? value.toString() : value;
+
+/**
+ * This function exports data points to CSV, with a header row listing the fields of the first data point.
+ *
+ * @param dataPoints The data points to export.
+ */
+export const toCsv = (dataPoints: DataPoint[]) => {
+  if (dataPoints.length === 0) return "";
+
+  const fields = Object.keys(dataPoints[0]);
+
+  return [
+    fields.join(","),
+    ...dataPoints.map((dataPoint) =>
+      fields.map((field) => serializeValue(dataPoint[field])).join(",")
+    ),
+  ].join("\n");
+};
+
+/**
+ * This function serializes a data point into a plain object, big numbers being written as decimal strings.
+ *
+ * @param dataPoint The data point to serialize.
+ */
+export const serializeDataPoint = (dataPoint: DataPoint) =>
+  Object.keys(dataPoint).reduce(
+    (acc, field) => ({ ...acc, [field]: serializeValue(dataPoint[field]) }),
+    {}
+  );
+
+/**
+ * This function exports data points to JSON, big numbers being written as decimal strings.
+ *
+ * @param dataPoints The data points to export.
+ */
+export const toJson = (dataPoints: DataPoint[]) =>
+  JSON.stringify(dataPoints.map(serializeDataPoint), null, 2);
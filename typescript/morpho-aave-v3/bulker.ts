@@ -0,0 +1,671 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN } from "@morpho-labs/ethers-utils/lib/utils";
+import {
+  MorphoBulkerGateway__factory,
+  Permit2__factory,
+} from "@morpho-labs/morpho-ethers-contract";
+
+import { getBulkerAddresses, PERMIT2_ADDRESS } from "./addresses";
+import { computeHealthFactorSimulation, getAssetLiquidityParams } from "./liquidity";
+import { getUserMarketsPositions } from "./position";
+import { DEFAULT_MAX_ITERATIONS } from "./transactions";
+import {
+  AssetLiquidityParams,
+  BorrowBundleParams,
+  BulkerActionType,
+  BundleContext,
+  BundlePlan,
+  BundleSimulation,
+  BundleStep,
+  EncodedBundle,
+  HealthFactorSimulation,
+  ManagerAuthorization,
+  RepayBundleParams,
+  SignatureApproval,
+  SimulatedAction,
+  SnippetOverrides,
+  TypedData,
+} from "./types";
+import { getContracts, isSameAddress, resolveBlockTag } from "./utils";
+
+/** The maximum value of a uint48, used by the bulker as the expiration of its Permit2 allowances. */
+export const MAX_UINT48 = BigNumber.from(2).pow(48).sub(1);
+
+/** The EIP-712 name of Morpho Aave v3, signed in the manager approvals. */
+export const MORPHO_EIP712_NAME = "Morpho-AaveV3";
+
+/** The EIP-712 version of Morpho Aave v3, signed in the manager approvals. */
+export const MORPHO_EIP712_VERSION = "0";
+
+/** The functions of an ERC20 token implementing EIP-2612 used to build a permit. */
+export const ERC20_PERMIT_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+];
+
+const SIGNATURE_TYPE = "tuple(uint8 v, bytes32 r, bytes32 s)";
+
+const toSignatureTuple = (signature: string) => {
+  const { v, r, s } = utils.splitSignature(signature);
+
+  return [v, r, s];
+};
+
+/**
+ * This function ABI-encodes the parameters of a step, as decoded by the bulker gateway.
+ *
+ * @param step The step to encode.
+ */
+export const encodeBundleStep = (step: BundleStep) => {
+  const coder = utils.defaultAbiCoder;
+
+  switch (step.type) {
+    case BulkerActionType.approve2:
+      return coder.encode(
+        ["address", "uint256", "uint256", SIGNATURE_TYPE],
+        [step.asset, step.amount, step.deadline, toSignatureTuple(step.signature)]
+      );
+    case BulkerActionType.transferFrom2:
+      return coder.encode(["address", "uint256"], [step.asset, step.amount]);
+    case BulkerActionType.approveManager:
+      return coder.encode(
+        ["bool", "uint256", "uint256", SIGNATURE_TYPE],
+        [step.isAllowed, step.nonce, step.deadline, toSignatureTuple(step.signature)]
+      );
+    case BulkerActionType.supply:
+      return coder.encode(
+        ["address", "uint256", "address", "uint256"],
+        [step.asset, step.amount, step.onBehalf, step.maxIterations]
+      );
+    case BulkerActionType.supplyCollateral:
+    case BulkerActionType.repay:
+      return coder.encode(
+        ["address", "uint256", "address"],
+        [step.asset, step.amount, step.onBehalf]
+      );
+    case BulkerActionType.borrow:
+    case BulkerActionType.withdraw:
+      return coder.encode(
+        ["address", "uint256", "address", "uint256"],
+        [step.asset, step.amount, step.receiver, step.maxIterations]
+      );
+    case BulkerActionType.withdrawCollateral:
+      return coder.encode(
+        ["address", "uint256", "address"],
+        [step.asset, step.amount, step.receiver]
+      );
+    case BulkerActionType.wrapEth:
+      return coder.encode(["uint256"], [step.amount]);
+    case BulkerActionType.unwrapEth:
+      return coder.encode(["uint256", "address"], [step.amount, step.receiver]);
+    case BulkerActionType.skim:
+      return coder.encode(["address", "address"], [step.asset, step.receiver]);
+  }
+};
+
+/**
+ * This function encodes a sequence of steps into the parameters of the bulker gateway's `execute`.
+ *
+ * @param steps The steps of the bundle, in order.
+ * @returns The actions & their encoded parameters, along with the amount of ETH to send.
+ */
+export const encodeBundle = (steps: BundleStep[]): EncodedBundle => ({
+  actions: steps.map(({ type }) => type),
+  data: steps.map(encodeBundleStep),
+  value: steps.reduce(
+    (value, step) => (step.type === BulkerActionType.wrapEth ? value.add(step.amount) : value),
+    constants.Zero
+  ),
+});
+
+/**
+ * This function builds the steps transferring an amount of underlying to the bulker:
+ * either wrapping ETH sent along with the bundle, or transferring the underlying through Permit2.
+ *
+ * @param asset The underlying to transfer.
+ * @param amount The amount to transfer (in underlying).
+ * @param wrapEth Whether the underlying is WETH wrapped from ETH.
+ * @param permit The Permit2 signature allowing the bulker to transfer the underlying, if any.
+ */
+const getTransferSteps = (
+  asset: string,
+  amount: BigNumber,
+  wrapEth: boolean,
+  permit?: SignatureApproval
+): BundleStep[] => {
+  if (wrapEth) return [{ type: BulkerActionType.wrapEth, amount }];
+
+  const steps: BundleStep[] = [];
+  if (permit) steps.push({ type: BulkerActionType.approve2, asset, amount, ...permit });
+  steps.push({ type: BulkerActionType.transferFrom2, asset, amount });
+
+  return steps;
+};
+
+const checkWeth = (asset: string, weth: string, action: string) => {
+  if (!isSameAddress(asset, weth)) throw new Error(`Cannot ${action} ${asset}, only WETH`);
+};
+
+/**
+ * This function composes the steps supplying collateral then borrowing against it in a single bundle,
+ * such as wrapping ETH, supplying it as collateral, borrowing WETH and unwrapping it.
+ *
+ * @param context The user, the bulker & the WETH addresses.
+ * @param params The collateral to supply & the underlying to borrow, along with how they are transferred.
+ * @returns The steps of the bundle, in order.
+ */
+export const getBorrowBundleSteps = (
+  { user, bulker, weth }: Pick<BundleContext, "user" | "bulker" | "weth">,
+  {
+    collateral,
+    collateralAmount,
+    borrowed,
+    borrowAmount,
+    wrapEth = false,
+    unwrapEth = false,
+    permit,
+    managerApproval,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+  }: BorrowBundleParams
+): BundleStep[] => {
+  if (wrapEth) checkWeth(collateral, weth, "wrap ETH into");
+  if (unwrapEth) checkWeth(borrowed, weth, "unwrap ETH from");
+
+  const steps: BundleStep[] = [];
+
+  if (!collateralAmount.isZero())
+    steps.push(...getTransferSteps(collateral, collateralAmount, wrapEth, permit), {
+      type: BulkerActionType.supplyCollateral,
+      asset: collateral,
+      amount: collateralAmount,
+      onBehalf: user,
+    });
+
+  if (!borrowAmount.isZero()) {
+    if (managerApproval)
+      steps.push({ type: BulkerActionType.approveManager, isAllowed: true, ...managerApproval });
+
+    steps.push({
+      type: BulkerActionType.borrow,
+      asset: borrowed,
+      amount: borrowAmount,
+      receiver: unwrapEth ? bulker : user,
+      maxIterations,
+    });
+
+    if (unwrapEth)
+      steps.push({ type: BulkerActionType.unwrapEth, amount: borrowAmount, receiver: user });
+  }
+
+  return steps;
+};
+
+/**
+ * This function composes the steps repaying a debt then withdrawing collateral in a single bundle,
+ * such as wrapping ETH, repaying WETH, withdrawing WETH collateral and unwrapping it.
+ *
+ * @param context The user, the bulker & the WETH addresses.
+ * @param params The underlying to repay & the collateral to withdraw, along with how they are transferred.
+ * @returns The steps of the bundle, in order.
+ */
+export const getRepayBundleSteps = (
+  { user, bulker, weth }: Pick<BundleContext, "user" | "bulker" | "weth">,
+  {
+    borrowed,
+    repayAmount,
+    collateral,
+    withdrawAmount,
+    wrapEth = false,
+    unwrapEth = false,
+    permit,
+    managerApproval,
+  }: RepayBundleParams
+): BundleStep[] => {
+  if (wrapEth) checkWeth(borrowed, weth, "wrap ETH into");
+  if (unwrapEth) checkWeth(collateral, weth, "unwrap ETH from");
+
+  const steps: BundleStep[] = [];
+
+  if (!repayAmount.isZero())
+    steps.push(...getTransferSteps(borrowed, repayAmount, wrapEth, permit), {
+      type: BulkerActionType.repay,
+      asset: borrowed,
+      amount: repayAmount,
+      onBehalf: user,
+    });
+
+  if (!withdrawAmount.isZero()) {
+    if (managerApproval)
+      steps.push({ type: BulkerActionType.approveManager, isAllowed: true, ...managerApproval });
+
+    steps.push({
+      type: BulkerActionType.withdrawCollateral,
+      asset: collateral,
+      amount: withdrawAmount,
+      receiver: unwrapEth ? bulker : user,
+    });
+
+    if (unwrapEth)
+      steps.push({ type: BulkerActionType.unwrapEth, amount: withdrawAmount, receiver: user });
+  }
+
+  return steps;
+};
+
+/**
+ * This function simulates offline the position of a user & the balances of the bulker after each step of a bundle,
+ * checking each step as the bulker & Morpho would: amounts capped to the balance of the bulker must not be zero,
+ * the bulker must be manager of the user's position to borrow & withdraw, a borrow must not exceed the borrowing
+ * capacity and a collateral withdrawal must not bring the health factor below 1.
+ * The wallet balances & Permit2 allowances of the user are not simulated.
+ *
+ * @param assets The current collateral & borrow balances of the user, along with the assets' parameters.
+ * @param steps The steps of the bundle, in order.
+ * @param context The user, the bulker & the WETH addresses, and whether the bulker is already manager of the user.
+ * @returns The position of the user after the bundle & after each step, along with the balances left in the bulker.
+ */
+export const computeBundleSimulation = (
+  assets: AssetLiquidityParams[],
+  steps: BundleStep[],
+  { user, bulker, weth, isBulkerManager }: BundleContext
+): BundleSimulation => {
+  const bulkerBalances: { [asset: string]: BigNumber } = {};
+  const getBalance = (asset: string) => bulkerBalances[asset.toLowerCase()] ?? constants.Zero;
+  const setBalance = (asset: string, balance: BigNumber) => {
+    bulkerBalances[asset.toLowerCase()] = balance;
+  };
+
+  let isManager = isBulkerManager;
+  let position: HealthFactorSimulation = computeHealthFactorSimulation(assets, []);
+
+  const getAsset = (underlying: string) => {
+    const asset = position.assets.find((asset) => isSameAddress(asset.underlying, underlying));
+    if (!asset) throw new Error(`No market created for ${underlying}`);
+
+    return asset;
+  };
+  const applyAction = (action: SimulatedAction) => {
+    position = computeHealthFactorSimulation(position.assets, [action]);
+  };
+
+  const stepPositions = steps.map((step, i) => {
+    const check = (condition: boolean, reason: string) => {
+      if (!condition) throw new Error(`Step ${i} (${BulkerActionType[step.type]}) ${reason}`);
+    };
+    // The bulker caps the amounts it supplies, repays & unwraps to its balance.
+    const consume = (asset: string, amount: BigNumber) => {
+      const consumed = minBN(amount, getBalance(asset));
+      check(!consumed.isZero(), `has no ${asset} to use in the bulker`);
+
+      setBalance(asset, getBalance(asset).sub(consumed));
+
+      return consumed;
+    };
+    const receive = (receiver: string, asset: string, amount: BigNumber) => {
+      if (isSameAddress(receiver, bulker)) setBalance(asset, getBalance(asset).add(amount));
+    };
+
+    switch (step.type) {
+      case BulkerActionType.approve2:
+        check(!step.amount.isZero(), "approves a zero amount");
+        break;
+      case BulkerActionType.transferFrom2:
+        check(!step.amount.isZero(), "transfers a zero amount");
+        receive(bulker, step.asset, step.amount);
+        break;
+      case BulkerActionType.approveManager:
+        isManager = step.isAllowed;
+        break;
+      case BulkerActionType.supply:
+        check(!isSameAddress(step.onBehalf, bulker), "supplies on behalf of the bulker");
+        consume(step.asset, step.amount);
+        break;
+      case BulkerActionType.supplyCollateral: {
+        check(!isSameAddress(step.onBehalf, bulker), "supplies on behalf of the bulker");
+        const amount = consume(step.asset, step.amount);
+        if (isSameAddress(step.onBehalf, user))
+          applyAction({ type: "supplyCollateral", underlying: step.asset, amount });
+        break;
+      }
+      case BulkerActionType.borrow:
+        check(isManager, "borrows without the bulker being manager of the user");
+        check(!step.amount.isZero(), "borrows a zero amount");
+        applyAction({ type: "borrow", underlying: step.asset, amount: step.amount });
+        check(position.debt.lte(position.borrowable), "exceeds the borrowing capacity of the user");
+        receive(step.receiver, step.asset, step.amount);
+        break;
+      case BulkerActionType.repay: {
+        if (!isSameAddress(step.onBehalf, user)) {
+          consume(step.asset, step.amount);
+          break;
+        }
+
+        const debt = getAsset(step.asset).borrowBalance;
+        check(!debt.isZero(), `repays a zero debt of ${step.asset}`);
+
+        const amount = consume(step.asset, minBN(step.amount, debt));
+        applyAction({ type: "repay", underlying: step.asset, amount });
+        break;
+      }
+      case BulkerActionType.withdraw:
+        check(isManager, "withdraws without the bulker being manager of the user");
+        check(!step.amount.isZero(), "withdraws a zero amount");
+        check(
+          !isSameAddress(step.receiver, bulker) || !step.amount.eq(constants.MaxUint256),
+          "withdraws the whole supply to the bulker, which cannot be simulated"
+        );
+        receive(step.receiver, step.asset, step.amount);
+        break;
+      case BulkerActionType.withdrawCollateral: {
+        check(isManager, "withdraws collateral without the bulker being manager of the user");
+
+        const amount = minBN(step.amount, getAsset(step.asset).collateralBalance);
+        check(!amount.isZero(), `withdraws a zero collateral of ${step.asset}`);
+
+        applyAction({ type: "withdrawCollateral", underlying: step.asset, amount });
+        check(position.healthFactor.gte(WadRayMath.WAD), "brings the health factor below 1");
+        receive(step.receiver, step.asset, amount);
+        break;
+      }
+      case BulkerActionType.wrapEth:
+        check(!step.amount.isZero(), "wraps a zero amount");
+        receive(bulker, weth, step.amount);
+        break;
+      case BulkerActionType.unwrapEth:
+        check(!isSameAddress(step.receiver, bulker), "unwraps to the bulker");
+        consume(weth, step.amount);
+        break;
+      case BulkerActionType.skim:
+        check(!isSameAddress(step.receiver, bulker), "skims to the bulker");
+        consume(step.asset, getBalance(step.asset));
+        break;
+    }
+
+    return position;
+  });
+
+  return {
+    ...position,
+    steps: stepPositions,
+    bulkerBalances: Object.keys(bulkerBalances)
+      .filter((asset) => !bulkerBalances[asset].isZero())
+      .reduce((balances, asset) => ({ ...balances, [asset]: bulkerBalances[asset] }), {}),
+  };
+};
+
+/**
+ * This function retrieves the data needed to simulate a bundle sent by a user, read at the same block:
+ * the addresses of the bulker & WETH, whether the bulker is manager of the user and the user's position.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getBundleData = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const [{ morphoAaveV3 }, { bulker }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    getBulkerAddresses(provider, overrides.addresses),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const bulkerGateway = MorphoBulkerGateway__factory.connect(bulker, provider);
+
+  const [weth, isBulkerManager, { markets }] = await Promise.all([
+    bulkerGateway.WETH({ blockTag }),
+    morphoAaveV3.isManagedBy(user, bulker, { blockTag }),
+    getUserMarketsPositions(user, provider, { ...overrides, blockTag }),
+  ]);
+
+  return {
+    bulkerGateway,
+    context: { user, bulker, weth, isBulkerManager },
+    assets: markets.map(getAssetLiquidityParams),
+  };
+};
+
+/**
+ * This function simulates the position of a user after each step of a bundle sent to the bulker gateway.
+ * The current position of the user is read on chain, then the steps are applied offline.
+ *
+ * @param user The user address, sending the bundle.
+ * @param steps The steps of the bundle, in order.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The position of the user after the bundle & after each step, along with the balances left in the bulker.
+ */
+export const simulateBundle = async (
+  user: string,
+  steps: BundleStep[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BundleSimulation> => {
+  const { context, assets } = await getBundleData(user, provider, overrides);
+
+  return computeBundleSimulation(assets, steps, context);
+};
+
+/**
+ * This function builds the transaction executing a bundle on the bulker gateway, once simulated.
+ * The tokens the bundle would leave in the bulker are skimmed back to the user in additional steps.
+ *
+ * @param user The user address, sending the transaction.
+ * @param steps The steps of the bundle, in order.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The simulated position of the user & the unsigned transaction executing the bundle.
+ */
+export const buildBundleTx = async (
+  user: string,
+  steps: BundleStep[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BundlePlan> => {
+  const { bulkerGateway, context, assets } = await getBundleData(user, provider, overrides);
+
+  const { bulkerBalances } = computeBundleSimulation(assets, steps, context);
+  const bundle: BundleStep[] = [
+    ...steps,
+    ...Object.keys(bulkerBalances).map(
+      (asset): BundleStep => ({ type: BulkerActionType.skim, asset, receiver: user })
+    ),
+  ];
+
+  const { actions, data, value } = encodeBundle(bundle);
+
+  return {
+    simulation: computeBundleSimulation(assets, bundle, context),
+    transaction: await bulkerGateway.populateTransaction.execute(actions, data, {
+      from: user,
+      value,
+    }),
+  };
+};
+
+/**
+ * This function builds the Permit2 `PermitSingle` typed data allowing a spender to transfer a token.
+ *
+ * @param chainId The id of the chain the signature is valid on.
+ * @param permit2 The address of the Permit2 contract.
+ * @param permit The token & amount allowed, the expiration & nonce of the allowance, the spender and the deadline of the signature.
+ */
+export const getPermit2TypedData = (
+  chainId: number,
+  permit2: string,
+  {
+    token,
+    amount,
+    expiration,
+    nonce,
+    spender,
+    sigDeadline,
+  }: {
+    token: string;
+    amount: BigNumber;
+    expiration: BigNumber;
+    nonce: number;
+    spender: string;
+    sigDeadline: BigNumber;
+  }
+): TypedData => ({
+  domain: { name: "Permit2", chainId, verifyingContract: permit2 },
+  types: {
+    PermitSingle: [
+      { name: "details", type: "PermitDetails" },
+      { name: "spender", type: "address" },
+      { name: "sigDeadline", type: "uint256" },
+    ],
+    PermitDetails: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+      { name: "nonce", type: "uint48" },
+    ],
+  },
+  message: { details: { token, amount, expiration, nonce }, spender, sigDeadline },
+});
+
+/**
+ * This function builds the Permit2 typed data a user signs to allow the bulker to transfer a token,
+ * as expected by the bulker's `approve2` action.
+ *
+ * @param user The user address, signing the permit.
+ * @param asset The token the bulker is allowed to transfer.
+ * @param amount The amount the bulker is allowed to transfer.
+ * @param deadline The timestamp after which the signature is no longer valid (in seconds).
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getBulkerPermit2TypedData = async (
+  user: string,
+  asset: string,
+  amount: BigNumber,
+  deadline: BigNumber,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TypedData> => {
+  const [{ bulker, permit2 }, { chainId }, blockTag] = await Promise.all([
+    getBulkerAddresses(provider, overrides.addresses),
+    provider.getNetwork(),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const { nonce } = await Permit2__factory.connect(permit2, provider).allowance(
+    user,
+    asset,
+    bulker,
+    { blockTag }
+  );
+
+  return getPermit2TypedData(chainId, permit2, {
+    token: asset,
+    amount,
+    expiration: MAX_UINT48,
+    nonce,
+    spender: bulker,
+    sigDeadline: deadline,
+  });
+};
+
+/**
+ * This function builds the Morpho typed data a user signs to approve or revoke the bulker as manager of its position,
+ * as expected by the bulker's `approveManager` action.
+ *
+ * @param user The user address, signing the authorization.
+ * @param isAllowed Whether the bulker is approved or revoked.
+ * @param deadline The timestamp after which the signature is no longer valid (in seconds).
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getManagerApprovalTypedData = async (
+  user: string,
+  isAllowed: boolean,
+  deadline: BigNumber,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TypedData<ManagerAuthorization>> => {
+  const [{ morphoAaveV3 }, { bulker }, { chainId }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    getBulkerAddresses(provider, overrides.addresses),
+    provider.getNetwork(),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const nonce = await morphoAaveV3.userNonce(user, { blockTag });
+
+  return {
+    domain: {
+      name: MORPHO_EIP712_NAME,
+      version: MORPHO_EIP712_VERSION,
+      chainId,
+      verifyingContract: morphoAaveV3.address,
+    },
+    types: {
+      Authorization: [
+        { name: "delegator", type: "address" },
+        { name: "manager", type: "address" },
+        { name: "isAllowed", type: "bool" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    message: { delegator: user, manager: bulker, isAllowed, nonce, deadline },
+  };
+};
+
+/**
+ * This function builds the EIP-2612 typed data a user signs to allow a spender to transfer a token supporting permits,
+ * such as to approve Permit2 without sending a transaction.
+ * The version of the token's domain defaults to "1" if the token does not expose it.
+ *
+ * @param owner The address of the token holder, signing the permit.
+ * @param token The token to allow the transfer of.
+ * @param value The amount allowed.
+ * @param deadline The timestamp after which the signature is no longer valid (in seconds).
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param spender The address allowed to transfer the token. Defaults to Permit2.
+ */
+export const getErc2612PermitTypedData = async (
+  owner: string,
+  token: string,
+  value: BigNumber,
+  deadline: BigNumber,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  spender: string = overrides.addresses?.permit2 ?? PERMIT2_ADDRESS
+): Promise<TypedData> => {
+  const [{ chainId }, blockTag] = await Promise.all([
+    provider.getNetwork(),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const erc20 = new Contract(token, ERC20_PERMIT_ABI, provider);
+
+  const [name, version, nonce] = await Promise.all([
+    erc20.name({ blockTag }) as Promise<string>,
+    (erc20.version({ blockTag }) as Promise<string>).catch(() => "1"),
+    erc20.nonces(owner, { blockTag }) as Promise<BigNumber>,
+  ]);
+
+  return {
+    domain: { name, version, chainId, verifyingContract: token },
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    message: { owner, spender, value, nonce, deadline },
+  };
+};
@@ -0,0 +1,436 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { BigNumber, providers, utils } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import { toCsv } from "./backfill";
+import { getUpdatedIndexes } from "./indexes";
+import { getUserHealthReport } from "./liquidity";
+import { getMarketStatusOf, getTrueP2PBorrow, getTrueP2PSupply } from "./marketLib";
+import { aggregate } from "./multicall";
+import { getUserPosition } from "./position";
+import { formatRate } from "./rateMath";
+import {
+  computeAverageBorrowRates,
+  computeAverageSupplyRates,
+  getAverageBorrowRatePerYear,
+  getAverageSupplyRatePerYear,
+} from "./rates";
+import { getMarketsSnapshot } from "./snapshot";
+import { getTotalBorrow, getTotalSupply } from "./snippets";
+import { MarketSnapshot, MarketsSnapshot, SnippetOverrides } from "./types";
+import { getContracts, isSameAddress } from "./utils";
+import { formatAmount, getBaseCurrencyDecimals } from "./valuation";
+
+type OutputFormat = "table" | "json" | "csv";
+
+interface CliRow {
+  [column: string]: string;
+}
+
+interface CliArgs {
+  /** The command to run. */
+  command?: string;
+
+  /** The positional arguments of the command. */
+  args: string[];
+
+  /** The url of the RPC to query. */
+  rpc?: string;
+
+  /** The block to read at, the latest block if none is given. */
+  blockTag?: providers.BlockTag;
+
+  /** The format to print the results in. */
+  format: OutputFormat;
+
+  /** Whether to print the usage. */
+  help: boolean;
+}
+
+type Command = (
+  args: string[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => Promise<CliRow[]>;
+
+const USAGE = `Usage: morpho-snippets <command> [arguments] [options]
+
+Commands:
+  markets                        List the markets created on Morpho Aave v3, with their amounts & average APYs
+  market <symbol|address>        Show the amounts, rates & statuses of a market
+  user <address>                 Show the position of a user on each market
+  health <address>               Show the health factor, borrow ratio & health status of a user
+  rates <symbol|address>         Show the average, peer-to-peer & pool rates of a market
+  tvl                            Show the total value supplied & borrowed through Morpho (in USD)
+
+Options:
+  --rpc <url>                    The url of the RPC to query. Defaults to the RPC_URL environment variable
+  --block <number|tag>           The block to read at. Defaults to the latest block
+  --json | --table | --csv       The format to print the results in. Defaults to --table
+  --help                         Print this message`;
+
+/**
+ * This function parses the command line arguments, accepting both `--option value` and `--option=value`.
+ *
+ * @param argv The command line arguments, without the node executable & the script path.
+ */
+const parseArgs = (argv: string[]): CliArgs => {
+  const parsed: CliArgs = { args: [], rpc: process.env.RPC_URL, format: "table", help: false };
+
+  for (let i = 0; i < argv.length; ++i) {
+    const [flag, inlineValue] = argv[i].startsWith("--") ? argv[i].split(/=(.*)/s) : [argv[i]];
+    const getValue = () => {
+      const value = inlineValue ?? argv[++i];
+      if (value == null) throw new Error(`Missing value for ${flag}`);
+
+      return value;
+    };
+
+    switch (flag) {
+      case "--rpc":
+        parsed.rpc = getValue();
+        break;
+      case "--block": {
+        const block = getValue();
+        parsed.blockTag = /^\d+$/.test(block) ? parseInt(block) : block;
+        break;
+      }
+      case "--json":
+      case "--table":
+      case "--csv":
+        parsed.format = flag.slice(2) as OutputFormat;
+        break;
+      case "--help":
+      case "-h":
+        parsed.help = true;
+        break;
+      default:
+        if (flag.startsWith("-")) throw new Error(`Unknown option ${flag}`);
+
+        if (parsed.command == null) parsed.command = argv[i];
+        else parsed.args.push(argv[i]);
+    }
+  }
+
+  return parsed;
+};
+
+/**
+ * This function retrieves the argument of a command at a given position, throwing if it is missing.
+ *
+ * @param args The positional arguments of the command.
+ * @param index The position of the argument.
+ * @param name The name of the argument, used in the error message.
+ */
+const getArg = (args: string[], index: number, name: string) => {
+  const arg = args[index];
+  if (arg == null) throw new Error(`Missing argument <${name}>`);
+
+  return arg;
+};
+
+/**
+ * This function retrieves the symbols of the given tokens.
+ *
+ * @param tokens The addresses of the tokens.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getSymbols = async (
+  tokens: string[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const { multicall } = await getContracts(provider, overrides);
+  const results = await aggregate(
+    multicall,
+    tokens.map((token) => ({
+      contract: ERC20__factory.connect(token, provider),
+      method: "symbol",
+    })),
+    overrides.blockTag
+  );
+
+  return results.map(([symbol]) => symbol as string);
+};
+
+/**
+ * This function retrieves the snapshot of the markets created on Morpho, along with the symbols of their underlyings.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getMarketsWithSymbols = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const snapshot = await getMarketsSnapshot(provider, overrides);
+  const symbols = await getSymbols(
+    snapshot.markets.map(({ underlying }) => underlying),
+    provider,
+    { ...overrides, blockTag: snapshot.blockNumber }
+  );
+
+  return { snapshot, symbols };
+};
+
+/**
+ * This function resolves a market from the symbol or the address of its underlying.
+ *
+ * @param market The symbol or the address of the underlying, case insensitive.
+ * @param snapshot The snapshot of the markets created on Morpho.
+ * @param symbols The symbols of the underlyings of the markets, in the order of the snapshot.
+ */
+const resolveMarket = (market: string, { markets }: MarketsSnapshot, symbols: string[]) => {
+  const i = markets.findIndex(({ underlying }, i) =>
+    utils.isAddress(market)
+      ? isSameAddress(underlying, market)
+      : symbols[i].toLowerCase() === market.toLowerCase()
+  );
+  if (i === -1) throw new Error(`No market created for ${market}`);
+
+  return { snapshot: markets[i], symbol: symbols[i] };
+};
+
+const formatApy = (rate: BigNumber) => `${formatRate(rate, "ray", 2, true)}%`;
+
+const formatHealthFactor = (healthFactor: BigNumber) =>
+  healthFactor.eq(constants.MaxUint256) ? "∞" : utils.formatEther(healthFactor);
+
+/**
+ * This function builds the row of a market, with its amounts (in underlying) & average APYs.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param symbol The symbol of the underlying.
+ * @param markets The snapshot of the markets the market was taken from.
+ */
+const getMarketRow = (
+  snapshot: MarketSnapshot,
+  symbol: string,
+  { timestamp, baseCurrencyUnit }: MarketsSnapshot
+): CliRow => {
+  const { underlying, market, price, decimals, poolSupplyAmount, poolBorrowAmount } = snapshot;
+  const indexes = getUpdatedIndexes(snapshot, timestamp);
+
+  return {
+    market: symbol,
+    underlying,
+    price: utils.formatUnits(price, getBaseCurrencyDecimals(baseCurrencyUnit)),
+    totalSupply: utils.formatUnits(
+      getTrueP2PSupply(market, indexes).add(poolSupplyAmount).add(market.idleSupply),
+      decimals
+    ),
+    totalBorrow: utils.formatUnits(
+      getTrueP2PBorrow(market, indexes).add(poolBorrowAmount),
+      decimals
+    ),
+    supplyApy: formatApy(computeAverageSupplyRates(snapshot, indexes).avgSupplyApy),
+    borrowApy: formatApy(computeAverageBorrowRates(snapshot, indexes).avgBorrowApy),
+  };
+};
+
+const COMMANDS: { [command: string]: Command } = {
+  markets: async (_, provider, overrides) => {
+    const { snapshot, symbols } = await getMarketsWithSymbols(provider, overrides);
+
+    return snapshot.markets.map((market, i) => getMarketRow(market, symbols[i], snapshot));
+  },
+  market: async (args, provider, overrides) => {
+    const { snapshot, symbols } = await getMarketsWithSymbols(provider, overrides);
+    const { snapshot: marketSnapshot, symbol } = resolveMarket(
+      getArg(args, 0, "symbol|address"),
+      snapshot,
+      symbols
+    );
+    const { underlying, market } = marketSnapshot;
+
+    const status = getMarketStatusOf(underlying, market);
+    const pausedOperations = Object.keys(status)
+      .filter((key) => key.startsWith("is") && key.endsWith("Paused"))
+      .filter((key) => status[key as keyof typeof status])
+      .map((key) => key.charAt(2).toLowerCase() + key.slice(3, -"Paused".length));
+
+    return [
+      {
+        blockNumber: snapshot.blockNumber.toString(),
+        ...getMarketRow(marketSnapshot, symbol, snapshot),
+        idleSupply: utils.formatUnits(market.idleSupply, marketSnapshot.decimals),
+        isDeprecated: status.isDeprecated.toString(),
+        isP2PDisabled: status.isP2PDisabled.toString(),
+        pausedOperations: pausedOperations.join(" ") || "none",
+      },
+    ];
+  },
+  user: async (args, provider, overrides) => {
+    const position = await getUserPosition(getArg(args, 0, "address"), provider, overrides);
+    const symbols = await getSymbols(
+      position.markets.map(({ underlying }) => underlying),
+      provider,
+      { ...overrides, blockTag: position.blockNumber }
+    );
+
+    return position.markets.map(
+      (
+        {
+          decimals,
+          supplyBalanceInP2P,
+          supplyBalanceOnPool,
+          collateralBalance,
+          borrowBalanceInP2P,
+          borrowBalanceOnPool,
+          supplyApy,
+          borrowApy,
+        },
+        i
+      ) => ({
+        market: symbols[i],
+        supply: utils.formatUnits(supplyBalanceInP2P.add(supplyBalanceOnPool), decimals),
+        collateral: utils.formatUnits(collateralBalance, decimals),
+        borrow: utils.formatUnits(borrowBalanceInP2P.add(borrowBalanceOnPool), decimals),
+        supplyApy: formatApy(supplyApy),
+        borrowApy: formatApy(borrowApy),
+      })
+    );
+  },
+  health: async (args, provider, overrides) => {
+    const { oracle } = await getContracts(provider, overrides);
+    const [report, baseCurrencyUnit] = await Promise.all([
+      getUserHealthReport(getArg(args, 0, "address"), provider, overrides),
+      oracle.BASE_CURRENCY_UNIT({ blockTag: overrides.blockTag }),
+    ]);
+    const baseCurrencyDecimals = getBaseCurrencyDecimals(baseCurrencyUnit);
+
+    return [
+      {
+        status: report.status,
+        healthFactor: formatHealthFactor(report.healthFactor),
+        borrowRatio: formatHealthFactor(report.borrowRatio),
+        borrowable: utils.formatUnits(report.borrowable, baseCurrencyDecimals),
+        maxDebt: utils.formatUnits(report.maxDebt, baseCurrencyDecimals),
+        debt: utils.formatUnits(report.debt, baseCurrencyDecimals),
+      },
+    ];
+  },
+  rates: async (args, provider, overrides) => {
+    const { snapshot, symbols } = await getMarketsWithSymbols(provider, overrides);
+    const { snapshot: marketSnapshot, symbol } = resolveMarket(
+      getArg(args, 0, "symbol|address"),
+      snapshot,
+      symbols
+    );
+
+    const pinnedOverrides = { ...overrides, blockTag: snapshot.blockNumber };
+    const [supplyRates, borrowRates] = await Promise.all([
+      getAverageSupplyRatePerYear(marketSnapshot.underlying, provider, pinnedOverrides),
+      getAverageBorrowRatePerYear(marketSnapshot.underlying, provider, pinnedOverrides),
+    ]);
+
+    return [
+      {
+        market: symbol,
+        side: "supply",
+        avgApr: formatApy(supplyRates.avgSupplyRatePerYear),
+        avgApy: formatApy(supplyRates.avgSupplyApy),
+        p2pApr: formatApy(supplyRates.p2pSupplyRatePerYear),
+        p2pApy: formatApy(supplyRates.p2pSupplyApy),
+        poolApr: formatApy(supplyRates.poolSupplyRatePerYear),
+        poolApy: formatApy(supplyRates.poolSupplyApy),
+      },
+      {
+        market: symbol,
+        side: "borrow",
+        avgApr: formatApy(borrowRates.avgBorrowRatePerYear),
+        avgApy: formatApy(borrowRates.avgBorrowApy),
+        p2pApr: formatApy(borrowRates.p2pBorrowRatePerYear),
+        p2pApy: formatApy(borrowRates.p2pBorrowApy),
+        poolApr: formatApy(borrowRates.poolBorrowRatePerYear),
+        poolApy: formatApy(borrowRates.poolBorrowApy),
+      },
+    ];
+  },
+  tvl: async (_, provider, overrides) => {
+    const [totalSupply, totalBorrow] = await Promise.all([
+      getTotalSupply(provider, overrides),
+      getTotalBorrow(provider, overrides),
+    ]);
+
+    return [
+      {
+        blockNumber: totalSupply.blockNumber.toString(),
+        totalSupplyUsd: formatAmount(totalSupply.totalSupplyAmount),
+        p2pSupplyUsd: formatAmount(totalSupply.p2pSupplyAmount),
+        poolSupplyUsd: formatAmount(totalSupply.poolSupplyAmount),
+        idleSupplyUsd: formatAmount(totalSupply.idleSupply),
+        totalBorrowUsd: formatAmount(totalBorrow.totalBorrowAmount),
+        p2pBorrowUsd: formatAmount(totalBorrow.p2pBorrowAmount),
+        poolBorrowUsd: formatAmount(totalBorrow.poolBorrowAmount),
+      },
+    ];
+  },
+};
+
+/**
+ * This function formats rows as a table aligned on columns, or as a list of fields for a single row.
+ *
+ * @param rows The rows to format.
+ */
+const toTable = (rows: CliRow[]) => {
+  if (rows.length === 0) return "No results";
+
+  if (rows.length === 1) {
+    const fields = Object.keys(rows[0]);
+    const width = Math.max(...fields.map((field) => field.length));
+
+    return fields.map((field) => `${field.padEnd(width)}  ${rows[0][field]}`).join("\n");
+  }
+
+  const columns = Object.keys(rows[0]);
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => row[column].length))
+  );
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    formatLine(columns),
+    formatLine(widths.map((width) => "-".repeat(width))),
+    ...rows.map((row) => formatLine(columns.map((column) => row[column]))),
+  ].join("\n");
+};
+
+const formatRows = (rows: CliRow[], format: OutputFormat) => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows, null, 2);
+    case "csv":
+      return toCsv(rows);
+    case "table":
+      return toTable(rows);
+  }
+};
+
+const main = async () => {
+  const { command, args, rpc, blockTag, format, help } = parseArgs(process.argv.slice(2));
+  if (help || command == null) return console.log(USAGE);
+
+  // Only the commands declared, not the properties inherited from Object.prototype such as "constructor".
+  if (!Object.prototype.hasOwnProperty.call(COMMANDS, command))
+    throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  if (rpc == null)
+    throw new Error("Missing RPC url: pass --rpc or set the RPC_URL environment variable");
+
+  const rows = await COMMANDS[command](args, new providers.JsonRpcProvider(rpc), { blockTag });
+
+  console.log(formatRows(rows, format));
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,283 @@
+import { providers } from "ethers";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+import { MorphoAaveV3 } from "@morpho-labs/morpho-ethers-contract";
+
+import {
+  ActiveUserPosition,
+  ActiveUsers,
+  EventsIndexerOptions,
+  MorphoEventName,
+  MorphoEventRecord,
+  SnippetOverrides,
+} from "./types";
+import { getContracts } from "./utils";
+
+/** The events of Morpho Aave v3 tracking the activity of users. */
+export const MORPHO_EVENTS: MorphoEventName[] = [
+  "Supplied",
+  "CollateralSupplied",
+  "Borrowed",
+  "Repaid",
+  "Withdrawn",
+  "CollateralWithdrawn",
+  "Liquidated",
+];
+
+/** The default number of blocks scanned per request. */
+export const DEFAULT_CHUNK_SIZE = 10_000;
+
+/** The default number of retries of a failing request. */
+export const DEFAULT_MAX_RETRIES = 3;
+
+/** The default delay before the first retry of a failing request (in milliseconds). */
+export const DEFAULT_RETRY_DELAY = 1_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * This function decodes a log emitted by Morpho Aave v3 into a typed record.
+ *
+ * @param morphoAaveV3 The Morpho Aave v3 contract instance.
+ * @param log The log to decode.
+ */
+export const decodeMorphoLog = (morphoAaveV3: MorphoAaveV3, log: providers.Log) => {
+  const { name, args, eventFragment } = morphoAaveV3.interface.parseLog(log);
+
+  return eventFragment.inputs.reduce(
+    (record, input) => ({ ...record, [input.name]: args[input.name] }),
+    {
+      name,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    }
+  ) as MorphoEventRecord;
+};
+
+/**
+ * This function fetches the logs of the given events in a range of blocks.
+ * A failing request is retried with a delay, then split in two halves, so that
+ * ranges exceeding the limits of the provider are eventually fetched.
+ *
+ * @param provider A provider instance
+ * @param filter The address & topics of the logs to fetch.
+ * @param fromBlock The first block of the range.
+ * @param toBlock The last block of the range, included.
+ * @param maxRetries The number of retries before splitting the range.
+ * @param retryDelay The delay between two retries (in milliseconds).
+ */
+const getLogsWithRetries = async (
+  provider: providers.BaseProvider,
+  filter: providers.Filter,
+  fromBlock: number,
+  toBlock: number,
+  maxRetries: number,
+  retryDelay: number
+): Promise<providers.Log[]> => {
+  for (let retry = 0; ; ++retry) {
+    try {
+      return await provider.getLogs({ ...filter, fromBlock, toBlock });
+    } catch (error) {
+      if (retry < maxRetries) {
+        await sleep(retryDelay * 2 ** retry);
+        continue;
+      }
+
+      if (fromBlock === toBlock) throw error;
+
+      const middleBlock = Math.floor((fromBlock + toBlock) / 2);
+
+      return [
+        ...(await getLogsWithRetries(
+          provider,
+          filter,
+          fromBlock,
+          middleBlock,
+          maxRetries,
+          retryDelay
+        )),
+        ...(await getLogsWithRetries(
+          provider,
+          filter,
+          middleBlock + 1,
+          toBlock,
+          maxRetries,
+          retryDelay
+        )),
+      ];
+    }
+  }
+};
+
+/**
+ * This function scans the events of Morpho Aave v3 tracking the activity of users over a range of blocks,
+ * in chunks of blocks fetched sequentially and retried on failure, and decodes them into typed records.
+ *
+ * @param fromBlock The first block of the range.
+ * @param toBlock The last block of the range, included.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses.
+ * @param options The events to scan, the size of the chunks, the retries policy and the callback to call with the records of each chunk.
+ *
+ * @returns The records of the events, ordered by block & log index.
+ */
+export const indexMorphoEvents = async (
+  fromBlock: number,
+  toBlock: number,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  {
+    events = MORPHO_EVENTS,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    onRecords,
+  }: EventsIndexerOptions = {}
+): Promise<MorphoEventRecord[]> => {
+  if (chunkSize <= 0) throw new Error(`Invalid chunk size ${chunkSize}, must be positive`);
+
+  const { morphoAaveV3 } = await getContracts(provider, overrides);
+  const filter = {
+    address: morphoAaveV3.address,
+    topics: [events.map((event) => morphoAaveV3.interface.getEventTopic(event))],
+  };
+
+  const records: MorphoEventRecord[] = [];
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += chunkSize) {
+    const chunkEnd = Math.min(chunkStart + chunkSize - 1, toBlock);
+
+    const logs = await getLogsWithRetries(
+      provider,
+      filter,
+      chunkStart,
+      chunkEnd,
+      maxRetries,
+      retryDelay
+    );
+    const chunkRecords = logs.map((log) => decodeMorphoLog(morphoAaveV3, log));
+
+    await onRecords?.(chunkRecords, chunkEnd);
+
+    records.push(...chunkRecords);
+  }
+
+  return records;
+};
+
+/**
+ * This function lists the users & markets whose positions are impacted by an event.
+ *
+ * @param record The record of the event.
+ */
+export const getRecordPositions = (record: MorphoEventRecord) => {
+  if (record.name === "Liquidated")
+    return [
+      { user: record.borrower, underlying: record.underlyingBorrowed },
+      { user: record.borrower, underlying: record.underlyingCollateral },
+    ];
+
+  return [{ user: record.onBehalf, underlying: record.underlying }];
+};
+
+/**
+ * This function retrieves the side of the position updated by an event and whether its balance is zero after the event.
+ * A liquidation reports no balance: the balances of the borrower are only updated by the other events.
+ *
+ * @param record The record of the event.
+ */
+const getRecordBalance = (
+  record: MorphoEventRecord
+): { side: "hasSupply" | "hasCollateral" | "hasBorrow"; isZero: boolean } | undefined => {
+  switch (record.name) {
+    case "Supplied":
+    case "Withdrawn":
+      return {
+        side: "hasSupply",
+        isZero: record.scaledOnPool.isZero() && record.scaledInP2P.isZero(),
+      };
+    case "CollateralSupplied":
+    case "CollateralWithdrawn":
+      return { side: "hasCollateral", isZero: record.scaledBalance.isZero() };
+    case "Borrowed":
+    case "Repaid":
+      return {
+        side: "hasBorrow",
+        isZero: record.scaledOnPool.isZero() && record.scaledInP2P.isZero(),
+      };
+    case "Liquidated":
+      return;
+  }
+};
+
+/**
+ * This function updates the store of the users active on each market with the given events,
+ * recording for each user the last block at which its position on the market changed and the sides of its position.
+ * The users are removed from a market once their supply, collateral & borrow balances on the market are all zero.
+ * The balances being read from the events, the store must be built from the events since the deployment of Morpho.
+ *
+ * @param activeUsers The store of active users to update.
+ * @param records The records of the events, ordered by block.
+ * @returns The updated store of active users.
+ */
+export const updateActiveUsers = (activeUsers: ActiveUsers, records: MorphoEventRecord[]) => {
+  const updatedActiveUsers: ActiveUsers = { ...activeUsers };
+
+  records.forEach((record) => {
+    const balance = getRecordBalance(record);
+
+    getRecordPositions(record).forEach(({ user, underlying }) => {
+      const market = underlying.toLowerCase();
+      const account = user.toLowerCase();
+
+      // The users of a market are copied before their first update, to leave the given store untouched.
+      if (updatedActiveUsers[market] === activeUsers[market])
+        updatedActiveUsers[market] = { ...activeUsers[market] };
+
+      const position: ActiveUserPosition = {
+        ...(updatedActiveUsers[market][account] ?? {
+          hasSupply: false,
+          hasCollateral: false,
+          hasBorrow: false,
+        }),
+        lastBlock: record.blockNumber,
+      };
+      if (balance != null) position[balance.side] = !balance.isZero;
+
+      if (position.hasSupply || position.hasCollateral || position.hasBorrow)
+        updatedActiveUsers[market][account] = position;
+      else delete updatedActiveUsers[market][account];
+    });
+  });
+
+  return updatedActiveUsers;
+};
+
+/**
+ * This function lists the users active on a market, or on any market: the users with a non-zero balance on the market.
+ *
+ * @param activeUsers The store of active users.
+ * @param underlying The market to list the users of. Defaults to all the markets.
+ */
+export const getActiveUsers = (activeUsers: ActiveUsers, underlying?: string) => {
+  const markets = underlying == null ? Object.keys(activeUsers) : [underlying.toLowerCase()];
+
+  return [...new Set(markets.flatMap((market) => Object.keys(activeUsers[market] ?? {})))];
+};
+
+/**
+ * This function loads a store of active users persisted in a file, an empty store if the file does not exist.
+ *
+ * @param path The path of the store file.
+ */
+export const loadActiveUsers = (path: string): ActiveUsers =>
+  existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : {};
+
+/**
+ * This function persists a store of active users in a file.
+ *
+ * @param path The path of the store file.
+ * @param activeUsers The store of active users.
+ */
+export const saveActiveUsers = (path: string, activeUsers: ActiveUsers) =>
+  writeFileSync(path, JSON.stringify(activeUsers, null, 2));
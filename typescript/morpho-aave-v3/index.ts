@@ -0,0 +1,24 @@
+export * from "./addresses";
+export * from "./backfill";
+export * from "./bulker";
+export * from "./events";
+export * from "./indexes";
+export * from "./interestRateStrategy";
+export * from "./limits";
+export * from "./liquidation";
+export * from "./liquidity";
+export * from "./marketLib";
+export * from "./multicall";
+export * from "./position";
+export * from "./rateMath";
+export * from "./rateSimulation";
+export * from "./rates";
+export * from "./reserveConfiguration";
+export * from "./rewards";
+export * from "./snapshot";
+export * from "./snippets";
+export * from "./transactions";
+export * from "./types";
+export * from "./utils";
+export * from "./valuation";
+export * from "./watcher";
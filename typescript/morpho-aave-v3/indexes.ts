@@ -0,0 +1,268 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN } from "@morpho-labs/ethers-utils/lib/utils";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { getIndexes, getProportionIdle } from "./marketLib";
+import { GrowthFactors, Indexes, MarketSideIndexes, MarketSnapshot } from "./types";
+import { getWeightedAvg } from "./utils";
+
+export const SECONDS_PER_YEAR = BigNumber.from(365 * 24 * 3600);
+
+const getElapsedTime = (lastUpdateTimestamp: BigNumberish, currentTimestamp: BigNumberish) => {
+  const elapsed = BigNumber.from(currentTimestamp).sub(lastUpdateTimestamp);
+  if (elapsed.lt(0)) throw new Error("The timestamp is prior to the last update");
+
+  return elapsed;
+};
+
+/**
+ * This function computes the interest accumulated using a linear interest rate formula,
+ * mirroring Aave v3's MathUtils.calculateLinearInterest.
+ *
+ * @param rate The interest rate per year (in ray).
+ * @param lastUpdateTimestamp The timestamp of the last update of the interest.
+ * @param currentTimestamp The timestamp to compute the interest at.
+ * @returns The interest rate linearly accumulated during the time delta (in ray).
+ */
+export const calculateLinearInterest = (
+  rate: BigNumber,
+  lastUpdateTimestamp: BigNumberish,
+  currentTimestamp: BigNumberish
+) =>
+  WadRayMath.RAY.add(
+    rate.mul(getElapsedTime(lastUpdateTimestamp, currentTimestamp)).div(SECONDS_PER_YEAR)
+  );
+
+/**
+ * This function computes the interest accumulated using a compounded interest rate formula,
+ * approximated with a binomial expansion of order 3, mirroring Aave v3's MathUtils.calculateCompoundedInterest.
+ *
+ * @param rate The interest rate per year (in ray).
+ * @param lastUpdateTimestamp The timestamp of the last update of the interest.
+ * @param currentTimestamp The timestamp to compute the interest at.
+ * @returns The interest rate compounded during the time delta (in ray).
+ */
+export const calculateCompoundedInterest = (
+  rate: BigNumber,
+  lastUpdateTimestamp: BigNumberish,
+  currentTimestamp: BigNumberish
+) => {
+  const exp = getElapsedTime(lastUpdateTimestamp, currentTimestamp);
+  if (exp.isZero()) return WadRayMath.RAY;
+
+  const expMinusOne = exp.sub(1);
+  const expMinusTwo = exp.gt(2) ? exp.sub(2) : constants.Zero;
+
+  const basePowerTwo = WadRayMath.rayMul(rate, rate).div(SECONDS_PER_YEAR.mul(SECONDS_PER_YEAR));
+  const basePowerThree = WadRayMath.rayMul(basePowerTwo, rate).div(SECONDS_PER_YEAR);
+
+  const secondTerm = exp.mul(expMinusOne).mul(basePowerTwo).div(2);
+  const thirdTerm = exp.mul(expMinusOne).mul(expMinusTwo).mul(basePowerThree).div(6);
+
+  return WadRayMath.RAY.add(rate.mul(exp).div(SECONDS_PER_YEAR)).add(secondTerm).add(thirdTerm);
+};
+
+/**
+ * This function computes the pool indexes of a reserve at a given timestamp,
+ * mirroring Aave v3's `getReserveNormalizedIncome` and `getReserveNormalizedVariableDebt`.
+ *
+ * @param reserve The Aave reserve data.
+ * @param timestamp The timestamp to compute the indexes at.
+ * @returns The pool supply index and the pool borrow index (in ray).
+ */
+export const computePoolIndexes = (
+  {
+    liquidityIndex,
+    variableBorrowIndex,
+    currentLiquidityRate,
+    currentVariableBorrowRate,
+    lastUpdateTimestamp,
+  }: DataTypes.ReserveDataStructOutput,
+  timestamp: BigNumberish
+) => {
+  if (BigNumber.from(timestamp).eq(lastUpdateTimestamp))
+    return { poolSupplyIndex: liquidityIndex, poolBorrowIndex: variableBorrowIndex };
+
+  return {
+    poolSupplyIndex: WadRayMath.rayMul(
+      calculateLinearInterest(currentLiquidityRate, lastUpdateTimestamp, timestamp),
+      liquidityIndex
+    ),
+    poolBorrowIndex: WadRayMath.rayMul(
+      calculateCompoundedInterest(currentVariableBorrowRate, lastUpdateTimestamp, timestamp),
+      variableBorrowIndex
+    ),
+  };
+};
+
+/**
+ * This function computes the pool & peer-to-peer growth factors of a market since the last stored indexes,
+ * mirroring Morpho's InterestRatesLib.computeGrowthFactors.
+ *
+ * @param newPoolSupplyIndex The current pool supply index (in ray).
+ * @param newPoolBorrowIndex The current pool borrow index (in ray).
+ * @param lastIndexes The last stored indexes of the market.
+ * @param p2pIndexCursor The index cursor of the market (in bps).
+ * @param reserveFactor The reserve factor of the market (in bps).
+ */
+export const computeGrowthFactors = (
+  newPoolSupplyIndex: BigNumber,
+  newPoolBorrowIndex: BigNumber,
+  lastIndexes: Indexes,
+  p2pIndexCursor: BigNumberish,
+  reserveFactor: BigNumberish
+): GrowthFactors => {
+  const poolSupplyGrowthFactor = WadRayMath.rayDiv(
+    newPoolSupplyIndex,
+    lastIndexes.supply.poolIndex
+  );
+  const poolBorrowGrowthFactor = WadRayMath.rayDiv(
+    newPoolBorrowIndex,
+    lastIndexes.borrow.poolIndex
+  );
+
+  // The case poolSupplyGrowthFactor > poolBorrowGrowthFactor happens because someone has done a flashloan on Aave:
+  // the peer-to-peer growth factors are set to the pool borrow growth factor.
+  if (poolSupplyGrowthFactor.gt(poolBorrowGrowthFactor))
+    return {
+      poolSupplyGrowthFactor,
+      p2pSupplyGrowthFactor: poolBorrowGrowthFactor,
+      poolBorrowGrowthFactor,
+      p2pBorrowGrowthFactor: poolBorrowGrowthFactor,
+    };
+
+  const p2pGrowthFactor = getWeightedAvg(
+    poolSupplyGrowthFactor,
+    poolBorrowGrowthFactor,
+    BigNumber.from(p2pIndexCursor)
+  );
+
+  return {
+    poolSupplyGrowthFactor,
+    p2pSupplyGrowthFactor: p2pGrowthFactor.sub(
+      PercentMath.percentMul(p2pGrowthFactor.sub(poolSupplyGrowthFactor), reserveFactor)
+    ),
+    poolBorrowGrowthFactor,
+    p2pBorrowGrowthFactor: p2pGrowthFactor.add(
+      PercentMath.percentMul(poolBorrowGrowthFactor.sub(p2pGrowthFactor), reserveFactor)
+    ),
+  };
+};
+
+/**
+ * This function computes the new peer-to-peer index of a market side,
+ * mirroring Morpho's InterestRatesLib.computeP2PIndex.
+ *
+ * @param poolGrowthFactor The pool growth factor of the market side (in ray).
+ * @param p2pGrowthFactor The peer-to-peer growth factor of the market side (in ray).
+ * @param lastIndexes The last stored indexes of the market side.
+ * @param scaledDelta The delta of the market side (in pool unit).
+ * @param scaledP2PTotal The total peer-to-peer amount of the market side (in peer-to-peer unit).
+ * @param proportionIdle The proportion of idle supply of the market side (in ray).
+ */
+export const computeP2PIndex = (
+  poolGrowthFactor: BigNumber,
+  p2pGrowthFactor: BigNumber,
+  lastIndexes: MarketSideIndexes,
+  scaledDelta: BigNumber,
+  scaledP2PTotal: BigNumber,
+  proportionIdle: BigNumber
+) => {
+  if (scaledP2PTotal.isZero() || (scaledDelta.isZero() && proportionIdle.isZero()))
+    return WadRayMath.rayMul(lastIndexes.p2pIndex, p2pGrowthFactor);
+
+  const proportionDelta = minBN(
+    WadRayMath.rayDivUp(
+      WadRayMath.rayMul(scaledDelta, lastIndexes.poolIndex),
+      WadRayMath.rayMul(scaledP2PTotal, lastIndexes.p2pIndex)
+    ),
+    WadRayMath.RAY.sub(proportionIdle)
+  );
+
+  // The idle supply does not accrue any interest: its growth factor is always 1.
+  return WadRayMath.rayMul(
+    lastIndexes.p2pIndex,
+    WadRayMath.rayMul(p2pGrowthFactor, WadRayMath.RAY.sub(proportionDelta).sub(proportionIdle))
+      .add(WadRayMath.rayMul(poolGrowthFactor, proportionDelta))
+      .add(proportionIdle)
+  );
+};
+
+/**
+ * This function computes the indexes of a Morpho market at a given timestamp, using the stored
+ * indexes of the market and the pool indexes of the reserve.
+ * It mirrors Morpho's `updatedIndexes`, without requiring any call to the network.
+ *
+ * @param market The Morpho market, as returned by `morphoAaveV3.market`.
+ * @param reserve The Aave reserve data, as returned by `pool.getReserveData`.
+ * @param timestamp The timestamp to compute the indexes at.
+ * @returns The updated supply & borrow indexes (in ray).
+ */
+export const computeIndexes = (
+  market: Types.MarketStructOutput,
+  reserve: DataTypes.ReserveDataStructOutput,
+  timestamp: BigNumberish
+): Indexes => {
+  const {
+    indexes: lastIndexes,
+    deltas,
+    p2pIndexCursor,
+    reserveFactor,
+    lastUpdateTimestamp,
+  } = market;
+  if (BigNumber.from(timestamp).eq(lastUpdateTimestamp)) return getIndexes(market);
+
+  const { poolSupplyIndex, poolBorrowIndex } = computePoolIndexes(reserve, timestamp);
+
+  const {
+    poolSupplyGrowthFactor,
+    p2pSupplyGrowthFactor,
+    poolBorrowGrowthFactor,
+    p2pBorrowGrowthFactor,
+  } = computeGrowthFactors(
+    poolSupplyIndex,
+    poolBorrowIndex,
+    lastIndexes,
+    p2pIndexCursor,
+    reserveFactor
+  );
+
+  return {
+    supply: {
+      poolIndex: poolSupplyIndex,
+      p2pIndex: computeP2PIndex(
+        poolSupplyGrowthFactor,
+        p2pSupplyGrowthFactor,
+        lastIndexes.supply,
+        deltas.supply.scaledDelta,
+        deltas.supply.scaledP2PTotal,
+        getProportionIdle(market)
+      ),
+    },
+    borrow: {
+      poolIndex: poolBorrowIndex,
+      p2pIndex: computeP2PIndex(
+        poolBorrowGrowthFactor,
+        p2pBorrowGrowthFactor,
+        lastIndexes.borrow,
+        deltas.borrow.scaledDelta,
+        deltas.borrow.scaledP2PTotal,
+        constants.Zero
+      ),
+    },
+  };
+};
+
+/**
+ * This function computes the indexes of a market snapshot at a given timestamp.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param timestamp The timestamp to compute the indexes at. Must not be prior to the last update of the market.
+ * @returns The updated supply & borrow indexes (in ray).
+ */
+export const getUpdatedIndexes = ({ market, reserve }: MarketSnapshot, timestamp: BigNumberish) =>
+  computeIndexes(market, reserve, timestamp);
@@ -0,0 +1,448 @@
+import { BigNumber, BigNumberish, Contract, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { maxBN } from "@morpho-labs/ethers-utils/lib/utils";
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+
+import { calculateCompoundedInterest } from "./indexes";
+import { aggregate } from "./multicall";
+import { getReserveFactor } from "./reserveConfiguration";
+import {
+  InterestRateCurvePoint,
+  InterestRateStrategyParams,
+  ReserveLiquidity,
+  ReserveRateModel,
+  ReserveRates,
+  ReserveRatesVerification,
+  SnippetOverrides,
+} from "./types";
+import { getContracts, resolveBlockTag } from "./utils";
+
+/**
+ * Port of the computation of the rates of Aave v3's `DefaultReserveInterestRateStrategy`,
+ * including its rounding.
+ */
+
+/** The getters of Aave v3's `DefaultReserveInterestRateStrategy`. */
+export const INTEREST_RATE_STRATEGY_ABI = [
+  "function OPTIMAL_USAGE_RATIO() view returns (uint256)",
+  "function OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO() view returns (uint256)",
+  "function getBaseVariableBorrowRate() view returns (uint256)",
+  "function getVariableRateSlope1() view returns (uint256)",
+  "function getVariableRateSlope2() view returns (uint256)",
+  "function getBaseStableBorrowRate() view returns (uint256)",
+  "function getStableRateSlope1() view returns (uint256)",
+  "function getStableRateSlope2() view returns (uint256)",
+  "function getStableRateExcessOffset() view returns (uint256)",
+];
+
+/** The functions of Aave v3's stable debt tokens returning their total supply & average rate. */
+export const STABLE_DEBT_TOKEN_ABI = [
+  "function getTotalSupplyAndAvgRate() view returns (uint256, uint256)",
+  "function getSupplyData() view returns (uint256, uint256, uint256, uint40)",
+];
+
+/** The function of Aave v3's variable debt tokens returning their total supply in scaled units. */
+export const VARIABLE_DEBT_TOKEN_ABI = ["function scaledTotalSupply() view returns (uint256)"];
+
+/**
+ * This function computes the borrow rate of a reserve, averaged over its variable & stable debt.
+ *
+ * @param liquidity The variable & stable debt of the reserve.
+ * @param variableBorrowRate The variable borrow rate (in ray).
+ */
+const getOverallBorrowRate = (
+  { totalVariableDebt, totalStableDebt, averageStableBorrowRate }: ReserveLiquidity,
+  variableBorrowRate: BigNumber
+) => {
+  const totalDebt = totalVariableDebt.add(totalStableDebt);
+  if (totalDebt.isZero()) return constants.Zero;
+
+  const weightedVariableRate = WadRayMath.rayMul(
+    WadRayMath.wadToRay(totalVariableDebt),
+    variableBorrowRate
+  );
+  const weightedStableRate = WadRayMath.rayMul(
+    WadRayMath.wadToRay(totalStableDebt),
+    averageStableBorrowRate
+  );
+
+  return WadRayMath.rayDiv(
+    weightedVariableRate.add(weightedStableRate),
+    WadRayMath.wadToRay(totalDebt)
+  );
+};
+
+/**
+ * This function computes the rate of a slope of the interest rate strategy at a given usage ratio:
+ * the rate grows linearly with the first slope up to the optimal usage ratio, then with the second slope.
+ * The excess usage ratio is normalized by `1 - optimalUsageRatio`, like `MAX_EXCESS_USAGE_RATIO`.
+ */
+const getSlopeRate = (
+  baseRate: BigNumber,
+  slope1: BigNumber,
+  slope2: BigNumber,
+  optimalUsageRatio: BigNumber,
+  borrowUsageRatio: BigNumber
+) => {
+  if (borrowUsageRatio.lte(optimalUsageRatio))
+    return baseRate.add(
+      WadRayMath.rayDiv(WadRayMath.rayMul(slope1, borrowUsageRatio), optimalUsageRatio)
+    );
+
+  const excessBorrowUsageRatio = WadRayMath.rayDiv(
+    borrowUsageRatio.sub(optimalUsageRatio),
+    WadRayMath.RAY.sub(optimalUsageRatio)
+  );
+
+  return baseRate.add(slope1).add(WadRayMath.rayMul(slope2, excessBorrowUsageRatio));
+};
+
+/**
+ * This function computes the supply, variable & stable borrow rates of a reserve, mirroring `calculateInterestRates`
+ * of Aave v3's `DefaultReserveInterestRateStrategy`: the borrow rates grow linearly with the usage ratio,
+ * with a steeper slope above the optimal usage ratio, and the stable borrow rate is raised further when the share
+ * of the debt borrowed at a stable rate exceeds its optimal ratio. The supply rate is the borrow rate averaged
+ * over the variable & stable debt, scaled by the supply usage ratio and net of the reserve factor.
+ *
+ * @param params The parameters of the interest rate strategy.
+ * @param liquidity The liquidity & debt of the reserve.
+ * @returns The usage ratios, the stable debt share, the supply rate & the borrow rates per year (in ray).
+ */
+export const computeInterestRates = (
+  {
+    optimalUsageRatio,
+    baseVariableBorrowRate,
+    variableRateSlope1,
+    variableRateSlope2,
+    baseStableBorrowRate,
+    stableRateSlope1,
+    stableRateSlope2,
+    optimalStableToTotalDebtRatio,
+    stableRateExcessOffset,
+  }: InterestRateStrategyParams,
+  liquidity: ReserveLiquidity
+): ReserveRates => {
+  const { availableLiquidity, totalVariableDebt, totalStableDebt, unbacked, reserveFactor } =
+    liquidity;
+  const totalDebt = totalVariableDebt.add(totalStableDebt);
+
+  let borrowUsageRatio = constants.Zero;
+  let supplyUsageRatio = constants.Zero;
+  let stableToTotalDebtRatio = constants.Zero;
+  if (!totalDebt.isZero()) {
+    const availableLiquidityPlusDebt = availableLiquidity.add(totalDebt);
+
+    borrowUsageRatio = WadRayMath.rayDiv(totalDebt, availableLiquidityPlusDebt);
+    supplyUsageRatio = WadRayMath.rayDiv(totalDebt, availableLiquidityPlusDebt.add(unbacked));
+    stableToTotalDebtRatio = WadRayMath.rayDiv(totalStableDebt, totalDebt);
+  }
+
+  const variableBorrowRate = getSlopeRate(
+    baseVariableBorrowRate,
+    variableRateSlope1,
+    variableRateSlope2,
+    optimalUsageRatio,
+    borrowUsageRatio
+  );
+
+  let stableBorrowRate = getSlopeRate(
+    baseStableBorrowRate,
+    stableRateSlope1,
+    stableRateSlope2,
+    optimalUsageRatio,
+    borrowUsageRatio
+  );
+  if (stableToTotalDebtRatio.gt(optimalStableToTotalDebtRatio)) {
+    const excessStableDebtRatio = WadRayMath.rayDiv(
+      stableToTotalDebtRatio.sub(optimalStableToTotalDebtRatio),
+      WadRayMath.RAY.sub(optimalStableToTotalDebtRatio)
+    );
+
+    stableBorrowRate = stableBorrowRate.add(
+      WadRayMath.rayMul(stableRateExcessOffset, excessStableDebtRatio)
+    );
+  }
+
+  const liquidityRate = PercentMath.percentMul(
+    WadRayMath.rayMul(getOverallBorrowRate(liquidity, variableBorrowRate), supplyUsageRatio),
+    PercentMath.BASE_PERCENT.sub(reserveFactor)
+  );
+
+  return {
+    borrowUsageRatio,
+    supplyUsageRatio,
+    liquidityRate,
+    variableBorrowRate,
+    stableToTotalDebtRatio,
+    stableBorrowRate,
+  };
+};
+
+/**
+ * This function computes the rates of a reserve along its borrow usage ratio, to chart its interest rate curve.
+ * The share of the debt borrowed at a stable rate, the average stable borrow rate & the reserve factor
+ * are kept to those of the given liquidity, and the unbacked aTokens are ignored.
+ *
+ * @param params The parameters of the interest rate strategy.
+ * @param liquidity The liquidity & debt of the reserve.
+ * @param nbPoints The number of points of the curve, evenly spread from a usage ratio of 0 to 1. Defaults to 101.
+ * @returns The rates per year at each usage ratio (in ray).
+ */
+export const computeInterestRateCurve = (
+  params: InterestRateStrategyParams,
+  liquidity: ReserveLiquidity,
+  nbPoints = 101
+): InterestRateCurvePoint[] => {
+  if (nbPoints < 2) throw new Error(`Cannot compute an interest rate curve of ${nbPoints} points`);
+
+  const totalDebt = liquidity.totalVariableDebt.add(liquidity.totalStableDebt);
+  const stableToTotalDebtRatio = totalDebt.isZero()
+    ? constants.Zero
+    : WadRayMath.rayDiv(liquidity.totalStableDebt, totalDebt);
+
+  return Array.from({ length: nbPoints }, (_, i) => {
+    // The curve is computed on a reserve of 1 unit in ray, so that the usage ratio is exactly the debt.
+    const usageRatio = WadRayMath.RAY.mul(i).div(nbPoints - 1);
+    const totalStableDebt = WadRayMath.rayMul(usageRatio, stableToTotalDebtRatio);
+
+    const { liquidityRate, variableBorrowRate, stableBorrowRate } = computeInterestRates(params, {
+      ...liquidity,
+      availableLiquidity: WadRayMath.RAY.sub(usageRatio),
+      totalVariableDebt: usageRatio.sub(totalStableDebt),
+      totalStableDebt,
+      unbacked: constants.Zero,
+    });
+
+    return { usageRatio, liquidityRate, variableBorrowRate, stableBorrowRate };
+  });
+};
+
+/**
+ * This function retrieves the parameters of the interest rate strategy of a reserve, along with its liquidity & debt,
+ * given its reserve data.
+ *
+ * @param underlying The address of the underlying token of the reserve.
+ * @param reserve The reserve data, as returned by `pool.getReserveData`.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getReserveRateModelOf = async (
+  underlying: string,
+  reserve: DataTypes.ReserveDataStructOutput,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<ReserveRateModel> => {
+  const { multicall } = await getContracts(provider, overrides);
+  const strategy = new Contract(
+    reserve.interestRateStrategyAddress,
+    INTEREST_RATE_STRATEGY_ABI,
+    provider
+  );
+
+  const [
+    [optimalUsageRatio],
+    [optimalStableToTotalDebtRatio],
+    [baseVariableBorrowRate],
+    [variableRateSlope1],
+    [variableRateSlope2],
+    [baseStableBorrowRate],
+    [stableRateSlope1],
+    [stableRateSlope2],
+    [stableRateExcessOffset],
+    [availableLiquidity],
+    [totalVariableDebt],
+    [totalStableDebt, averageStableBorrowRate],
+  ] = await aggregate(
+    multicall,
+    [
+      { contract: strategy, method: "OPTIMAL_USAGE_RATIO" },
+      { contract: strategy, method: "OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO" },
+      { contract: strategy, method: "getBaseVariableBorrowRate" },
+      { contract: strategy, method: "getVariableRateSlope1" },
+      { contract: strategy, method: "getVariableRateSlope2" },
+      { contract: strategy, method: "getBaseStableBorrowRate" },
+      { contract: strategy, method: "getStableRateSlope1" },
+      { contract: strategy, method: "getStableRateSlope2" },
+      { contract: strategy, method: "getStableRateExcessOffset" },
+      {
+        contract: ERC20__factory.connect(underlying, provider),
+        method: "balanceOf",
+        args: [reserve.aTokenAddress],
+      },
+      {
+        contract: ERC20__factory.connect(reserve.variableDebtTokenAddress, provider),
+        method: "totalSupply",
+      },
+      {
+        contract: new Contract(reserve.stableDebtTokenAddress, STABLE_DEBT_TOKEN_ABI, provider),
+        method: "getTotalSupplyAndAvgRate",
+      },
+    ],
+    overrides.blockTag
+  );
+
+  return {
+    underlying,
+    strategy: reserve.interestRateStrategyAddress,
+    params: {
+      optimalUsageRatio,
+      baseVariableBorrowRate,
+      variableRateSlope1,
+      variableRateSlope2,
+      baseStableBorrowRate,
+      stableRateSlope1,
+      stableRateSlope2,
+      optimalStableToTotalDebtRatio,
+      stableRateExcessOffset,
+    },
+    liquidity: {
+      availableLiquidity,
+      totalVariableDebt,
+      totalStableDebt,
+      averageStableBorrowRate,
+      unbacked: reserve.unbacked,
+      reserveFactor: getReserveFactor(reserve.configuration.data),
+    },
+  };
+};
+
+/**
+ * This function retrieves the parameters of the interest rate strategy of a reserve, along with its liquidity & debt.
+ *
+ * @param underlying The address of the underlying token of the reserve.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getReserveRateModel = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<ReserveRateModel> => {
+  const [{ pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const reserve = await pool.getReserveData(underlying, { blockTag });
+
+  return getReserveRateModelOf(underlying, reserve, provider, { ...overrides, blockTag });
+};
+
+/**
+ * This function retrieves the parameters of the interest rate strategy of every reserve of the pool,
+ * along with their liquidity & debt, all read at the same block.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getReservesRateModels = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<ReserveRateModel[]> => {
+  const [{ pool, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const reserves = await pool.getReservesList({ blockTag });
+
+  const reservesData = await aggregate(
+    multicall,
+    reserves.map((underlying) => ({
+      contract: pool,
+      method: "getReserveData",
+      args: [underlying],
+    })),
+    blockTag
+  );
+
+  return Promise.all(
+    reserves.map((underlying, i) =>
+      getReserveRateModelOf(underlying, reservesData[i][0], provider, { ...overrides, blockTag })
+    )
+  );
+};
+
+/**
+ * This function checks the port of the interest rate strategy of a reserve against the rates stored by the pool.
+ * The pool stores the rates computed at the last update of the reserve, so the rates are recomputed from the debt
+ * as of this update: the variable debt is valued at the stored borrow index and the stable debt is compounded
+ * up to the timestamp of the update. The underlying held by the aToken only changes with an update of the reserve,
+ * unless it is transferred to the aToken directly.
+ *
+ * @param underlying The address of the underlying token of the reserve.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param tolerance The largest difference accepted between a computed rate and its stored counterpart (in ray). Defaults to 0.
+ */
+export const verifyReserveRates = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  tolerance: BigNumberish = 0
+): Promise<ReserveRatesVerification> => {
+  const [{ pool, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const reserve = await pool.getReserveData(underlying, { blockTag });
+
+  const [{ params, liquidity }, [[scaledVariableDebt], [stablePrincipal, , , stableLastUpdate]]] =
+    await Promise.all([
+      getReserveRateModelOf(underlying, reserve, provider, { ...overrides, blockTag }),
+      aggregate(
+        multicall,
+        [
+          {
+            contract: new Contract(
+              reserve.variableDebtTokenAddress,
+              VARIABLE_DEBT_TOKEN_ABI,
+              provider
+            ),
+            method: "scaledTotalSupply",
+          },
+          {
+            contract: new Contract(reserve.stableDebtTokenAddress, STABLE_DEBT_TOKEN_ABI, provider),
+            method: "getSupplyData",
+          },
+        ],
+        blockTag
+      ),
+    ]);
+
+  const computed = computeInterestRates(params, {
+    ...liquidity,
+    totalVariableDebt: WadRayMath.rayMul(scaledVariableDebt, reserve.variableBorrowIndex),
+    totalStableDebt: WadRayMath.rayMul(
+      stablePrincipal,
+      calculateCompoundedInterest(
+        liquidity.averageStableBorrowRate,
+        stableLastUpdate,
+        reserve.lastUpdateTimestamp
+      )
+    ),
+  });
+  const reported = {
+    liquidityRate: reserve.currentLiquidityRate,
+    variableBorrowRate: reserve.currentVariableBorrowRate,
+    stableBorrowRate: reserve.currentStableBorrowRate,
+  };
+
+  const maxError = maxBN(
+    maxBN(
+      computed.liquidityRate.sub(reported.liquidityRate).abs(),
+      computed.variableBorrowRate.sub(reported.variableBorrowRate).abs()
+    ),
+    computed.stableBorrowRate.sub(reported.stableBorrowRate).abs()
+  );
+
+  return {
+    underlying,
+    blockNumber: blockTag,
+    computed,
+    reported,
+    maxError,
+    isMatching: maxError.lte(tolerance),
+  };
+};
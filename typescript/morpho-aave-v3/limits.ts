@@ -0,0 +1,212 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { getUpdatedIndexes } from "./indexes";
+import { getAssetLiquidityParams, getMaxBorrowable, getMaxWithdrawable } from "./liquidity";
+import { getTrueP2PBorrow, isBorrowPaused, isWithdrawCollateralPaused } from "./marketLib";
+import { aggregate } from "./multicall";
+import { getUserMarketsPositions } from "./position";
+import { getBorrowCap } from "./reserveConfiguration";
+import {
+  AssetLiquidityParams,
+  LiquidityData,
+  MarketLiquidity,
+  MaxAmount,
+  SnippetOverrides,
+  UserMaxAmount,
+} from "./types";
+import { getContracts, isSameAddress, zeroFloorSub } from "./utils";
+
+/**
+ * This function picks the lowest of a set of limits, the first one being picked in case of a tie.
+ *
+ * @param limits The limits, ordered by precedence.
+ */
+const getMinLimit = (limits: MaxAmount[]) =>
+  limits.reduce((min, limit) => (limit.amount.lt(min.amount) ? limit : min));
+
+/**
+ * This function computes the maximum amount of an asset a user can borrow, which is limited by
+ * the borrowing capacity given by the assets' LTV, the liquidity available on the pool & idle on Morpho,
+ * and the borrow cap of the market.
+ *
+ * @param asset The asset to borrow.
+ * @param liquidityData The liquidity data of the user.
+ * @param market The Morpho market of the asset.
+ * @param marketLiquidity The liquidity available on the pool & the borrow cap of the market.
+ * @returns The maximum borrowable amount (in underlying), along with the limit it is bound by.
+ */
+export const computeMaxBorrowable = (
+  asset: AssetLiquidityParams,
+  liquidityData: LiquidityData,
+  market: Types.MarketStructOutput,
+  { poolLiquidity, borrowCap, totalBorrow }: MarketLiquidity
+): MaxAmount => {
+  if (isBorrowPaused(market)) return { amount: constants.Zero, limiter: "paused" };
+
+  const limits: MaxAmount[] = [
+    { amount: getMaxBorrowable(asset, liquidityData), limiter: "borrowCapacity" },
+    { amount: poolLiquidity.add(market.idleSupply), limiter: "poolLiquidity" },
+  ];
+  if (!borrowCap.isZero())
+    limits.push({ amount: zeroFloorSub(borrowCap, totalBorrow), limiter: "borrowCap" });
+
+  return getMinLimit(limits);
+};
+
+/**
+ * This function computes the maximum amount of collateral of an asset a user can withdraw, which is limited by
+ * its collateral balance, its health factor staying above 1 and the liquidity available on the pool.
+ *
+ * @param asset The asset to withdraw.
+ * @param liquidityData The liquidity data of the user.
+ * @param market The Morpho market of the asset.
+ * @param marketLiquidity The liquidity available on the pool.
+ * @returns The maximum withdrawable amount (in underlying), along with the limit it is bound by.
+ */
+export const computeMaxWithdrawable = (
+  asset: AssetLiquidityParams,
+  liquidityData: LiquidityData,
+  market: Types.MarketStructOutput,
+  { poolLiquidity }: Pick<MarketLiquidity, "poolLiquidity">
+): MaxAmount => {
+  if (isWithdrawCollateralPaused(market)) return { amount: constants.Zero, limiter: "paused" };
+
+  return getMinLimit([
+    { amount: asset.collateralBalance, limiter: "balance" },
+    { amount: getMaxWithdrawable(asset, liquidityData), limiter: "healthFactor" },
+    { amount: poolLiquidity, limiter: "poolLiquidity" },
+  ]);
+};
+
+/**
+ * This function retrieves the position of a user in a market, along with its liquidity data
+ * and the liquidity available on the pool & the borrow cap of the market.
+ * All the data is read at the same block.
+ *
+ * @param user The user address.
+ * @param underlying The market to retrieve the limits of.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getUserMarketLimits = async (
+  user: string,
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const [{ multicall }, { liquidityData, markets, snapshot }] = await Promise.all([
+    getContracts(provider, overrides),
+    getUserMarketsPositions(user, provider, overrides),
+  ]);
+
+  const i = snapshot.markets.findIndex((marketSnapshot) =>
+    isSameAddress(marketSnapshot.underlying, underlying)
+  );
+  if (i === -1) throw new Error(`No market created for ${underlying}`);
+
+  const marketSnapshot = snapshot.markets[i];
+  const { market, reserve, decimals } = marketSnapshot;
+
+  const [[poolLiquidity], [variableDebt], [stableDebt]] = await aggregate(
+    multicall,
+    [
+      {
+        contract: ERC20__factory.connect(underlying, provider),
+        method: "balanceOf",
+        args: [market.aToken],
+      },
+      {
+        contract: ERC20__factory.connect(market.variableDebtToken, provider),
+        method: "totalSupply",
+      },
+      {
+        contract: ERC20__factory.connect(reserve.stableDebtTokenAddress, provider),
+        method: "totalSupply",
+      },
+    ],
+    snapshot.blockNumber
+  );
+
+  const indexes = getUpdatedIndexes(marketSnapshot, snapshot.timestamp);
+
+  return {
+    blockNumber: snapshot.blockNumber,
+    asset: getAssetLiquidityParams(markets[i]),
+    liquidityData,
+    market,
+    marketLiquidity: {
+      poolLiquidity: poolLiquidity as BigNumber,
+      borrowCap: getBorrowCap(reserve.configuration.data).mul(pow10(decimals)),
+      totalBorrow: (variableDebt as BigNumber)
+        .add(stableDebt as BigNumber)
+        .add(getTrueP2PBorrow(market, indexes)),
+    },
+  };
+};
+
+/**
+ * This function retrieves the maximum amount of an asset a user can borrow on Morpho,
+ * to be used as the maximum of a borrow input for example.
+ *
+ * @param user The user address.
+ * @param underlying The asset to borrow.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The maximum borrowable amount (in underlying), along with the limit it is bound by:
+ * borrow paused, borrowing capacity, liquidity of the pool or borrow cap.
+ */
+export const getUserMaxBorrowable = async (
+  user: string,
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserMaxAmount> => {
+  const { blockNumber, asset, liquidityData, market, marketLiquidity } = await getUserMarketLimits(
+    user,
+    underlying,
+    provider,
+    overrides
+  );
+
+  return {
+    blockNumber,
+    ...computeMaxBorrowable(asset, liquidityData, market, marketLiquidity),
+  };
+};
+
+/**
+ * This function retrieves the maximum amount of collateral of an asset a user can withdraw from Morpho,
+ * to be used as the maximum of a withdraw collateral input for example.
+ *
+ * @param user The user address.
+ * @param underlying The collateral to withdraw.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The maximum withdrawable amount (in underlying), along with the limit it is bound by:
+ * withdraw collateral paused, collateral balance, health factor or liquidity of the pool.
+ */
+export const getUserMaxWithdrawable = async (
+  user: string,
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserMaxAmount> => {
+  const { blockNumber, asset, liquidityData, market, marketLiquidity } = await getUserMarketLimits(
+    user,
+    underlying,
+    provider,
+    overrides
+  );
+
+  return {
+    blockNumber,
+    ...computeMaxWithdrawable(asset, liquidityData, market, marketLiquidity),
+  };
+};
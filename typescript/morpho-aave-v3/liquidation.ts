@@ -0,0 +1,216 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN, pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+
+import {
+  LT_LOWER_BOUND,
+  computeLiquidityData,
+  getAssetLiquidityParams,
+  getHealthFactor,
+} from "./liquidity";
+import { isDeprecated } from "./marketLib";
+import { getUserMarketsPositions } from "./position";
+import {
+  AssetLiquidationParams,
+  CollateralLiquidationPrice,
+  LiquidationAmounts,
+  SnippetOverrides,
+  UserLiquidationData,
+} from "./types";
+import { isSameAddress, zeroFloorSub } from "./utils";
+
+/** The close factor applicable when the health factor is at or above `MIN_LIQUIDATION_THRESHOLD` (in bps). */
+export const DEFAULT_CLOSE_FACTOR = BigNumber.from(5_000);
+
+/** The close factor applicable when the health factor is below `MIN_LIQUIDATION_THRESHOLD` or the market is deprecated (in bps). */
+export const MAX_CLOSE_FACTOR = BigNumber.from(10_000);
+
+/** The health factor below which a user can be liquidated (in wad). */
+export const DEFAULT_LIQUIDATION_THRESHOLD = WadRayMath.WAD;
+
+/** The health factor below which the maximum close factor applies (in wad). */
+export const MIN_LIQUIDATION_THRESHOLD = WadRayMath.WAD.mul(95).div(100);
+
+/**
+ * This function computes the close factor applicable to the liquidation of a borrow, mirroring Morpho's `_authorizeLiquidate`:
+ * the whole borrow can be liquidated on a deprecated market or below `MIN_LIQUIDATION_THRESHOLD`,
+ * half of it from `MIN_LIQUIDATION_THRESHOLD` included up to `DEFAULT_LIQUIDATION_THRESHOLD` excluded.
+ *
+ * @param healthFactor The health factor of the borrower (in wad).
+ * @param isDeprecated Whether the borrowed market is deprecated.
+ * @returns The close factor (in bps), 0 if the borrow cannot be liquidated.
+ */
+export const getCloseFactor = (healthFactor: BigNumber, isDeprecated: boolean) => {
+  if (isDeprecated) return MAX_CLOSE_FACTOR;
+  if (healthFactor.gte(DEFAULT_LIQUIDATION_THRESHOLD)) return constants.Zero;
+  if (healthFactor.gte(MIN_LIQUIDATION_THRESHOLD)) return DEFAULT_CLOSE_FACTOR;
+
+  return MAX_CLOSE_FACTOR;
+};
+
+/**
+ * This function computes, for each collateral, the price under which the health factor gets below 1,
+ * all other prices being unchanged. If the same asset is also borrowed, the price change of the debt is accounted for.
+ *
+ * @param assets The collateral & borrow balances of the assets, along with their parameters.
+ * @returns The liquidation price of each asset used as collateral.
+ */
+export const computeLiquidationPrices = (
+  assets: AssetLiquidationParams[]
+): CollateralLiquidationPrice[] =>
+  assets
+    .filter(({ collateralBalance }) => !collateralBalance.isZero())
+    .map(
+      ({ underlying, price, decimals, liquidationThreshold, collateralBalance, borrowBalance }) => {
+        const others = computeLiquidityData(
+          assets.filter((asset) => !isSameAddress(asset.underlying, underlying))
+        );
+
+        // Solves maxDebt(liquidationPrice) = debt(liquidationPrice), which are both linear in the asset's price.
+        const scale = LT_LOWER_BOUND.mul(PercentMath.BASE_PERCENT);
+        const collateralCoefficient = collateralBalance
+          .mul(LT_LOWER_BOUND.sub(1))
+          .mul(liquidationThreshold);
+        const debtCoefficient = borrowBalance.mul(scale);
+        if (collateralCoefficient.lte(debtCoefficient)) return { underlying, price };
+
+        const liquidationPrice = zeroFloorSub(others.debt, others.maxDebt)
+          .mul(pow10(decimals))
+          .mul(scale)
+          .div(collateralCoefficient.sub(debtCoefficient));
+        if (liquidationPrice.isZero()) return { underlying, price };
+
+        return {
+          underlying,
+          price,
+          liquidationPrice,
+          priceDrop: price.isZero()
+            ? constants.Zero
+            : WadRayMath.WAD.sub(minBN(WadRayMath.wadDiv(liquidationPrice, price), WadRayMath.WAD)),
+        };
+      }
+    );
+
+/**
+ * This function computes the maximum debt that can be repaid and the collateral seized in return,
+ * mirroring Morpho's `_calculateAmountToSeize`.
+ *
+ * @param borrowed The borrowed asset to repay.
+ * @param collateral The collateral asset to seize.
+ * @param closeFactor The close factor applicable to the liquidation (in bps).
+ * @returns The close factor, the maximum repayable amount and the seized collateral amount.
+ */
+export const computeLiquidationAmounts = (
+  borrowed: AssetLiquidationParams,
+  collateral: AssetLiquidationParams,
+  closeFactor: BigNumber
+): LiquidationAmounts => {
+  const borrowUnit = pow10(borrowed.decimals);
+  const collateralUnit = pow10(collateral.decimals);
+
+  let maxRepayable = PercentMath.percentMul(borrowed.borrowBalance, closeFactor);
+  if (maxRepayable.isZero() || collateral.price.isZero())
+    return { closeFactor, maxRepayable, seizedCollateral: constants.Zero };
+
+  let seizedCollateral = PercentMath.percentMul(
+    maxRepayable.mul(borrowed.price).mul(collateralUnit).div(borrowUnit.mul(collateral.price)),
+    collateral.liquidationBonus
+  );
+
+  if (seizedCollateral.gt(collateral.collateralBalance)) {
+    seizedCollateral = collateral.collateralBalance;
+    maxRepayable = PercentMath.percentDiv(
+      seizedCollateral
+        .mul(collateral.price)
+        .mul(borrowUnit)
+        .div(borrowed.price.mul(collateralUnit)),
+      collateral.liquidationBonus
+    );
+  }
+
+  return { closeFactor, maxRepayable, seizedCollateral };
+};
+
+const getAssetsLiquidationParams = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const { markets, snapshot } = await getUserMarketsPositions(user, provider, overrides);
+
+  const assets = markets.map(
+    (position, i): AssetLiquidationParams => ({
+      ...getAssetLiquidityParams(position),
+      liquidationBonus: position.liquidationBonus,
+      isDeprecated: isDeprecated(snapshot.markets[i].market),
+    })
+  );
+
+  return { assets, healthFactor: getHealthFactor(computeLiquidityData(assets)) };
+};
+
+/**
+ * This function retrieves the liquidation risk of a user: the liquidation price of each of its collaterals
+ * and the close factor applicable to each of its borrows.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getUserLiquidationData = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserLiquidationData> => {
+  const { assets, healthFactor } = await getAssetsLiquidationParams(user, provider, overrides);
+
+  const borrows = assets
+    .filter(({ borrowBalance }) => !borrowBalance.isZero())
+    .map(({ underlying, isDeprecated }) => ({
+      underlying,
+      closeFactor: getCloseFactor(healthFactor, isDeprecated),
+    }));
+
+  return {
+    healthFactor,
+    isLiquidatable: borrows.some(({ closeFactor }) => !closeFactor.isZero()),
+    collaterals: computeLiquidationPrices(assets),
+    borrows,
+  };
+};
+
+/**
+ * This function computes the maximum debt a liquidator can repay on a given borrow of a user,
+ * and the collateral seized in return, including the liquidation bonus.
+ *
+ * @param user The user address.
+ * @param underlyingBorrowed The address of the borrowed underlying to repay.
+ * @param underlyingCollateral The address of the collateral underlying to seize.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getLiquidationAmounts = async (
+  user: string,
+  underlyingBorrowed: string,
+  underlyingCollateral: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<LiquidationAmounts> => {
+  const { assets, healthFactor } = await getAssetsLiquidationParams(user, provider, overrides);
+
+  const borrowed = assets.find(({ underlying }) => isSameAddress(underlying, underlyingBorrowed));
+  if (!borrowed) throw new Error(`No market created for ${underlyingBorrowed}`);
+
+  const collateral = assets.find(({ underlying }) =>
+    isSameAddress(underlying, underlyingCollateral)
+  );
+  if (!collateral) throw new Error(`No market created for ${underlyingCollateral}`);
+
+  return computeLiquidationAmounts(
+    borrowed,
+    collateral,
+    getCloseFactor(healthFactor, borrowed.isDeprecated)
+  );
+};
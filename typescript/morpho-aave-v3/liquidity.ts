@@ -0,0 +1,274 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN, pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+
+import { getUserMarketsPositions } from "./position";
+import {
+  AssetLiquidityParams,
+  HealthFactorSimulation,
+  HealthReport,
+  HealthStatus,
+  LiquidityData,
+  SimulatedAction,
+  SnippetOverrides,
+  UserMarketPosition,
+} from "./types";
+import { getContracts, isSameAddress, resolveBlockTag, zeroFloorSub } from "./utils";
+
+/**
+ * The factor Morpho reduces the collateral value by, to account for the rounding errors of Aave
+ * in the computation of the account data (in bps).
+ */
+export const LT_LOWER_BOUND = BigNumber.from(10_000);
+
+/** The default health factor below which a user is considered at risk (in wad). */
+export const DEFAULT_AT_RISK_THRESHOLD = WadRayMath.WAD.mul(105).div(100);
+
+const divUp = (a: BigNumber, b: BigNumber) => a.add(b.sub(1)).div(b);
+
+const percentMulDown = (x: BigNumber, pct: number) => x.mul(pct).div(PercentMath.BASE_PERCENT);
+
+/**
+ * This function computes the value of a collateral balance Morpho accounts for in the liquidity data.
+ *
+ * @param collateralBalance The collateral balance (in underlying).
+ * @param price The price of the underlying (in base currency).
+ * @param decimals The number of decimals of the underlying.
+ * @returns The collateral value (in base currency).
+ */
+export const getCollateralValue = (
+  collateralBalance: BigNumber,
+  price: BigNumber,
+  decimals: number
+) =>
+  collateralBalance.mul(price).div(pow10(decimals)).mul(LT_LOWER_BOUND.sub(1)).div(LT_LOWER_BOUND);
+
+/**
+ * This function extracts from the position of a user in a market the parameters used to compute its liquidity.
+ *
+ * @param position The position of the user in the market.
+ */
+export const getAssetLiquidityParams = ({
+  underlying,
+  price,
+  decimals,
+  ltv,
+  liquidationThreshold,
+  collateralBalance,
+  borrowBalanceInP2P,
+  borrowBalanceOnPool,
+}: UserMarketPosition): AssetLiquidityParams => ({
+  underlying,
+  price,
+  decimals,
+  ltv,
+  liquidationThreshold,
+  collateralBalance,
+  borrowBalance: borrowBalanceInP2P.add(borrowBalanceOnPool),
+});
+
+/**
+ * This function computes the liquidity data of a set of assets, mirroring Morpho's `liquidityData`.
+ *
+ * @param assets The collateral & borrow balances of the assets, along with their parameters.
+ * @returns The borrowable amount, the maximum debt and the debt (in base currency).
+ */
+export const computeLiquidityData = (assets: AssetLiquidityParams[]): LiquidityData =>
+  assets.reduce(
+    (acc, { price, decimals, ltv, liquidationThreshold, collateralBalance, borrowBalance }) => {
+      const collateral = getCollateralValue(collateralBalance, price, decimals);
+
+      return {
+        borrowable: acc.borrowable.add(percentMulDown(collateral, ltv)),
+        maxDebt: acc.maxDebt.add(percentMulDown(collateral, liquidationThreshold)),
+        debt: acc.debt.add(divUp(borrowBalance.mul(price), pow10(decimals))),
+      };
+    },
+    { borrowable: constants.Zero, maxDebt: constants.Zero, debt: constants.Zero }
+  );
+
+/**
+ * This function computes the health factor from liquidity data.
+ *
+ * @param liquidityData The liquidity data.
+ * @returns The health factor (in wad), `constants.MaxUint256` if there is no debt.
+ */
+export const getHealthFactor = ({ maxDebt, debt }: LiquidityData) =>
+  debt.isZero() ? constants.MaxUint256 : WadRayMath.wadDiv(maxDebt, debt);
+
+/**
+ * This function computes a health report from liquidity data.
+ *
+ * @param liquidityData The liquidity data.
+ * @param atRiskThreshold The health factor below which the user is considered at risk (in wad).
+ * @returns The health factor, the borrow ratio and the health status.
+ */
+export const computeHealthReport = (
+  liquidityData: LiquidityData,
+  atRiskThreshold: BigNumber = DEFAULT_AT_RISK_THRESHOLD
+): HealthReport => {
+  const { borrowable, maxDebt, debt } = liquidityData;
+  const healthFactor = getHealthFactor(liquidityData);
+
+  let status = HealthStatus.healthy;
+  if (healthFactor.lt(WadRayMath.WAD)) status = HealthStatus.liquidatable;
+  else if (healthFactor.lt(atRiskThreshold)) status = HealthStatus.atRisk;
+
+  return {
+    ...liquidityData,
+    healthFactor,
+    borrowRatio: debt.isZero() ? constants.MaxUint256 : WadRayMath.wadDiv(borrowable, debt),
+    hasCollateral: !maxDebt.isZero() || !borrowable.isZero(),
+    hasDebt: !debt.isZero(),
+    status,
+  };
+};
+
+/**
+ * This function computes the maximum amount of an asset that can still be borrowed,
+ * which is limited by the borrowable amount given by the assets' LTV.
+ *
+ * @param asset The asset to borrow.
+ * @param liquidityData The liquidity data.
+ * @returns The maximum borrowable amount (in underlying).
+ */
+export const getMaxBorrowable = (
+  { price, decimals }: AssetLiquidityParams,
+  { borrowable, debt }: LiquidityData
+) => {
+  if (price.isZero()) return constants.Zero;
+
+  return zeroFloorSub(borrowable, debt).mul(pow10(decimals)).div(price);
+};
+
+/**
+ * This function computes the maximum amount of collateral of an asset that can be withdrawn,
+ * which is limited by the health factor staying above 1 once the collateral is withdrawn.
+ *
+ * @param asset The asset to withdraw.
+ * @param liquidityData The liquidity data.
+ * @returns The maximum withdrawable amount (in underlying).
+ */
+export const getMaxWithdrawable = (
+  { price, decimals, liquidationThreshold, collateralBalance }: AssetLiquidityParams,
+  { maxDebt, debt }: LiquidityData
+) => {
+  if (debt.isZero() || liquidationThreshold === 0) return collateralBalance;
+  if (price.isZero()) return constants.Zero;
+
+  // The withdrawable value is the excess of maximum debt, divided by the share of the collateral value it accounts for.
+  const withdrawable = zeroFloorSub(maxDebt, debt)
+    .mul(pow10(decimals))
+    .mul(LT_LOWER_BOUND)
+    .mul(PercentMath.BASE_PERCENT)
+    .div(price.mul(LT_LOWER_BOUND.sub(1)).mul(liquidationThreshold));
+
+  return minBN(withdrawable, collateralBalance);
+};
+
+/**
+ * This function applies a hypothetical action to the balances of a set of assets.
+ * As on Morpho, withdrawals & repayments are capped to the user's balance.
+ *
+ * @param assets The collateral & borrow balances of the assets.
+ * @param action The action to apply.
+ * @returns The balances of the assets after the action.
+ */
+export const applyAction = (
+  assets: AssetLiquidityParams[],
+  { type, underlying, amount }: SimulatedAction
+): AssetLiquidityParams[] => {
+  if (!assets.some((asset) => isSameAddress(asset.underlying, underlying)))
+    throw new Error(`No market created for ${underlying}`);
+
+  return assets.map((asset) => {
+    if (!isSameAddress(asset.underlying, underlying)) return asset;
+
+    switch (type) {
+      case "supplyCollateral":
+        return { ...asset, collateralBalance: asset.collateralBalance.add(amount) };
+      case "withdrawCollateral":
+        return { ...asset, collateralBalance: zeroFloorSub(asset.collateralBalance, amount) };
+      case "borrow":
+        return { ...asset, borrowBalance: asset.borrowBalance.add(amount) };
+      case "repay":
+        return { ...asset, borrowBalance: zeroFloorSub(asset.borrowBalance, amount) };
+    }
+  });
+};
+
+/**
+ * This function simulates offline the liquidity of a set of assets after a sequence of hypothetical actions.
+ *
+ * @param assets The current collateral & borrow balances of the assets, along with their parameters.
+ * @param actions The actions to apply, in order.
+ * @returns The resulting health factor & liquidity data, along with the maximum borrowable & withdrawable amounts of each asset.
+ */
+export const computeHealthFactorSimulation = (
+  assets: AssetLiquidityParams[],
+  actions: SimulatedAction[]
+): HealthFactorSimulation => {
+  const simulatedAssets = actions.reduce(applyAction, assets);
+  const liquidityData = computeLiquidityData(simulatedAssets);
+
+  return {
+    ...liquidityData,
+    healthFactor: getHealthFactor(liquidityData),
+    assets: simulatedAssets.map((asset) => ({
+      ...asset,
+      maxBorrowable: getMaxBorrowable(asset, liquidityData),
+      maxWithdrawable: getMaxWithdrawable(asset, liquidityData),
+    })),
+  };
+};
+
+/**
+ * This function simulates the health factor of a user after a sequence of hypothetical
+ * supply collateral, withdraw collateral, borrow and repay actions.
+ * The current position of the user is read on chain, then the actions are applied offline.
+ *
+ * @param user The user address.
+ * @param actions The actions to apply, in order.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The resulting health factor & liquidity data, along with the maximum borrowable & withdrawable amounts of each asset.
+ */
+export const simulateHealthFactor = async (
+  user: string,
+  actions: SimulatedAction[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<HealthFactorSimulation> => {
+  const { markets } = await getUserMarketsPositions(user, provider, overrides);
+
+  return computeHealthFactorSimulation(markets.map(getAssetLiquidityParams), actions);
+};
+
+/**
+ * This function retrieves the health report of a user: its health factor using the liquidation thresholds,
+ * its borrow ratio using the LTVs and its health status.
+ * Unlike the raw health factor, it handles users without debt or without collateral explicitly.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param atRiskThreshold The health factor below which the user is considered at risk (in wad).
+ */
+export const getUserHealthReport = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  atRiskThreshold: BigNumber = DEFAULT_AT_RISK_THRESHOLD
+): Promise<HealthReport> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const { borrowable, maxDebt, debt } = await morphoAaveV3.liquidityData(user, { blockTag });
+
+  return computeHealthReport({ borrowable, maxDebt, debt }, atRiskThreshold);
+};
@@ -0,0 +1,224 @@
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN } from "@morpho-labs/ethers-utils/lib/utils";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { Indexes, MarketSideIndexes, MarketStatus } from "./types";
+import { zeroFloorSub } from "./utils";
+
+/**
+ * This function checks whether a market is created.
+ *
+ * @param market The Morpho market.
+ */
+export const isCreated = ({ aToken }: Types.MarketStructOutput) => aToken !== constants.AddressZero;
+
+/**
+ * This function checks whether supply is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isSupplyPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isSupplyPaused;
+
+/**
+ * This function checks whether supply collateral is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isSupplyCollateralPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isSupplyCollateralPaused;
+
+/**
+ * This function checks whether borrow is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isBorrowPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isBorrowPaused;
+
+/**
+ * This function checks whether repay is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isRepayPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isRepayPaused;
+
+/**
+ * This function checks whether withdraw is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isWithdrawPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isWithdrawPaused;
+
+/**
+ * This function checks whether withdraw collateral is paused on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isWithdrawCollateralPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isWithdrawCollateralPaused;
+
+/**
+ * This function checks whether the liquidation of the collateral of a market is paused.
+ *
+ * @param market The Morpho market.
+ */
+export const isLiquidateCollateralPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isLiquidateCollateralPaused;
+
+/**
+ * This function checks whether the liquidation of the borrows of a market is paused.
+ *
+ * @param market The Morpho market.
+ */
+export const isLiquidateBorrowPaused = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isLiquidateBorrowPaused;
+
+/**
+ * This function checks whether a market is deprecated.
+ *
+ * @param market The Morpho market.
+ */
+export const isDeprecated = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isDeprecated;
+
+/**
+ * This function checks whether the peer-to-peer matching is disabled on a market.
+ *
+ * @param market The Morpho market.
+ */
+export const isP2PDisabled = ({ pauseStatuses }: Types.MarketStructOutput) =>
+  pauseStatuses.isP2PDisabled;
+
+/**
+ * This function gathers the statuses of a market, telling which operations are paused on it.
+ *
+ * @param underlying The address of the underlying token of the market.
+ * @param market The Morpho market.
+ */
+export const getMarketStatusOf = (
+  underlying: string,
+  market: Types.MarketStructOutput
+): MarketStatus => ({
+  underlying,
+  isCreated: isCreated(market),
+  isSupplyPaused: isSupplyPaused(market),
+  isSupplyCollateralPaused: isSupplyCollateralPaused(market),
+  isBorrowPaused: isBorrowPaused(market),
+  isRepayPaused: isRepayPaused(market),
+  isWithdrawPaused: isWithdrawPaused(market),
+  isWithdrawCollateralPaused: isWithdrawCollateralPaused(market),
+  isLiquidateCollateralPaused: isLiquidateCollateralPaused(market),
+  isLiquidateBorrowPaused: isLiquidateBorrowPaused(market),
+  isDeprecated: isDeprecated(market),
+  isP2PDisabled: isP2PDisabled(market),
+});
+
+/**
+ * This function retrieves the stored supply indexes of a market.
+ *
+ * @param market The Morpho market.
+ */
+export const getSupplyIndexes = ({
+  indexes: {
+    supply: { poolIndex, p2pIndex },
+  },
+}: Types.MarketStructOutput): MarketSideIndexes => ({ poolIndex, p2pIndex });
+
+/**
+ * This function retrieves the stored borrow indexes of a market.
+ *
+ * @param market The Morpho market.
+ */
+export const getBorrowIndexes = ({
+  indexes: {
+    borrow: { poolIndex, p2pIndex },
+  },
+}: Types.MarketStructOutput): MarketSideIndexes => ({ poolIndex, p2pIndex });
+
+/**
+ * This function retrieves the stored indexes of a market.
+ *
+ * @param market The Morpho market.
+ */
+export const getIndexes = (market: Types.MarketStructOutput): Indexes => ({
+  supply: getSupplyIndexes(market),
+  borrow: getBorrowIndexes(market),
+});
+
+/**
+ * This function computes the proportion of idle supply in a market over its total peer-to-peer supply.
+ *
+ * @param market The Morpho market.
+ * @returns The proportion of idle supply (in ray).
+ */
+export const getProportionIdle = ({
+  idleSupply,
+  deltas: {
+    supply: { scaledP2PTotal },
+  },
+  indexes: {
+    supply: { p2pIndex },
+  },
+}: Types.MarketStructOutput) => {
+  if (idleSupply.isZero()) return constants.Zero;
+
+  const totalP2PSupplied = WadRayMath.rayMul(scaledP2PTotal, p2pIndex);
+
+  // We take the minimum to handle the case where the proportion is rounded to greater than 1.
+  return minBN(WadRayMath.rayDivUp(idleSupply, totalP2PSupplied), WadRayMath.RAY);
+};
+
+/**
+ * This function computes the total amount of underlying truly supplied peer-to-peer on a market.
+ *
+ * @param market The Morpho market.
+ * @param indexes The indexes to compute the amount with. Defaults to the stored indexes of the market.
+ * @returns The total peer-to-peer supply, minus the supply delta and the idle supply (in underlying).
+ */
+export const getTrueP2PSupply = (
+  market: Types.MarketStructOutput,
+  { supply: { poolIndex, p2pIndex } }: Indexes = getIndexes(market)
+) => {
+  const {
+    deltas: {
+      supply: { scaledDelta, scaledP2PTotal },
+    },
+    idleSupply,
+  } = market;
+
+  return zeroFloorSub(
+    zeroFloorSub(
+      WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
+      WadRayMath.rayMul(scaledDelta, poolIndex)
+    ),
+    idleSupply
+  );
+};
+
+/**
+ * This function computes the total amount of underlying truly borrowed peer-to-peer on a market.
+ *
+ * @param market The Morpho market.
+ * @param indexes The indexes to compute the amount with. Defaults to the stored indexes of the market.
+ * @returns The total peer-to-peer borrow, minus the borrow delta (in underlying).
+ */
+export const getTrueP2PBorrow = (
+  market: Types.MarketStructOutput,
+  { borrow: { poolIndex, p2pIndex } }: Indexes = getIndexes(market)
+) => {
+  const {
+    deltas: {
+      borrow: { scaledDelta, scaledP2PTotal },
+    },
+  } = market;
+
+  return zeroFloorSub(
+    WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
+    WadRayMath.rayMul(scaledDelta, poolIndex)
+  );
+};
@@ -0,0 +1,45 @@
+import { BaseContract, utils } from "ethers";
+
+import { BlockTag } from "@ethersproject/providers";
+import { Multicall3 } from "@morpho-labs/morpho-ethers-contract";
+
+export interface MulticallCall {
+  /** The contract to call. */
+  contract: BaseContract;
+
+  /** The name or signature of the function to call. */
+  method: string;
+
+  /** The arguments of the call. */
+  args?: ReadonlyArray<unknown>;
+}
+
+/**
+ * This function batches the given calls into a single Multicall3 `aggregate3` call
+ * and returns their decoded results, in the same order.
+ * It throws if any of the calls reverts.
+ *
+ * @param multicall The Multicall3 contract instance.
+ * @param calls The calls to batch.
+ * @param blockTag The block at which the calls are executed. Defaults to the latest block.
+ */
+export const aggregate = async (
+  multicall: Multicall3,
+  calls: MulticallCall[],
+  blockTag?: BlockTag
+): Promise<utils.Result[]> => {
+  if (calls.length === 0) return [];
+
+  const results = await multicall.callStatic.aggregate3(
+    calls.map(({ contract, method, args = [] }) => ({
+      target: contract.address,
+      allowFailure: false,
+      callData: contract.interface.encodeFunctionData(method, args),
+    })),
+    { blockTag }
+  );
+
+  return results.map(({ returnData }, i) =>
+    calls[i].contract.interface.decodeFunctionResult(calls[i].method, returnData)
+  );
+};
@@ -0,0 +1,214 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { getUpdatedIndexes } from "./indexes";
+import { aggregate } from "./multicall";
+import { aprToApy } from "./rateMath";
+import { getMarketsSnapshot } from "./snapshot";
+import { getMarketRatesPerYear } from "./snippets";
+import { SnippetOverrides, UserMarketPosition, UserMarketsPositions, UserPosition } from "./types";
+import { getContracts, getWeightedRate } from "./utils";
+import { convertAmount, toUnderlyingAmount } from "./valuation";
+
+/**
+ * This function retrieves the position of a user in each of the Morpho Aave v3 markets, including the ones
+ * the user has no balance in, along with the markets the user is in, the liquidity data of the user
+ * and the snapshot of the markets the position was computed from.
+ * All the data is read at the same block.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+export const getUserMarketsPositions = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserMarketsPositions> => {
+  const [{ morphoAaveV3, multicall }, snapshot] = await Promise.all([
+    getContracts(provider, overrides),
+    getMarketsSnapshot(provider, overrides),
+  ]);
+  const { blockNumber, timestamp, baseCurrencyUnit, markets } = snapshot;
+
+  const [[userCollaterals], [userBorrows], [liquidityData], ...balancesResults] = await aggregate(
+    multicall,
+    [
+      { contract: morphoAaveV3, method: "userCollaterals", args: [user] },
+      { contract: morphoAaveV3, method: "userBorrows", args: [user] },
+      { contract: morphoAaveV3, method: "liquidityData", args: [user] },
+      ...markets.flatMap(({ underlying }) =>
+        [
+          "scaledP2PSupplyBalance",
+          "scaledPoolSupplyBalance",
+          "collateralBalance",
+          "scaledP2PBorrowBalance",
+          "scaledPoolBorrowBalance",
+        ].map((method) => ({ contract: morphoAaveV3, method, args: [underlying, user] }))
+      ),
+    ],
+    blockNumber
+  );
+
+  const marketsPositions = markets.map((marketSnapshot, i): UserMarketPosition => {
+    const [
+      [scaledP2PSupplyBalance],
+      [scaledPoolSupplyBalance],
+      [collateralBalance],
+      [scaledP2PBorrowBalance],
+      [scaledPoolBorrowBalance],
+    ] = balancesResults.slice(5 * i, 5 * (i + 1));
+
+    const { underlying, price, decimals, ltv, liquidationThreshold, liquidationBonus } =
+      marketSnapshot;
+    const indexes = getUpdatedIndexes(marketSnapshot, timestamp);
+    const { p2pSupplyRate, poolSupplyRate, p2pBorrowRate, poolBorrowRate } = getMarketRatesPerYear(
+      marketSnapshot,
+      indexes
+    );
+
+    const supplyBalanceInP2P = WadRayMath.rayMul(scaledP2PSupplyBalance, indexes.supply.p2pIndex);
+    const supplyBalanceOnPool = WadRayMath.rayMul(
+      scaledPoolSupplyBalance,
+      indexes.supply.poolIndex
+    );
+    const borrowBalanceInP2P = WadRayMath.rayMul(scaledP2PBorrowBalance, indexes.borrow.p2pIndex);
+    const borrowBalanceOnPool = WadRayMath.rayMul(
+      scaledPoolBorrowBalance,
+      indexes.borrow.poolIndex
+    );
+
+    const { weightedRate: supplyRatePerYear } = getWeightedRate(
+      p2pSupplyRate,
+      poolSupplyRate,
+      supplyBalanceInP2P,
+      supplyBalanceOnPool.add(collateralBalance)
+    );
+    const { weightedRate: borrowRatePerYear } = getWeightedRate(
+      p2pBorrowRate,
+      poolBorrowRate,
+      borrowBalanceInP2P,
+      borrowBalanceOnPool
+    );
+
+    const toUsd = (amount: BigNumber) =>
+      convertAmount(toUnderlyingAmount(amount, decimals), "usd", {
+        price,
+        decimals,
+        baseCurrencyUnit,
+      }).value;
+
+    return {
+      underlying,
+      price,
+      decimals,
+      ltv,
+      liquidationThreshold,
+      liquidationBonus,
+      supplyBalanceInP2P,
+      supplyBalanceOnPool,
+      collateralBalance,
+      borrowBalanceInP2P,
+      borrowBalanceOnPool,
+      supplyUsd: toUsd(supplyBalanceInP2P.add(supplyBalanceOnPool)),
+      collateralUsd: toUsd(collateralBalance),
+      borrowUsd: toUsd(borrowBalanceInP2P.add(borrowBalanceOnPool)),
+      supplyRatePerYear,
+      borrowRatePerYear,
+      supplyApy: aprToApy(supplyRatePerYear),
+      borrowApy: aprToApy(borrowRatePerYear),
+    };
+  });
+
+  return {
+    blockNumber,
+    userCollaterals: userCollaterals as string[],
+    userBorrows: userBorrows as string[],
+    liquidityData: liquidityData as Types.LiquidityDataStructOutput,
+    markets: marketsPositions,
+    snapshot,
+  };
+};
+
+/**
+ * This function retrieves the whole position of a user over the Morpho Aave v3 markets:
+ * the balances, their value and the rates experienced in each market the user is in,
+ * along with the net rate over the portfolio and the liquidity data of the user.
+ * All the data is read at the same block.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The position of the user.
+ */
+export const getUserPosition = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserPosition> => {
+  const {
+    blockNumber,
+    userCollaterals,
+    userBorrows,
+    liquidityData: { borrowable, maxDebt, debt },
+    markets: marketsPositions,
+  } = await getUserMarketsPositions(user, provider, overrides);
+
+  const userMarkets = marketsPositions.filter(
+    ({
+      supplyBalanceInP2P,
+      supplyBalanceOnPool,
+      collateralBalance,
+      borrowBalanceInP2P,
+      borrowBalanceOnPool,
+    }) =>
+      !supplyBalanceInP2P.isZero() ||
+      !supplyBalanceOnPool.isZero() ||
+      !collateralBalance.isZero() ||
+      !borrowBalanceInP2P.isZero() ||
+      !borrowBalanceOnPool.isZero()
+  );
+
+  const totals = userMarkets.reduce(
+    (acc, { supplyUsd, collateralUsd, borrowUsd, supplyRatePerYear, borrowRatePerYear }) => ({
+      totalSupplyUsd: acc.totalSupplyUsd.add(supplyUsd),
+      totalCollateralUsd: acc.totalCollateralUsd.add(collateralUsd),
+      totalBorrowUsd: acc.totalBorrowUsd.add(borrowUsd),
+      netInterestsUsd: acc.netInterestsUsd
+        .add(supplyUsd.add(collateralUsd).mul(supplyRatePerYear))
+        .sub(borrowUsd.mul(borrowRatePerYear)),
+    }),
+    {
+      totalSupplyUsd: constants.Zero,
+      totalCollateralUsd: constants.Zero,
+      totalBorrowUsd: constants.Zero,
+      netInterestsUsd: constants.Zero,
+    }
+  );
+
+  const totalSuppliedUsd = totals.totalSupplyUsd.add(totals.totalCollateralUsd);
+  const netRatePerYear = totalSuppliedUsd.isZero()
+    ? constants.Zero
+    : totals.netInterestsUsd.div(totalSuppliedUsd);
+
+  return {
+    user,
+    blockNumber,
+    userCollaterals,
+    userBorrows,
+    markets: userMarkets,
+    totalSupplyUsd: totals.totalSupplyUsd,
+    totalCollateralUsd: totals.totalCollateralUsd,
+    totalBorrowUsd: totals.totalBorrowUsd,
+    netRatePerYear,
+    netApy: aprToApy(netRatePerYear),
+    healthFactor: debt.isZero() ? constants.MaxUint256 : WadRayMath.wadDiv(maxDebt, debt),
+    borrowCapacity: borrowable,
+    maxDebt,
+    debt,
+  };
+};
@@ -0,0 +1,118 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+
+import { SECONDS_PER_YEAR } from "./indexes";
+import { RateUnit } from "./types";
+
+/** The average time between two blocks on Ethereum mainnet (in seconds). */
+export const SECONDS_PER_BLOCK = 12;
+
+/** The number of blocks per year on Ethereum mainnet. */
+export const BLOCKS_PER_YEAR = SECONDS_PER_YEAR.div(SECONDS_PER_BLOCK);
+
+/** The number of decimals of each representation of a rate, a rate of 1 being represented by `10 ** decimals`. */
+export const RATE_UNIT_DECIMALS: { [unit in RateUnit]: number } = {
+  ray: 27,
+  wad: 18,
+  bps: 4,
+  percent: 2,
+};
+
+/**
+ * This function divides a number by a positive number, rounding half away from zero.
+ *
+ * @param a The dividend.
+ * @param b The divisor.
+ */
+const divHalfUp = (a: BigNumber, b: BigNumber): BigNumber => {
+  if (a.isNegative()) return divHalfUp(a.abs(), b).mul(-1);
+
+  return a.add(b.div(2)).div(b);
+};
+
+/**
+ * This function raises a number in ray to a given power, using exponentiation by squaring.
+ * Each multiplication rounds half up, as `WadRayMath.rayMul` does.
+ *
+ * @param x The number to raise (in ray).
+ * @param n The power.
+ * @returns The number raised to the power (in ray).
+ */
+export const rayPow = (x: BigNumber, n: BigNumberish) => {
+  let exponent = BigNumber.from(n);
+  let base = x;
+  let result = WadRayMath.RAY;
+
+  while (!exponent.isZero()) {
+    if (exponent.mod(2).eq(1)) result = WadRayMath.rayMul(result, base);
+
+    exponent = exponent.div(2);
+    if (!exponent.isZero()) base = WadRayMath.rayMul(base, base);
+  }
+
+  return result;
+};
+
+/**
+ * This function converts a linear rate per year into the yearly rate obtained when compounding it at a given frequency.
+ * The rate per period is rounded half up to the ray, so the relative error on the APY stays below `periodsPerYear / 1e27`.
+ *
+ * @param apr The linear rate per year (in ray).
+ * @param periodsPerYear The number of compounding periods per year. Defaults to a compounding every second.
+ * @returns The compounded rate per year (in ray).
+ */
+export const aprToApy = (apr: BigNumber, periodsPerYear: BigNumberish = SECONDS_PER_YEAR) => {
+  const periods = BigNumber.from(periodsPerYear);
+  if (periods.isZero()) return apr;
+
+  return rayPow(WadRayMath.RAY.add(divHalfUp(apr, periods)), periods).sub(WadRayMath.RAY);
+};
+
+/**
+ * This function converts a linear rate per year into the yearly rate obtained when compounding it every block.
+ *
+ * @param apr The linear rate per year (in ray).
+ * @returns The compounded rate per year (in ray).
+ */
+export const aprToBlockApy = (apr: BigNumber) => aprToApy(apr, BLOCKS_PER_YEAR);
+
+/**
+ * This function converts a rate from one representation to another, rounding half away from zero when precision is lost.
+ *
+ * @param rate The rate to convert.
+ * @param from The representation of the given rate.
+ * @param to The representation to convert the rate to.
+ * @returns The rate in the requested representation.
+ */
+export const convertRate = (rate: BigNumber, from: RateUnit, to: RateUnit) => {
+  const decimalsDiff = RATE_UNIT_DECIMALS[to] - RATE_UNIT_DECIMALS[from];
+
+  if (decimalsDiff >= 0) return rate.mul(pow10(decimalsDiff));
+
+  return divHalfUp(rate, pow10(-decimalsDiff));
+};
+
+/**
+ * This function formats a rate as a decimal string, rounded half away from zero to a given number of digits.
+ *
+ * @param rate The rate to format.
+ * @param unit The representation of the given rate. Defaults to ray.
+ * @param digits The maximum number of decimal digits of the formatted rate.
+ * @param asPercent Whether to format the rate as a percentage, a rate of 1 being formatted as "100".
+ * @returns The formatted rate, such as "0.0325" or "3.25" as a percentage.
+ */
+export const formatRate = (
+  rate: BigNumber,
+  unit: RateUnit = "ray",
+  digits = 4,
+  asPercent = false
+) => {
+  const decimals = RATE_UNIT_DECIMALS[unit] - (asPercent ? RATE_UNIT_DECIMALS.percent : 0);
+  const rounded = digits < decimals ? divHalfUp(rate, pow10(decimals - digits)) : rate;
+
+  const formatted = utils.formatUnits(rounded, Math.min(digits, decimals));
+
+  return formatted.endsWith(".0") ? formatted.slice(0, -2) : formatted;
+};
@@ -0,0 +1,396 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN, pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { computeInterestRates, getReserveRateModelOf } from "./interestRateStrategy";
+import { isCreated, isP2PDisabled } from "./marketLib";
+import { aggregate } from "./multicall";
+import { aprToApy } from "./rateMath";
+import { getDecimals, getSupplyCap } from "./reserveConfiguration";
+import { getP2PBorrowRate, getP2PSupplyRate } from "./snippets";
+import {
+  Indexes,
+  RateSimulation,
+  RateSimulationMarket,
+  RateSimulationSide,
+  ReserveRates,
+  SnippetOverrides,
+  UserRateSimulation,
+} from "./types";
+import { getContracts, resolveBlockTag, zeroFloorSub } from "./utils";
+
+interface P2PState {
+  /** The supply delta (in pool supply unit). */
+  supplyDelta: BigNumber;
+
+  /** The total peer-to-peer supply (in peer-to-peer supply unit). */
+  supplyP2PTotal: BigNumber;
+
+  /** The borrow delta (in pool borrow unit). */
+  borrowDelta: BigNumber;
+
+  /** The total peer-to-peer borrow (in peer-to-peer borrow unit). */
+  borrowP2PTotal: BigNumber;
+
+  /** The idle supply (in underlying). */
+  idleSupply: BigNumber;
+}
+
+/**
+ * This function computes the peer-to-peer supply & borrow rates of a market from the rates of the pool
+ * and the deltas, peer-to-peer totals & idle supply of the market.
+ *
+ * @param market The Morpho market.
+ * @param indexes The updated indexes of the market.
+ * @param poolRates The rates of the pool.
+ * @param p2pState The deltas, peer-to-peer totals & idle supply of the market.
+ */
+const computeP2PRates = (
+  { p2pIndexCursor, reserveFactor }: Types.MarketStructOutput,
+  indexes: Indexes,
+  { liquidityRate, variableBorrowRate }: ReserveRates,
+  { supplyDelta, supplyP2PTotal, borrowDelta, borrowP2PTotal, idleSupply }: P2PState
+) => {
+  const params = {
+    poolSupplyRatePerYear: liquidityRate,
+    poolBorrowRatePerYear: variableBorrowRate,
+    p2pIndexCursor: BigNumber.from(p2pIndexCursor),
+    reserveFactor: BigNumber.from(reserveFactor),
+  };
+
+  // Mirrors `getProportionIdle`, on the simulated idle supply & peer-to-peer total.
+  const proportionIdle = idleSupply.isZero()
+    ? constants.Zero
+    : minBN(
+        WadRayMath.rayDivUp(idleSupply, WadRayMath.rayMul(supplyP2PTotal, indexes.supply.p2pIndex)),
+        WadRayMath.RAY
+      );
+
+  return {
+    p2pSupplyRatePerYear: getP2PSupplyRate({
+      ...params,
+      ...indexes.supply,
+      proportionIdle,
+      p2pDelta: supplyDelta,
+      p2pAmount: supplyP2PTotal,
+    }),
+    p2pBorrowRatePerYear: getP2PBorrowRate({
+      ...params,
+      ...indexes.borrow,
+      proportionIdle: constants.Zero,
+      p2pDelta: borrowDelta,
+      p2pAmount: borrowP2PTotal,
+    }),
+  };
+};
+
+/**
+ * This function gathers the rates of a simulation, weighting the rate experienced by the user
+ * by the shares of the amount matched peer-to-peer & on the pool.
+ */
+const toRateSimulation = (
+  side: RateSimulationSide,
+  amount: BigNumber,
+  {
+    p2pAmount,
+    poolAmount,
+    idleAmount,
+  }: Pick<RateSimulation, "p2pAmount" | "poolAmount" | "idleAmount">,
+  poolRates: ReserveRates,
+  p2pRates: Pick<RateSimulation, "p2pSupplyRatePerYear" | "p2pBorrowRatePerYear">
+): RateSimulation => {
+  const [p2pRate, poolRate] =
+    side === "supply"
+      ? [p2pRates.p2pSupplyRatePerYear, poolRates.liquidityRate]
+      : [p2pRates.p2pBorrowRatePerYear, poolRates.variableBorrowRate];
+  const experiencedRatePerYear = p2pRate.mul(p2pAmount).add(poolRate.mul(poolAmount)).div(amount);
+
+  return {
+    side,
+    amount,
+    p2pAmount,
+    poolAmount,
+    idleAmount,
+    experiencedRatePerYear,
+    experiencedApy: aprToApy(experiencedRatePerYear),
+    ...p2pRates,
+    poolSupplyRatePerYear: poolRates.liquidityRate,
+    poolBorrowRatePerYear: poolRates.variableBorrowRate,
+    borrowUsageRatio: poolRates.borrowUsageRatio,
+  };
+};
+
+/**
+ * This function simulates offline the rates of a market after a supply, mirroring Morpho's matching engine:
+ * the amount first matches the borrow delta, then promotes the borrowers on the pool, and the remainder is
+ * supplied to the pool, which must not exceed its supply cap. Liquidity repaid or supplied to the pool lowers its usage,
+ * hence its rates, following the interest rate strategy of the reserve.
+ * The matching engine is assumed to run enough iterations to promote all the borrowers needed.
+ *
+ * @param simulationMarket The Morpho market, its balances on the pool and the rate model of the reserve.
+ * @param amount The amount supplied (in underlying).
+ * @returns The rate experienced by the supplier, along with the peer-to-peer & pool rates after the supply.
+ */
+export const computeSupplyRateSimulation = (
+  { market, indexes, poolBorrowAmount, supplyCapRoom, rateModel }: RateSimulationMarket,
+  amount: BigNumber
+): RateSimulation => {
+  if (amount.isZero()) throw new Error("Cannot simulate the supply of a zero amount");
+
+  const { supply, borrow } = market.deltas;
+  const isP2PEnabled = !isP2PDisabled(market);
+
+  const borrowDelta = WadRayMath.rayMul(borrow.scaledDelta, indexes.borrow.poolIndex);
+  const matchedDelta = isP2PEnabled ? minBN(amount, borrowDelta) : constants.Zero;
+  // The borrowers on the pool hold Morpho's debt on the pool, minus the debt accounting for the delta.
+  const promoted = isP2PEnabled
+    ? minBN(amount.sub(matchedDelta), zeroFloorSub(poolBorrowAmount, borrowDelta))
+    : constants.Zero;
+  const repaid = matchedDelta.add(promoted);
+
+  const poolAmount = amount.sub(repaid);
+  if (poolAmount.gt(supplyCapRoom))
+    throw new Error(
+      `Cannot supply ${amount}, exceeding the supply cap room of the pool ${supplyCapRoom}`
+    );
+
+  const { params, liquidity } = rateModel;
+  const poolRates = computeInterestRates(params, {
+    ...liquidity,
+    availableLiquidity: liquidity.availableLiquidity.add(repaid).add(poolAmount),
+    totalVariableDebt: zeroFloorSub(liquidity.totalVariableDebt, repaid),
+  });
+
+  const p2pRates = computeP2PRates(market, indexes, poolRates, {
+    supplyDelta: supply.scaledDelta,
+    supplyP2PTotal: supply.scaledP2PTotal.add(WadRayMath.rayDiv(repaid, indexes.supply.p2pIndex)),
+    borrowDelta: zeroFloorSub(
+      borrow.scaledDelta,
+      WadRayMath.rayDiv(matchedDelta, indexes.borrow.poolIndex)
+    ),
+    borrowP2PTotal: borrow.scaledP2PTotal.add(WadRayMath.rayDiv(promoted, indexes.borrow.p2pIndex)),
+    idleSupply: market.idleSupply,
+  });
+
+  return toRateSimulation(
+    "supply",
+    amount,
+    { p2pAmount: repaid, poolAmount, idleAmount: constants.Zero },
+    poolRates,
+    p2pRates
+  );
+};
+
+/**
+ * This function simulates offline the rates of a market after a borrow, mirroring Morpho's matching engine:
+ * the amount first matches the idle supply, then the supply delta, then promotes the suppliers on the pool,
+ * and the remainder is borrowed from the pool. Liquidity withdrawn or borrowed from the pool raises its usage,
+ * hence its rates, following the interest rate strategy of the reserve.
+ * The suppliers promoted are bounded by Morpho's supply on the pool, which includes the collateral that can't be promoted,
+ * so the amount matched peer-to-peer may be overestimated.
+ *
+ * @param simulationMarket The Morpho market, its balances on the pool and the rate model of the reserve.
+ * @param amount The amount borrowed (in underlying).
+ * @returns The rate experienced by the borrower, along with the peer-to-peer & pool rates after the borrow.
+ */
+export const computeBorrowRateSimulation = (
+  { market, indexes, poolSupplyAmount, rateModel }: RateSimulationMarket,
+  amount: BigNumber
+): RateSimulation => {
+  if (amount.isZero()) throw new Error("Cannot simulate the borrow of a zero amount");
+
+  const { supply, borrow } = market.deltas;
+  const isP2PEnabled = !isP2PDisabled(market);
+
+  // The idle supply is only matched when peer-to-peer is enabled.
+  const idleAmount = isP2PEnabled ? minBN(amount, market.idleSupply) : constants.Zero;
+  const supplyDelta = WadRayMath.rayMul(supply.scaledDelta, indexes.supply.poolIndex);
+  const matchedDelta = isP2PEnabled ? minBN(amount.sub(idleAmount), supplyDelta) : constants.Zero;
+  // The suppliers on the pool hold Morpho's supply on the pool, minus the supply accounting for the delta.
+  const promoted = isP2PEnabled
+    ? minBN(amount.sub(idleAmount).sub(matchedDelta), zeroFloorSub(poolSupplyAmount, supplyDelta))
+    : constants.Zero;
+  const withdrawn = matchedDelta.add(promoted);
+  const poolAmount = amount.sub(idleAmount).sub(withdrawn);
+
+  const { params, liquidity } = rateModel;
+  if (withdrawn.add(poolAmount).gt(liquidity.availableLiquidity))
+    throw new Error(
+      `Cannot borrow ${amount}, exceeding the liquidity of the pool ${liquidity.availableLiquidity}`
+    );
+
+  const poolRates = computeInterestRates(params, {
+    ...liquidity,
+    availableLiquidity: liquidity.availableLiquidity.sub(withdrawn).sub(poolAmount),
+    totalVariableDebt: liquidity.totalVariableDebt.add(poolAmount),
+  });
+
+  const p2pRates = computeP2PRates(market, indexes, poolRates, {
+    supplyDelta: zeroFloorSub(
+      supply.scaledDelta,
+      WadRayMath.rayDiv(matchedDelta, indexes.supply.poolIndex)
+    ),
+    supplyP2PTotal: supply.scaledP2PTotal.add(WadRayMath.rayDiv(promoted, indexes.supply.p2pIndex)),
+    borrowDelta: borrow.scaledDelta,
+    borrowP2PTotal: borrow.scaledP2PTotal.add(
+      WadRayMath.rayDiv(idleAmount.add(withdrawn), indexes.borrow.p2pIndex)
+    ),
+    idleSupply: market.idleSupply.sub(idleAmount),
+  });
+
+  return toRateSimulation(
+    "borrow",
+    amount,
+    { p2pAmount: idleAmount.add(withdrawn), poolAmount, idleAmount },
+    poolRates,
+    p2pRates
+  );
+};
+
+/**
+ * This function computes the room left below the supply cap of a reserve.
+ *
+ * The supply accrued to the treasury is valued at the updated pool supply index, as in Aave's `validateSupply`.
+ *
+ * @param reserve The reserve data.
+ * @param aTokenSupply The total supply of the aToken (in underlying).
+ * @param poolSupplyIndex The updated pool supply index of the reserve (in ray).
+ * @returns The amount that can still be supplied (in underlying), `constants.MaxUint256` if the reserve has no supply cap.
+ */
+const getSupplyCapRoom = (
+  { configuration, accruedToTreasury }: DataTypes.ReserveDataStructOutput,
+  aTokenSupply: BigNumber,
+  poolSupplyIndex: BigNumber
+) => {
+  const supplyCap = getSupplyCap(configuration.data);
+  if (supplyCap.isZero()) return constants.MaxUint256;
+
+  return zeroFloorSub(
+    supplyCap.mul(pow10(getDecimals(configuration.data))),
+    aTokenSupply.add(WadRayMath.rayMul(accruedToTreasury, poolSupplyIndex))
+  );
+};
+
+/**
+ * This function retrieves the data needed to simulate the rates of a market, read at the same block.
+ *
+ * @param underlying The market to simulate the rates of.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getRateSimulationMarket = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const [{ morphoAaveV3, pool, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [[market], [indexes], [reserve]] = await aggregate(
+    multicall,
+    [
+      { contract: morphoAaveV3, method: "market", args: [underlying] },
+      { contract: morphoAaveV3, method: "updatedIndexes", args: [underlying] },
+      { contract: pool, method: "getReserveData", args: [underlying] },
+    ],
+    blockTag
+  );
+  if (!isCreated(market)) throw new Error(`No market created for ${underlying}`);
+
+  const aToken = ERC20__factory.connect(market.aToken, provider);
+  const [rateModel, [[poolSupplyAmount], [poolBorrowAmount], [aTokenSupply]]] = await Promise.all([
+    getReserveRateModelOf(underlying, reserve, provider, { ...overrides, blockTag }),
+    aggregate(
+      multicall,
+      [
+        { contract: aToken, method: "balanceOf", args: [morphoAaveV3.address] },
+        {
+          contract: ERC20__factory.connect(market.variableDebtToken, provider),
+          method: "balanceOf",
+          args: [morphoAaveV3.address],
+        },
+        { contract: aToken, method: "totalSupply" },
+      ],
+      blockTag
+    ),
+  ]);
+
+  return {
+    blockNumber: blockTag,
+    simulationMarket: {
+      market: market as Types.MarketStructOutput,
+      indexes: indexes as Indexes,
+      poolSupplyAmount: poolSupplyAmount as BigNumber,
+      poolBorrowAmount: poolBorrowAmount as BigNumber,
+      supplyCapRoom: getSupplyCapRoom(reserve, aTokenSupply, indexes.supply.poolIndex),
+      rateModel,
+    },
+  };
+};
+
+/**
+ * This function estimates the rate a user would experience by supplying an amount to a market,
+ * to show "your APY if you deposit X" before supplying for example.
+ *
+ * @param underlying The market to supply to.
+ * @param amount The amount to supply (in underlying).
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The rate & APY experienced by the supplier, along with the peer-to-peer & pool rates after the supply (in ray).
+ */
+export const simulateSupplyRate = async (
+  underlying: string,
+  amount: BigNumber,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserRateSimulation> => {
+  const { blockNumber, simulationMarket } = await getRateSimulationMarket(
+    underlying,
+    provider,
+    overrides
+  );
+
+  return {
+    blockNumber,
+    underlying,
+    ...computeSupplyRateSimulation(simulationMarket, amount),
+  };
+};
+
+/**
+ * This function estimates the rate a user would experience by borrowing an amount from a market,
+ * to show "your APY if you borrow X" before borrowing for example.
+ *
+ * @param underlying The market to borrow from.
+ * @param amount The amount to borrow (in underlying).
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The rate & APY experienced by the borrower, along with the peer-to-peer & pool rates after the borrow (in ray).
+ */
+export const simulateBorrowRate = async (
+  underlying: string,
+  amount: BigNumber,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserRateSimulation> => {
+  const { blockNumber, simulationMarket } = await getRateSimulationMarket(
+    underlying,
+    provider,
+    overrides
+  );
+
+  return {
+    blockNumber,
+    underlying,
+    ...computeBorrowRateSimulation(simulationMarket, amount),
+  };
+};
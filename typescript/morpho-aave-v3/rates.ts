@@ -0,0 +1,228 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+
+import { getUpdatedIndexes } from "./indexes";
+import { getTrueP2PBorrow, getTrueP2PSupply } from "./marketLib";
+import { aprToApy } from "./rateMath";
+import { getMarketsSnapshot } from "./snapshot";
+import { getP2PBorrowRate, getP2PSupplyRate } from "./snippets";
+import {
+  AverageBorrowRates,
+  AverageSupplyRates,
+  Indexes,
+  MarketRatesPerYear,
+  MarketSnapshot,
+  MarketsRatesPerYear,
+  SnippetOverrides,
+} from "./types";
+import { getContracts, resolveBlockTag } from "./utils";
+
+/**
+ * This function computes the rate experienced on average by a set of balances, each earning a given rate.
+ * It rounds each share of the total balance as the Solidity `Utils.weightedRate` does, for the rates to match exactly.
+ *
+ * @param ratesBalances The rates per year (in ray) along with the balances experiencing them.
+ * @returns The average rate per year (in ray).
+ */
+const getAverageRate = (ratesBalances: [BigNumber, BigNumber][]) => {
+  const totalBalance = ratesBalances.reduce((acc, [, balance]) => acc.add(balance), constants.Zero);
+  if (totalBalance.isZero()) return constants.Zero;
+
+  return ratesBalances.reduce(
+    (acc, [rate, balance]) =>
+      balance.isZero()
+        ? acc
+        : acc.add(WadRayMath.rayMul(rate, WadRayMath.rayDiv(balance, totalBalance))),
+    constants.Zero
+  );
+};
+
+/**
+ * This function builds the parameters of the peer-to-peer rates of a market, without any delta.
+ * As in the Solidity `avgBorrowAPR`, the delta is accounted for in the average rate rather than in the peer-to-peer rate.
+ *
+ * @param snapshot The snapshot of the market.
+ */
+const getP2PRateWithoutDeltaParams = ({
+  market: { p2pIndexCursor, reserveFactor },
+  reserve: { currentLiquidityRate, currentVariableBorrowRate },
+}: Pick<MarketSnapshot, "market" | "reserve">) => ({
+  poolSupplyRatePerYear: currentLiquidityRate,
+  poolBorrowRatePerYear: currentVariableBorrowRate,
+  p2pIndexCursor: BigNumber.from(p2pIndexCursor),
+  reserveFactor: BigNumber.from(reserveFactor),
+  proportionIdle: constants.Zero,
+  p2pDelta: constants.Zero,
+  p2pAmount: constants.Zero,
+});
+
+/**
+ * This function computes the average supply rate of a market, weighting the peer-to-peer & pool supply rates
+ * by the amount truly supplied peer-to-peer and the amount supplied on the pool by Morpho.
+ * The idle supply, which earns no interest, is included in the average.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param indexes The updated indexes of the market.
+ * @returns The average, peer-to-peer & pool supply rates per year, along with their APY (in ray).
+ */
+export const computeAverageSupplyRates = (
+  snapshot: Pick<MarketSnapshot, "market" | "reserve" | "poolSupplyAmount">,
+  indexes: Indexes
+): AverageSupplyRates => {
+  const { market, reserve, poolSupplyAmount } = snapshot;
+
+  const p2pSupplyRatePerYear = getP2PSupplyRate({
+    ...getP2PRateWithoutDeltaParams(snapshot),
+    poolIndex: indexes.supply.poolIndex,
+    p2pIndex: indexes.supply.p2pIndex,
+  });
+
+  const avgSupplyRatePerYear = getAverageRate([
+    [p2pSupplyRatePerYear, getTrueP2PSupply(market, indexes)],
+    [reserve.currentLiquidityRate, poolSupplyAmount],
+    [constants.Zero, market.idleSupply],
+  ]);
+
+  return {
+    avgSupplyRatePerYear,
+    p2pSupplyRatePerYear,
+    poolSupplyRatePerYear: reserve.currentLiquidityRate,
+    avgSupplyApy: aprToApy(avgSupplyRatePerYear),
+    p2pSupplyApy: aprToApy(p2pSupplyRatePerYear),
+    poolSupplyApy: aprToApy(reserve.currentLiquidityRate),
+  };
+};
+
+/**
+ * This function computes the average borrow rate of a market, weighting the peer-to-peer & pool borrow rates
+ * by the amount truly borrowed peer-to-peer and the amount borrowed on the pool by Morpho,
+ * as the Solidity `avgBorrowAPR` does.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param indexes The updated indexes of the market.
+ * @returns The average, peer-to-peer & pool borrow rates per year, along with their APY (in ray).
+ */
+export const computeAverageBorrowRates = (
+  snapshot: Pick<MarketSnapshot, "market" | "reserve" | "poolBorrowAmount">,
+  indexes: Indexes
+): AverageBorrowRates => {
+  const { market, reserve, poolBorrowAmount } = snapshot;
+
+  const p2pBorrowRatePerYear = getP2PBorrowRate({
+    ...getP2PRateWithoutDeltaParams(snapshot),
+    poolIndex: indexes.borrow.poolIndex,
+    p2pIndex: indexes.borrow.p2pIndex,
+  });
+
+  const avgBorrowRatePerYear = getAverageRate([
+    [p2pBorrowRatePerYear, getTrueP2PBorrow(market, indexes)],
+    [reserve.currentVariableBorrowRate, poolBorrowAmount],
+  ]);
+
+  return {
+    avgBorrowRatePerYear,
+    p2pBorrowRatePerYear,
+    poolBorrowRatePerYear: reserve.currentVariableBorrowRate,
+    avgBorrowApy: aprToApy(avgBorrowRatePerYear),
+    p2pBorrowApy: aprToApy(p2pBorrowRatePerYear),
+    poolBorrowApy: aprToApy(reserve.currentVariableBorrowRate),
+  };
+};
+
+/**
+ * This function retrieves the average supply rate of a market, along with its peer-to-peer & pool supply rates.
+ *
+ * @param underlying The market to retrieve the supply rates of.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The average, peer-to-peer & pool supply rates per year in _RAY_ units.
+ */
+export const getAverageSupplyRatePerYear = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<AverageSupplyRates> => {
+  const [{ morphoAaveV3, pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [market, reserve, indexes] = await Promise.all([
+    morphoAaveV3.market(underlying, { blockTag }),
+    pool.getReserveData(underlying, { blockTag }),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+  ]);
+  const poolSupplyAmount = await ERC20__factory.connect(market.aToken, provider).balanceOf(
+    morphoAaveV3.address,
+    { blockTag }
+  );
+
+  return computeAverageSupplyRates({ market, reserve, poolSupplyAmount }, indexes);
+};
+
+/**
+ * This function retrieves the average borrow rate of a market, along with its peer-to-peer & pool borrow rates.
+ *
+ * @param underlying The market to retrieve the borrow rates of.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The average, peer-to-peer & pool borrow rates per year in _RAY_ units.
+ */
+export const getAverageBorrowRatePerYear = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<AverageBorrowRates> => {
+  const [{ morphoAaveV3, pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [market, reserve, indexes] = await Promise.all([
+    morphoAaveV3.market(underlying, { blockTag }),
+    pool.getReserveData(underlying, { blockTag }),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+  ]);
+  const poolBorrowAmount = await ERC20__factory.connect(
+    market.variableDebtToken,
+    provider
+  ).balanceOf(morphoAaveV3.address, { blockTag });
+
+  return computeAverageBorrowRates({ market, reserve, poolBorrowAmount }, indexes);
+};
+
+/**
+ * This function retrieves the average, peer-to-peer & pool rates of all the markets created on Morpho,
+ * allowing to compare the rates of Morpho with the native rates of Aave.
+ * All the data is read at the same block.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The supply & borrow rates per year of each market in _RAY_ units, along with the block they were read at.
+ */
+export const getMarketsRatesPerYear = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketsRatesPerYear> => {
+  const { blockNumber, timestamp, markets } = await getMarketsSnapshot(provider, overrides);
+
+  return {
+    blockNumber,
+    timestamp,
+    markets: markets.map((snapshot): MarketRatesPerYear => {
+      const indexes = getUpdatedIndexes(snapshot, timestamp);
+
+      return {
+        underlying: snapshot.underlying,
+        ...computeAverageSupplyRates(snapshot, indexes),
+        ...computeAverageBorrowRates(snapshot, indexes),
+      };
+    }),
+  };
+};
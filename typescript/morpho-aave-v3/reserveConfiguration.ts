@@ -0,0 +1,88 @@
+import { BigNumber } from "ethers";
+
+/**
+ * Decoding of Aave v3's reserve configuration bitmap,
+ * mirroring the ReserveConfiguration library of Aave v3.
+ */
+
+const LIQUIDATION_THRESHOLD_START_BIT_POSITION = 16;
+const LIQUIDATION_BONUS_START_BIT_POSITION = 32;
+const DECIMALS_START_BIT_POSITION = 48;
+const RESERVE_FACTOR_START_BIT_POSITION = 64;
+const BORROW_CAP_START_BIT_POSITION = 80;
+const SUPPLY_CAP_START_BIT_POSITION = 116;
+const EMODE_CATEGORY_START_BIT_POSITION = 168;
+
+const getBits = (configuration: BigNumber, startBitPosition: number, nbBits: number) =>
+  configuration.shr(startBitPosition).mask(nbBits);
+
+/**
+ * This function retrieves the loan to value of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The loan to value (in bps).
+ */
+export const getLtv = (configuration: BigNumber) => getBits(configuration, 0, 16).toNumber();
+
+/**
+ * This function retrieves the liquidation threshold of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The liquidation threshold (in bps).
+ */
+export const getLiquidationThreshold = (configuration: BigNumber) =>
+  getBits(configuration, LIQUIDATION_THRESHOLD_START_BIT_POSITION, 16).toNumber();
+
+/**
+ * This function retrieves the liquidation bonus of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The liquidation bonus (in bps), including the seized collateral itself (e.g. 10500 for a 5% bonus).
+ */
+export const getLiquidationBonus = (configuration: BigNumber) =>
+  getBits(configuration, LIQUIDATION_BONUS_START_BIT_POSITION, 16).toNumber();
+
+/**
+ * This function retrieves the number of decimals of the underlying of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The number of decimals of the underlying.
+ */
+export const getDecimals = (configuration: BigNumber) =>
+  getBits(configuration, DECIMALS_START_BIT_POSITION, 8).toNumber();
+
+/**
+ * This function retrieves the reserve factor of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The reserve factor (in bps).
+ */
+export const getReserveFactor = (configuration: BigNumber) =>
+  getBits(configuration, RESERVE_FACTOR_START_BIT_POSITION, 16).toNumber();
+
+/**
+ * This function retrieves the borrow cap of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The borrow cap (in whole tokens), 0 if the reserve has no borrow cap.
+ */
+export const getBorrowCap = (configuration: BigNumber) =>
+  getBits(configuration, BORROW_CAP_START_BIT_POSITION, 36);
+
+/**
+ * This function retrieves the supply cap of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The supply cap (in whole tokens), 0 if the reserve has no supply cap.
+ */
+export const getSupplyCap = (configuration: BigNumber) =>
+  getBits(configuration, SUPPLY_CAP_START_BIT_POSITION, 36);
+
+/**
+ * This function retrieves the e-mode category of a reserve.
+ *
+ * @param configuration The reserve configuration bitmap.
+ * @returns The id of the e-mode category of the reserve, 0 if the reserve is not in any e-mode category.
+ */
+export const getEModeCategory = (configuration: BigNumber) =>
+  getBits(configuration, EMODE_CATEGORY_START_BIT_POSITION, 8).toNumber();
@@ -0,0 +1,333 @@
+import { BigNumber, Contract, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+import { ERC20__factory, MorphoAaveV3 } from "@morpho-labs/morpho-ethers-contract";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { SECONDS_PER_YEAR, getUpdatedIndexes } from "./indexes";
+import { getTrueP2PBorrow, getTrueP2PSupply } from "./marketLib";
+import { aggregate } from "./multicall";
+import { getMarketsSnapshot } from "./snapshot";
+import {
+  Indexes,
+  MarketRewardsAprs,
+  MarketSnapshot,
+  MarketsRewardsAprs,
+  RewardEmission,
+  SnippetOverrides,
+  UserReward,
+} from "./types";
+import { getContracts, resolveBlockTag } from "./utils";
+
+/** The functions of the Aave v3 RewardsController used to compute the rewards APRs. */
+export const REWARDS_CONTROLLER_ABI = [
+  "function getRewardsByAsset(address asset) view returns (address[])",
+  "function getRewardsData(address asset, address reward) view returns (uint256 index, uint256 emissionPerSecond, uint256 lastUpdateTimestamp, uint256 distributionEnd)",
+  "function getRewardOracle(address reward) view returns (address)",
+];
+
+/** The functions of Morpho's RewardsManager used to retrieve the rewards of a user. */
+export const REWARDS_MANAGER_ABI = [
+  "function REWARDS_CONTROLLER() view returns (address)",
+  "function getAllUserRewards(address[] assets, address user) view returns (address[] rewardsList, uint256[] unclaimedAmounts)",
+];
+
+/** The functions of the price feeds of the rewards registered on the Aave v3 RewardsController. */
+export const REWARD_ORACLE_ABI = [
+  "function latestAnswer() view returns (int256)",
+  "function decimals() view returns (uint8)",
+];
+
+/**
+ * This function computes the APR of a reward emitted on an Aave asset (aToken or variable debt token),
+ * as the value emitted per year over the value of the total supply of the asset.
+ * The price of the reward, with the decimals of its feed, is scaled to the unit of the base currency of the Aave oracle,
+ * both being expected in the same currency.
+ *
+ * @param emission The emission of the reward on the asset.
+ * @param totalSupply The total supply of the asset (in underlying).
+ * @param price The price of the underlying given by the Aave oracle, accounting for Morpho's e-mode category (in base currency).
+ * @param decimals The number of decimals of the underlying.
+ * @param baseCurrencyUnit The unit of the base currency of the Aave oracle (e.g. 1e8 for USD with 8 decimals).
+ * @param timestamp The timestamp at which the APR is computed.
+ * @returns The reward APR (in ray), 0 if the distribution has ended or the asset has no supply.
+ */
+export const computeRewardApr = (
+  {
+    emissionPerSecond,
+    distributionEnd,
+    rewardPrice,
+    rewardPriceDecimals,
+    rewardDecimals,
+  }: RewardEmission,
+  totalSupply: BigNumber,
+  price: BigNumber,
+  decimals: number,
+  baseCurrencyUnit: BigNumber,
+  timestamp: BigNumber
+) => {
+  if (distributionEnd.lte(timestamp) || totalSupply.isZero() || price.isZero())
+    return constants.Zero;
+  if (rewardPrice.lte(0)) return constants.Zero;
+
+  return emissionPerSecond
+    .mul(SECONDS_PER_YEAR)
+    .mul(rewardPrice)
+    .mul(baseCurrencyUnit)
+    .mul(pow10(decimals))
+    .mul(WadRayMath.RAY)
+    .div(totalSupply.mul(price).mul(pow10(rewardDecimals)).mul(pow10(rewardPriceDecimals)));
+};
+
+/**
+ * This function computes the rewards APRs of a market, on the pool & peer-to-peer exposures of Morpho.
+ * Morpho only accrues rewards on the liquidity it supplies to or borrows from the pool:
+ * the liquidity matched peer-to-peer & the idle supply earn no reward.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param indexes The updated indexes of the market.
+ * @param supplyEmissions The rewards emitted on the aToken of the market.
+ * @param borrowEmissions The rewards emitted on the variable debt token of the market.
+ * @param aTokenSupply The total supply of the aToken of the market (in underlying).
+ * @param debtTokenSupply The total supply of the variable debt token of the market (in underlying).
+ * @param baseCurrencyUnit The unit of the base currency of the Aave oracle.
+ * @param timestamp The timestamp at which the APRs are computed.
+ */
+export const computeMarketRewardsAprs = (
+  snapshot: MarketSnapshot,
+  indexes: Indexes,
+  supplyEmissions: RewardEmission[],
+  borrowEmissions: RewardEmission[],
+  aTokenSupply: BigNumber,
+  debtTokenSupply: BigNumber,
+  baseCurrencyUnit: BigNumber,
+  timestamp: BigNumber
+): MarketRewardsAprs => {
+  const { underlying, market, price, decimals, poolSupplyAmount, poolBorrowAmount } = snapshot;
+
+  const toRewardsAprs = (emissions: RewardEmission[], totalSupply: BigNumber) =>
+    emissions.map((emission) => ({
+      reward: emission.reward,
+      apr: computeRewardApr(emission, totalSupply, price, decimals, baseCurrencyUnit, timestamp),
+    }));
+
+  const supplyRewards = toRewardsAprs(supplyEmissions, aTokenSupply);
+  const borrowRewards = toRewardsAprs(borrowEmissions, debtTokenSupply);
+
+  const poolSupplyRewardsApr = supplyRewards.reduce((acc, { apr }) => acc.add(apr), constants.Zero);
+  const poolBorrowRewardsApr = borrowRewards.reduce((acc, { apr }) => acc.add(apr), constants.Zero);
+
+  const totalSupply = getTrueP2PSupply(market, indexes)
+    .add(poolSupplyAmount)
+    .add(market.idleSupply);
+  const totalBorrow = getTrueP2PBorrow(market, indexes).add(poolBorrowAmount);
+
+  return {
+    underlying,
+    supplyRewards,
+    borrowRewards,
+    poolSupplyRewardsApr,
+    p2pSupplyRewardsApr: constants.Zero,
+    avgSupplyRewardsApr: totalSupply.isZero()
+      ? constants.Zero
+      : poolSupplyRewardsApr.mul(poolSupplyAmount).div(totalSupply),
+    poolBorrowRewardsApr,
+    p2pBorrowRewardsApr: constants.Zero,
+    avgBorrowRewardsApr: totalBorrow.isZero()
+      ? constants.Zero
+      : poolBorrowRewardsApr.mul(poolBorrowAmount).div(totalBorrow),
+  };
+};
+
+/**
+ * This function connects Morpho's RewardsManager, if any is set.
+ *
+ * @param morphoAaveV3 The Morpho Aave v3 contract instance.
+ * @param provider A provider instance
+ * @param blockTag The block at which the RewardsManager is read.
+ */
+const getRewardsManager = async (
+  morphoAaveV3: MorphoAaveV3,
+  provider: providers.BaseProvider,
+  blockTag: number
+) => {
+  const rewardsManager = await morphoAaveV3.rewardsManager({ blockTag });
+  if (rewardsManager === constants.AddressZero) return;
+
+  return new Contract(rewardsManager, REWARDS_MANAGER_ABI, provider);
+};
+
+/**
+ * This function retrieves the rewards APRs of all the markets created on Morpho, computed from the emissions
+ * of the Aave v3 RewardsController on each aToken & variable debt token, valued with the reward oracles of the controller.
+ * All the data is read at the same block.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The rewards APRs of each market in _RAY_ units, per reward and in total, on the pool & peer-to-peer exposures.
+ */
+export const getMarketsRewardsAprs = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketsRewardsAprs> => {
+  const [{ morphoAaveV3, multicall }, snapshot] = await Promise.all([
+    getContracts(provider, overrides),
+    getMarketsSnapshot(provider, overrides),
+  ]);
+  const { blockNumber, timestamp, baseCurrencyUnit, markets } = snapshot;
+
+  const rewardsManager = await getRewardsManager(morphoAaveV3, provider, blockNumber);
+  if (rewardsManager == null) return { blockNumber, timestamp, markets: [] };
+
+  const rewardsController = new Contract(
+    await rewardsManager.REWARDS_CONTROLLER({ blockTag: blockNumber }),
+    REWARDS_CONTROLLER_ABI,
+    provider
+  );
+
+  const assets = markets.flatMap(({ market: { aToken, variableDebtToken } }) => [
+    aToken,
+    variableDebtToken,
+  ]);
+
+  const assetsResults = await aggregate(
+    multicall,
+    assets.flatMap((asset) => [
+      { contract: rewardsController, method: "getRewardsByAsset", args: [asset] },
+      { contract: ERC20__factory.connect(asset, provider), method: "totalSupply" },
+    ]),
+    blockNumber
+  );
+  const assetsRewards = assets.map((asset, i) => ({
+    asset,
+    rewards: assetsResults[2 * i][0] as string[],
+    totalSupply: assetsResults[2 * i + 1][0] as BigNumber,
+  }));
+
+  const rewards = [...new Set(assetsRewards.flatMap(({ rewards }) => rewards))];
+  const emissionPairs = assetsRewards.flatMap(({ asset, rewards }) =>
+    rewards.map((reward) => ({ asset, reward }))
+  );
+
+  const [rewardsResults, emissionsResults] = await Promise.all([
+    aggregate(
+      multicall,
+      rewards.flatMap((reward) => [
+        { contract: rewardsController, method: "getRewardOracle", args: [reward] },
+        { contract: ERC20__factory.connect(reward, provider), method: "decimals" },
+      ]),
+      blockNumber
+    ),
+    aggregate(
+      multicall,
+      emissionPairs.map(({ asset, reward }) => ({
+        contract: rewardsController,
+        method: "getRewardsData",
+        args: [asset, reward],
+      })),
+      blockNumber
+    ),
+  ]);
+
+  const pricesResults = await aggregate(
+    multicall,
+    rewards.flatMap((_, i) => {
+      const rewardOracle = new Contract(rewardsResults[2 * i][0], REWARD_ORACLE_ABI, provider);
+
+      return [
+        { contract: rewardOracle, method: "latestAnswer" },
+        { contract: rewardOracle, method: "decimals" },
+      ];
+    }),
+    blockNumber
+  );
+  const emissions = emissionPairs.map(
+    ({ asset, reward }, i): RewardEmission & { asset: string } => {
+      const { emissionPerSecond, distributionEnd } = emissionsResults[i];
+      const rewardIndex = rewards.indexOf(reward);
+
+      return {
+        asset,
+        reward,
+        emissionPerSecond,
+        distributionEnd,
+        rewardPrice: pricesResults[2 * rewardIndex][0] as BigNumber,
+        rewardPriceDecimals: pricesResults[2 * rewardIndex + 1][0] as number,
+        rewardDecimals: rewardsResults[2 * rewardIndex + 1][0] as number,
+      };
+    }
+  );
+
+  return {
+    blockNumber,
+    timestamp,
+    markets: markets.map((marketSnapshot, i) => {
+      const { market } = marketSnapshot;
+      const [aTokenRewards, debtTokenRewards] = assetsRewards.slice(2 * i, 2 * (i + 1));
+
+      return computeMarketRewardsAprs(
+        marketSnapshot,
+        getUpdatedIndexes(marketSnapshot, timestamp),
+        emissions.filter(({ asset }) => asset === market.aToken),
+        emissions.filter(({ asset }) => asset === market.variableDebtToken),
+        aTokenRewards.totalSupply,
+        debtTokenRewards.totalSupply,
+        baseCurrencyUnit,
+        timestamp
+      );
+    }),
+  };
+};
+
+/**
+ * This function retrieves the rewards accrued by a user on Morpho and not claimed yet,
+ * over all the aTokens & variable debt tokens of the markets created on Morpho.
+ *
+ * @param user The user address.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The unclaimed amount of each reward.
+ */
+export const getUserUnclaimedRewards = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserReward[]> => {
+  const [{ morphoAaveV3, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [rewardsManager, underlyings] = await Promise.all([
+    getRewardsManager(morphoAaveV3, provider, blockTag),
+    morphoAaveV3.marketsCreated({ blockTag }),
+  ]);
+  if (rewardsManager == null) return [];
+
+  const marketsResults = await aggregate(
+    multicall,
+    underlyings.map((underlying) => ({
+      contract: morphoAaveV3,
+      method: "market",
+      args: [underlying],
+    })),
+    blockTag
+  );
+  const assets = marketsResults.flatMap(([market]) => [
+    (market as Types.MarketStructOutput).aToken,
+    (market as Types.MarketStructOutput).variableDebtToken,
+  ]);
+
+  const { rewardsList, unclaimedAmounts } = await rewardsManager.getAllUserRewards(assets, user, {
+    blockTag,
+  });
+
+  return (rewardsList as string[]).map((reward, i) => ({
+    reward,
+    amount: unclaimedAmounts[i] as BigNumber,
+  }));
+};
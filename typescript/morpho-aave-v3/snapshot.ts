@@ -0,0 +1,135 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { ERC20__factory } from "@morpho-labs/morpho-ethers-contract";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { aggregate } from "./multicall";
+import {
+  getDecimals,
+  getEModeCategory,
+  getLiquidationBonus,
+  getLiquidationThreshold,
+  getLtv,
+} from "./reserveConfiguration";
+import { MarketsSnapshot, SnippetOverrides } from "./types";
+import { getContracts, getEModeAwarePrice, isInEMode, resolveBlockTag } from "./utils";
+
+/**
+ * This function retrieves, in a few Multicall3 calls, the data of all the markets created on Morpho:
+ * the Morpho market, the Aave reserve data, the underlying price & decimals and the pool balances of Morpho,
+ * along with the unit of the oracle's base currency.
+ * The prices account for the e-mode category of Morpho, as in `getAssetPrice`.
+ * All the data is read at the same block.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The snapshot of all the markets, along with the block number and timestamp it was taken at.
+ */
+export const getMarketsSnapshot = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketsSnapshot> => {
+  const [{ morphoAaveV3, oracle, pool, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+  const [underlyings, eModeCategoryId] = await Promise.all([
+    morphoAaveV3.marketsCreated({ blockTag }),
+    morphoAaveV3.eModeCategoryId({ blockTag }),
+  ]);
+  const hasEMode = !eModeCategoryId.isZero();
+
+  const [[timestamp], [baseCurrencyUnit], ...marketsResults] = await aggregate(
+    multicall,
+    [
+      { contract: multicall, method: "getCurrentBlockTimestamp" },
+      { contract: oracle, method: "BASE_CURRENCY_UNIT" },
+      ...underlyings.flatMap((underlying) => [
+        { contract: morphoAaveV3, method: "market", args: [underlying] },
+        { contract: pool, method: "getReserveData", args: [underlying] },
+        { contract: oracle, method: "getAssetPrice", args: [underlying] },
+      ]),
+      ...(hasEMode
+        ? [{ contract: pool, method: "getEModeCategoryData", args: [eModeCategoryId] }]
+        : []),
+    ],
+    blockTag
+  );
+
+  const eModeCategory = hasEMode
+    ? (marketsResults[3 * underlyings.length][0] as DataTypes.EModeCategoryStructOutput)
+    : undefined;
+  const priceSource = eModeCategory?.priceSource ?? constants.AddressZero;
+  const hasPriceSource = priceSource !== constants.AddressZero;
+
+  const marketsData = underlyings.map((underlying, i) => {
+    const [[market], [reserve], [price]] = marketsResults.slice(3 * i, 3 * (i + 1));
+
+    return {
+      underlying,
+      market: market as Types.MarketStructOutput,
+      reserve: reserve as DataTypes.ReserveDataStructOutput,
+      assetPrice: price as BigNumber,
+      decimals: getDecimals(reserve.configuration.data),
+      inEMode: isInEMode(eModeCategoryId, getEModeCategory(reserve.configuration.data)),
+    };
+  });
+
+  const balancesResults = await aggregate(
+    multicall,
+    [
+      ...marketsData.flatMap(({ market: { aToken, variableDebtToken } }) => [
+        {
+          contract: ERC20__factory.connect(aToken, provider),
+          method: "balanceOf",
+          args: [morphoAaveV3.address],
+        },
+        {
+          contract: ERC20__factory.connect(variableDebtToken, provider),
+          method: "balanceOf",
+          args: [morphoAaveV3.address],
+        },
+      ]),
+      ...(hasPriceSource
+        ? [{ contract: oracle, method: "getAssetPrice", args: [priceSource] }]
+        : []),
+    ],
+    blockTag
+  );
+
+  const eModePrice = hasPriceSource
+    ? (balancesResults[2 * marketsData.length][0] as BigNumber)
+    : undefined;
+
+  return {
+    blockNumber: blockTag,
+    timestamp: timestamp as BigNumber,
+    baseCurrencyUnit: baseCurrencyUnit as BigNumber,
+    eModeCategoryId,
+    eModeCategory,
+    markets: marketsData.map(({ assetPrice, inEMode, ...marketData }, i) => {
+      const [[poolSupplyAmount], [poolBorrowAmount]] = balancesResults.slice(2 * i, 2 * (i + 1));
+      const { data } = marketData.reserve.configuration;
+      // The e-mode category's parameters replace the reserve's ones for assets of the category.
+      const eModeParams = inEMode ? eModeCategory : undefined;
+      // Mirrors `_assetLiquidityData`: Morpho disables as collateral the assets with a LTV of 0 on Aave,
+      // zeroing their liquidation threshold, even in e-mode.
+      const isCollateral = getLtv(data) !== 0;
+
+      return {
+        ...marketData,
+        price: inEMode ? getEModeAwarePrice(assetPrice, eModePrice) : assetPrice,
+        ltv: isCollateral ? eModeParams?.ltv ?? getLtv(data) : 0,
+        liquidationThreshold: isCollateral
+          ? eModeParams?.liquidationThreshold ?? getLiquidationThreshold(data)
+          : 0,
+        liquidationBonus: eModeParams?.liquidationBonus ?? getLiquidationBonus(data),
+        poolSupplyAmount: poolSupplyAmount as BigNumber,
+        poolBorrowAmount: poolBorrowAmount as BigNumber,
+      };
+    }),
+  };
+};
@@ -2,81 +2,117 @@ import { BigNumber, providers } from "ethers";
 import { constants } from "ethers/lib/index";
 
 import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
-import { minBN, pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+import { minBN } from "@morpho-labs/ethers-utils/lib/utils";
 import { AToken__factory, VariableDebtToken__factory } from "@morpho-labs/morpho-ethers-contract";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
+
+import { computeIndexes, getUpdatedIndexes } from "./indexes";
+import {
+  getMarketStatusOf,
+  getProportionIdle,
+  getTrueP2PBorrow,
+  getTrueP2PSupply,
+} from "./marketLib";
+import { aggregate } from "./multicall";
+import { aprToApy } from "./rateMath";
+import { getEModeCategory } from "./reserveConfiguration";
+import { getMarketsSnapshot } from "./snapshot";
+import {
+  Amount,
+  BorrowRatesPerYear,
+  Indexes,
+  MarketBorrow,
+  MarketBorrowTotals,
+  MarketSnapshot,
+  MarketStatus,
+  MarketSupply,
+  MarketSupplyTotals,
+  P2PRateComputeParams,
+  RatesPerYear,
+  SnippetOverrides,
+  SupplyRatesPerYear,
+  TotalBorrow,
+  TotalSupply,
+  UserBalance,
+  UserRatePerYear,
+} from "./types";
+import {
+  getContracts,
+  getEModeAwarePrice,
+  getWeightedAvg,
+  getWeightedRate,
+  isInEMode,
+  resolveBlockTag,
+  zeroFloorSub,
+} from "./utils";
+import { USD_DECIMALS, convertAmount, sumAmounts, toUnderlyingAmount } from "./valuation";
 
-import { P2PRateComputeParams } from "./types";
-import { getContracts, getWeightedAvg, getWeightedRate, zeroFloorSub } from "./utils";
+/**
+ * This function values the amounts of each market in USD and sums them.
+ *
+ * @param markets The amounts of each market (in underlying), along with the price & decimals of their underlying.
+ * @param getAmount The function picking the amount to value from the amounts of a market.
+ * @param baseCurrencyUnit The unit of the base currency of the oracle.
+ */
+const getTotalUsd = <T extends { underlyingPrice: BigNumber; decimals: number }>(
+  markets: T[],
+  getAmount: (market: T) => Amount,
+  baseCurrencyUnit: BigNumber
+) =>
+  sumAmounts(
+    markets.map((market) =>
+      convertAmount(getAmount(market), "usd", {
+        price: market.underlyingPrice,
+        decimals: market.decimals,
+        baseCurrencyUnit,
+      })
+    ),
+    "usd",
+    USD_DECIMALS
+  );
 
 /**
  * This function retrieves the total supply over the Morpho Aave v3
  * markets for both collateral and supply only.
  *
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The amounts supplied on each market (in underlying) and their total value over all the markets (in USD).
  */
-export const getTotalSupply = async (provider: providers.BaseProvider) => {
-  const { oracle, morphoAaveV3 } = getContracts(provider);
-  const markets = await morphoAaveV3.marketsCreated();
-  const marketsData = await Promise.all(
-    markets.map(async (underlying) => {
-      const [
-        {
-          aToken: aTokenAddress,
-          indexes: {
-            supply: { p2pIndex, poolIndex },
-          },
-          deltas: {
-            supply: { scaledDelta, scaledP2PTotal },
-          },
-          idleSupply,
-        },
-        underlyingPrice,
-      ] = await Promise.all([
-        morphoAaveV3.market(underlying),
-        oracle.getAssetPrice(underlying), // TODO: handle if emode
-      ]);
-
-      const aToken = AToken__factory.connect(aTokenAddress, provider);
-
-      const [decimals, poolSupplyAmount] = await Promise.all([
-        aToken.decimals(),
-        aToken.balanceOf(morphoAaveV3.address),
-      ]);
-
-      const p2pSupplyAmount = zeroFloorSub(
-        WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
-        WadRayMath.rayMul(scaledDelta, poolIndex)
-      );
-
-      return {
-        p2pSupplyAmount,
-        poolSupplyAmount,
-        idleSupply,
-        underlyingPrice,
-        decimals,
-      };
-    })
+export const getTotalSupply = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TotalSupply> => {
+  const { blockNumber, timestamp, baseCurrencyUnit, markets } = await getMarketsSnapshot(
+    provider,
+    overrides
   );
 
-  const amounts = marketsData.reduce(
-    (acc, { p2pSupplyAmount, poolSupplyAmount, idleSupply, underlyingPrice, decimals }) => {
-      const toUsd = (amount: BigNumber) => amount.mul(underlyingPrice).div(pow10(decimals));
-      return {
-        p2pSupplyAmount: acc.p2pSupplyAmount.add(toUsd(p2pSupplyAmount)),
-        poolSupplyAmount: acc.poolSupplyAmount.add(toUsd(poolSupplyAmount)),
-        idleSupply: acc.idleSupply.add(toUsd(idleSupply)),
-      };
-    },
-    {
-      p2pSupplyAmount: constants.Zero,
-      poolSupplyAmount: constants.Zero,
-      idleSupply: constants.Zero,
-    }
-  );
+  const marketsData = markets.map((snapshot): MarketSupply => {
+    const { underlying, market, poolSupplyAmount, price: underlyingPrice, decimals } = snapshot;
+    const p2pSupplyAmount = getTrueP2PSupply(market, getUpdatedIndexes(snapshot, timestamp));
+
+    return {
+      underlying,
+      underlyingPrice,
+      decimals,
+      p2pSupplyAmount: toUnderlyingAmount(p2pSupplyAmount, decimals),
+      poolSupplyAmount: toUnderlyingAmount(poolSupplyAmount, decimals),
+      idleSupply: toUnderlyingAmount(market.idleSupply, decimals),
+      totalSupplyAmount: toUnderlyingAmount(
+        p2pSupplyAmount.add(poolSupplyAmount).add(market.idleSupply),
+        decimals
+      ),
+    };
+  });
 
   return {
-    ...amounts,
-    totalSupplyAmount: amounts.poolSupplyAmount.add(amounts.p2pSupplyAmount),
+    blockNumber,
+    p2pSupplyAmount: getTotalUsd(marketsData, (data) => data.p2pSupplyAmount, baseCurrencyUnit),
+    poolSupplyAmount: getTotalUsd(marketsData, (data) => data.poolSupplyAmount, baseCurrencyUnit),
+    idleSupply: getTotalUsd(marketsData, (data) => data.idleSupply, baseCurrencyUnit),
+    totalSupplyAmount: getTotalUsd(marketsData, (data) => data.totalSupplyAmount, baseCurrencyUnit),
     markets: marketsData,
   };
 };
@@ -85,101 +121,102 @@ export const getTotalSupply = async (provider: providers.BaseProvider) => {
  * This function retrieves the total borrow over the Morpho Aave v3
  *
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The amounts borrowed on each market (in underlying) and their total value over all the markets (in USD).
  */
-export const getTotalBorrow = async (provider: providers.BaseProvider) => {
-  const { oracle, morphoAaveV3 } = getContracts(provider);
-  const markets = await morphoAaveV3.marketsCreated();
-
-  const marketsData = await Promise.all(
-    markets.map(async (underlying) => {
-      const [
-        {
-          variableDebtToken,
-          indexes: {
-            borrow: { p2pIndex, poolIndex },
-          },
-          deltas: {
-            borrow: { scaledDelta, scaledP2PTotal },
-          },
-        },
-        underlyingPrice,
-      ] = await Promise.all([
-        morphoAaveV3.market(underlying),
-        oracle.getAssetPrice(underlying), // TODO: handle if emode
-      ]);
-
-      const debtToken = VariableDebtToken__factory.connect(variableDebtToken, provider);
-
-      const [decimals, poolBorrowAmount] = await Promise.all([
-        debtToken.decimals(),
-        debtToken.balanceOf(morphoAaveV3.address),
-      ]);
-
-      const p2pBorrowAmount = zeroFloorSub(
-        WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
-        WadRayMath.rayMul(scaledDelta, poolIndex)
-      );
-
-      return {
-        p2pBorrowAmount,
-        poolBorrowAmount,
-        underlyingPrice,
-        decimals,
-      };
-    })
+export const getTotalBorrow = async (
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TotalBorrow> => {
+  const { blockNumber, timestamp, baseCurrencyUnit, markets } = await getMarketsSnapshot(
+    provider,
+    overrides
   );
 
-  const amounts = marketsData.reduce(
-    (acc, { p2pBorrowAmount, poolBorrowAmount, underlyingPrice, decimals }) => {
-      const toUsd = (amount: BigNumber) => amount.mul(underlyingPrice).div(pow10(decimals));
-      return {
-        p2pBorrowAmount: acc.p2pBorrowAmount.add(toUsd(p2pBorrowAmount)),
-        poolBorrowAmount: acc.poolBorrowAmount.add(toUsd(poolBorrowAmount)),
-      };
-    },
-    {
-      p2pBorrowAmount: constants.Zero,
-      poolBorrowAmount: constants.Zero,
-    }
-  );
+  const marketsData = markets.map((snapshot): MarketBorrow => {
+    const { underlying, market, poolBorrowAmount, price: underlyingPrice, decimals } = snapshot;
+    const p2pBorrowAmount = getTrueP2PBorrow(market, getUpdatedIndexes(snapshot, timestamp));
+
+    return {
+      underlying,
+      underlyingPrice,
+      decimals,
+      p2pBorrowAmount: toUnderlyingAmount(p2pBorrowAmount, decimals),
+      poolBorrowAmount: toUnderlyingAmount(poolBorrowAmount, decimals),
+      totalBorrowAmount: toUnderlyingAmount(p2pBorrowAmount.add(poolBorrowAmount), decimals),
+    };
+  });
 
   return {
-    ...amounts,
-    totalSupplyAmount: amounts.poolBorrowAmount.add(amounts.p2pBorrowAmount),
+    blockNumber,
+    p2pBorrowAmount: getTotalUsd(marketsData, (data) => data.p2pBorrowAmount, baseCurrencyUnit),
+    poolBorrowAmount: getTotalUsd(marketsData, (data) => data.poolBorrowAmount, baseCurrencyUnit),
+    totalBorrowAmount: getTotalUsd(marketsData, (data) => data.totalBorrowAmount, baseCurrencyUnit),
     markets: marketsData,
   };
 };
 
+/**
+ * This function retrieves a Morpho market, along with its indexes updated at the block read,
+ * as Morpho's `updatedIndexes`.
+ *
+ * @param underlying The address of the underlying token
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getUpdatedMarket = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const [{ morphoAaveV3, pool, multicall }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [[market], [reserve], [timestamp]] = await aggregate(
+    multicall,
+    [
+      { contract: morphoAaveV3, method: "market", args: [underlying] },
+      { contract: pool, method: "getReserveData", args: [underlying] },
+      { contract: multicall, method: "getCurrentBlockTimestamp" },
+    ],
+    blockTag
+  );
+
+  return {
+    morphoAaveV3,
+    blockTag,
+    market: market as Types.MarketStructOutput,
+    indexes: computeIndexes(market, reserve, timestamp),
+  };
+};
+
 /**
  * This function gets the total supply for one given market.
  *
  * @param underlying The address of the underlying token
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  */
 export const getTotalMarketSupply = async (
   underlying: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3 } = getContracts(provider);
-  const {
-    aToken: aTokenAddress,
-    indexes: {
-      supply: { p2pIndex, poolIndex },
-    },
-    deltas: {
-      supply: { scaledDelta, scaledP2PTotal },
-    },
-    idleSupply,
-  } = await morphoAaveV3.market(underlying);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketSupplyTotals> => {
+  const { morphoAaveV3, blockTag, market, indexes } = await getUpdatedMarket(
+    underlying,
+    provider,
+    overrides
+  );
+  const { aToken: aTokenAddress, idleSupply } = market;
 
   const aToken = AToken__factory.connect(aTokenAddress, provider);
 
-  const poolSupplyAmount = await aToken.balanceOf(morphoAaveV3.address);
+  const poolSupplyAmount = await aToken.balanceOf(morphoAaveV3.address, { blockTag });
 
-  const p2pSupplyAmount = zeroFloorSub(
-    WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
-    WadRayMath.rayMul(scaledDelta, poolIndex)
-  );
+  const p2pSupplyAmount = getTrueP2PSupply(market, indexes);
   return {
     p2pSupplyAmount,
     poolSupplyAmount,
@@ -193,31 +230,24 @@ export const getTotalMarketSupply = async (
  *
  * @param underlying The address of the underlying token
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  */
 export const getTotalMarketBorrow = async (
   underlying: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3 } = getContracts(provider);
-
-  const {
-    variableDebtToken,
-    indexes: {
-      borrow: { p2pIndex, poolIndex },
-    },
-    deltas: {
-      borrow: { scaledDelta, scaledP2PTotal },
-    },
-  } = await morphoAaveV3.market(underlying);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketBorrowTotals> => {
+  const { morphoAaveV3, blockTag, market, indexes } = await getUpdatedMarket(
+    underlying,
+    provider,
+    overrides
+  );
 
-  const aToken = VariableDebtToken__factory.connect(variableDebtToken, provider);
+  const aToken = VariableDebtToken__factory.connect(market.variableDebtToken, provider);
 
-  const poolBorrowAmount = await aToken.balanceOf(morphoAaveV3.address);
+  const poolBorrowAmount = await aToken.balanceOf(morphoAaveV3.address, { blockTag });
 
-  const p2pBorrowAmount = zeroFloorSub(
-    WadRayMath.rayMul(scaledP2PTotal, p2pIndex),
-    WadRayMath.rayMul(scaledDelta, poolIndex)
-  );
+  const p2pBorrowAmount = getTrueP2PBorrow(market, indexes);
 
   return {
     p2pBorrowAmount,
@@ -232,15 +262,20 @@ export const getTotalMarketBorrow = async (
  * @param underlying The market to retrieve the supplied liquidity.
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
  * @returns The matched peer-to-peer amount, the pool amount and the total supply amount.
  */
 export const getCurrentSupplyBalanceInOf = async (
   underlying: string,
   user: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3 } = getContracts(provider);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserBalance> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
 
   const [
     {
@@ -249,9 +284,9 @@ export const getCurrentSupplyBalanceInOf = async (
     scaledP2PSupplyBalance,
     scaledPoolSupplyBalance,
   ] = await Promise.all([
-    morphoAaveV3.updatedIndexes(underlying),
-    morphoAaveV3.scaledP2PSupplyBalance(underlying, user),
-    morphoAaveV3.scaledPoolSupplyBalance(underlying, user),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+    morphoAaveV3.scaledP2PSupplyBalance(underlying, user, { blockTag }),
+    morphoAaveV3.scaledPoolSupplyBalance(underlying, user, { blockTag }),
   ]);
 
   const balanceInP2P = WadRayMath.rayMul(scaledP2PSupplyBalance, p2pIndex);
@@ -270,16 +305,22 @@ export const getCurrentSupplyBalanceInOf = async (
  * @param underlying The market to retrieve the collateral amount.
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
  * @returns The total collateral of the user.
  */
 export const getCurrentCollateralBalanceInOf = async (
   underlying: string,
   user: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3 } = getContracts(provider);
-  return morphoAaveV3.collateralBalance(underlying, user);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BigNumber> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  return morphoAaveV3.collateralBalance(underlying, user, { blockTag });
 };
 
 /**
@@ -288,15 +329,20 @@ export const getCurrentCollateralBalanceInOf = async (
  * @param underlying The market to retrieve the borrowed liquidity.
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
  * @returns The matched peer-to-peer amount, the pool amount and the total borrow amount.
  */
 export const getCurrentBorrowBalanceInOf = async (
   underlying: string,
   user: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3 } = getContracts(provider);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserBalance> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
 
   const [
     {
@@ -305,9 +351,9 @@ export const getCurrentBorrowBalanceInOf = async (
     scaledP2PSupplyBalance,
     scaledPoolSupplyBalance,
   ] = await Promise.all([
-    morphoAaveV3.updatedIndexes(underlying),
-    morphoAaveV3.scaledP2PBorrowBalance(underlying, user),
-    morphoAaveV3.scaledPoolBorrowBalance(underlying, user),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+    morphoAaveV3.scaledP2PBorrowBalance(underlying, user, { blockTag }),
+    morphoAaveV3.scaledPoolBorrowBalance(underlying, user, { blockTag }),
   ]);
 
   const balanceInP2P = WadRayMath.rayMul(scaledP2PSupplyBalance, p2pIndex);
@@ -321,97 +367,148 @@ export const getCurrentBorrowBalanceInOf = async (
 };
 
 /**
- * This function retrieves the supply APY of a user on a given market.
+ * This function retrieves the supply APR of a user on a given market.
  *
- * @param underlying The market to retrieve the supply APY.
+ * @param underlying The market to retrieve the supply APR.
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
- * @returns The experienced rate and the total balance of the deposited liquidity on this market.
+ * @returns The experienced rate (APR) and its APY compounded every second, along with the total balance of the deposited liquidity on this market.
  */
 export const getCurrentUserSupplyRatePerYear = async (
   underlying: string,
   user: string,
-  provider: providers.BaseProvider
-) => {
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserRatePerYear> => {
+  const pinnedOverrides = { ...overrides, blockTag: await resolveBlockTag(provider, overrides) };
+
   const [{ balanceInP2P, balanceOnPool }, balanceIdle, { p2pSupplyRate, poolSupplyRate }] =
     await Promise.all([
-      getCurrentSupplyBalanceInOf(underlying, user, provider),
-      getCurrentCollateralBalanceInOf(underlying, user, provider),
-      getSupplyRatesPerYear(underlying, provider),
+      getCurrentSupplyBalanceInOf(underlying, user, provider, pinnedOverrides),
+      getCurrentCollateralBalanceInOf(underlying, user, provider, pinnedOverrides),
+      getSupplyRatesPerYear(underlying, provider, pinnedOverrides),
     ]);
 
   const poolAmount = balanceIdle.add(balanceOnPool);
 
-  return getWeightedRate(p2pSupplyRate, poolSupplyRate, balanceInP2P, poolAmount);
+  const { weightedRate, totalBalance } = getWeightedRate(
+    p2pSupplyRate,
+    poolSupplyRate,
+    balanceInP2P,
+    poolAmount
+  );
+
+  return { weightedRate, weightedApy: aprToApy(weightedRate), totalBalance };
 };
 
 /**
- * This function retrieves the borrow APY of a user on a given market and returns the result.
+ * This function retrieves the borrow APR of a user on a given market and returns the result.
  *
- * @param underlying The market to retrieve the borrow APY.
+ * @param underlying The market to retrieve the borrow APR.
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
- * @returns The experienced rate and the total balance of the borrowed liquidity on this market.
+ * @returns The experienced rate (APR) and its APY compounded every second, along with the total balance of the borrowed liquidity on this market.
  */
 export const getCurrentUserBorrowRatePerYear = async (
   underlying: string,
   user: string,
-  provider: providers.BaseProvider
-) => {
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<UserRatePerYear> => {
+  const pinnedOverrides = { ...overrides, blockTag: await resolveBlockTag(provider, overrides) };
+
   const [{ balanceOnPool, balanceInP2P }, { p2pBorrowRate, poolBorrowRate }] = await Promise.all([
-    getCurrentBorrowBalanceInOf(underlying, user, provider),
-    getBorrowRatesPerYear(underlying, provider),
+    getCurrentBorrowBalanceInOf(underlying, user, provider, pinnedOverrides),
+    getBorrowRatesPerYear(underlying, provider, pinnedOverrides),
   ]);
 
-  return getWeightedRate(p2pBorrowRate, poolBorrowRate, balanceInP2P, balanceOnPool);
+  const { weightedRate, totalBalance } = getWeightedRate(
+    p2pBorrowRate,
+    poolBorrowRate,
+    balanceInP2P,
+    balanceOnPool
+  );
+
+  return { weightedRate, weightedApy: aprToApy(weightedRate), totalBalance };
 };
 
 /**
- * This function compute the P2P supply rate and returns the result.
+ * This function computes the proportion of the peer-to-peer amount that is actually on the pool because of the delta,
+ * mirroring the Solidity `Utils` library.
+ *
+ * @param params The parameters inheriting of the P2PRateComputeParams interface allowing the computation.
+ * @param maxProportionDelta The upper bound of the proportion, to avoid exceeding it with rounding errors (in ray).
+ * @returns The proportion of the delta (in ray).
+ */
+const getProportionDelta = (
+  { poolIndex, p2pIndex, p2pDelta, p2pAmount }: P2PRateComputeParams,
+  maxProportionDelta: BigNumber
+) =>
+  minBN(
+    // Using ray division of an amount in underlying decimals by an amount in underlying decimals yields a value in ray.
+    WadRayMath.rayDivUp(
+      WadRayMath.rayMul(p2pDelta, poolIndex),
+      WadRayMath.rayMul(p2pAmount, p2pIndex)
+    ),
+    maxProportionDelta
+  );
+
+/**
+ * This function computes the peer-to-peer rate on which the supply & borrow rates are based, before the reserve factor and the delta are applied.
  *
  * @param params The parameters inheriting of the P2PRateComputeParams interface allowing the computation.
- * @returns The p2p supply rate per year in _RAY_ units.
+ * @returns The peer-to-peer rate per year in _RAY_ units, undefined if there is no rate spread.
  */
-export const getP2PSupplyRate = ({
+const getP2PRate = ({
   poolSupplyRatePerYear,
   poolBorrowRatePerYear,
   p2pIndexCursor,
-  p2pIndex,
-  poolIndex,
-  proportionIdle,
-  reserveFactor,
-  p2pDelta,
-  p2pAmount,
 }: P2PRateComputeParams) => {
-  let p2pSupplyRate;
+  if (poolSupplyRatePerYear.gt(poolBorrowRatePerYear)) return;
 
-  if (poolSupplyRatePerYear.gt(poolBorrowRatePerYear)) p2pSupplyRate = poolBorrowRatePerYear;
-  else {
-    const p2pRate = getWeightedAvg(poolSupplyRatePerYear, poolBorrowRatePerYear, p2pIndexCursor);
+  return getWeightedAvg(poolSupplyRatePerYear, poolBorrowRatePerYear, p2pIndexCursor);
+};
 
+/**
+ * This function compute the P2P supply rate and returns the result.
+ * The computation mirrors exactly the Solidity `Utils.p2pSupplyAPR`, including its rounding.
+ *
+ * @param params The parameters inheriting of the P2PRateComputeParams interface allowing the computation.
+ * @returns The p2p supply rate per year (APR) in _RAY_ units. Its APY can be computed with `aprToApy`.
+ */
+export const getP2PSupplyRate = (params: P2PRateComputeParams) => {
+  const {
+    poolSupplyRatePerYear,
+    poolBorrowRatePerYear,
+    reserveFactor,
+    proportionIdle,
+    p2pDelta,
+    p2pAmount,
+  } = params;
+
+  const p2pRate = getP2PRate(params);
+
+  // The p2pSupplyRate is set to the poolBorrowRatePerYear when there is no rate spread.
+  let p2pSupplyRate = poolBorrowRatePerYear;
+  if (p2pRate != null)
     p2pSupplyRate = p2pRate.sub(
-      PercentMath.percentMul(p2pRate.sub(poolBorrowRatePerYear), reserveFactor)
+      PercentMath.percentMul(p2pRate.sub(poolSupplyRatePerYear), reserveFactor)
     );
-  }
 
-  if (p2pDelta.gt(0) && p2pAmount.gt(0)) {
-    const proportionDelta = minBN(
-      WadRayMath.rayDiv(
-        // TODO: use of indexDivUp
-        WadRayMath.rayMul(p2pDelta, poolIndex),
-        WadRayMath.rayMul(p2pAmount, p2pIndex)
-      ),
+  if ((p2pDelta.gt(0) || proportionIdle.gt(0)) && p2pAmount.gt(0)) {
+    const proportionDelta = getProportionDelta(
+      params,
       WadRayMath.RAY.sub(proportionIdle) // To avoid proportionDelta + proportionIdle > 1 with rounding errors.
     );
 
     p2pSupplyRate = WadRayMath.rayMul(
       p2pSupplyRate,
       WadRayMath.RAY.sub(proportionDelta).sub(proportionIdle)
-    )
-      .add(WadRayMath.rayMul(poolSupplyRatePerYear, proportionDelta))
-      .add(proportionIdle);
+    ).add(WadRayMath.rayMul(poolSupplyRatePerYear, proportionDelta));
   }
 
   return p2pSupplyRate;
@@ -419,79 +516,82 @@ export const getP2PSupplyRate = ({
 
 /**
  * This function compute the P2P borrow rate and returns the result.
+ * The computation mirrors exactly the Solidity `Utils.p2pBorrowAPR`, including its rounding.
  *
  * @param params The parameters inheriting of the P2PRateComputeParams interface allowing the computation.
  *
- * @returns The p2p borrow rate per year un _RAY_ units.
+ * @returns The p2p borrow rate per year (APR) in _RAY_ units. Its APY can be computed with `aprToApy`.
  */
 export const getP2PBorrowRate = (params: P2PRateComputeParams) => {
-  let p2pBorrowRate: BigNumber;
-  if (params.poolSupplyRatePerYear.gt(params.poolBorrowRatePerYear)) {
-    p2pBorrowRate = params.poolBorrowRatePerYear;
-  } else {
-    const p2pRate = getWeightedAvg(
-      params.poolSupplyRatePerYear,
-      params.poolBorrowRatePerYear,
-      params.p2pIndexCursor
+  const { poolBorrowRatePerYear, reserveFactor, p2pDelta, p2pAmount } = params;
+
+  const p2pRate = getP2PRate(params);
+
+  // The p2pBorrowRate is set to the poolBorrowRatePerYear when there is no rate spread.
+  let p2pBorrowRate = poolBorrowRatePerYear;
+  if (p2pRate != null)
+    p2pBorrowRate = p2pRate.add(
+      PercentMath.percentMul(poolBorrowRatePerYear.sub(p2pRate), reserveFactor)
     );
 
-    p2pBorrowRate = p2pRate.sub(
-      p2pRate.sub(params.poolBorrowRatePerYear).mul(params.reserveFactor).div(WadRayMath.RAY)
+  if (p2pDelta.gt(0) && p2pAmount.gt(0)) {
+    const proportionDelta = getProportionDelta(
+      params,
+      WadRayMath.RAY // To avoid proportionDelta > 1 with rounding errors.
+    );
+
+    p2pBorrowRate = WadRayMath.rayMul(p2pBorrowRate, WadRayMath.RAY.sub(proportionDelta)).add(
+      WadRayMath.rayMul(poolBorrowRatePerYear, proportionDelta)
     );
   }
-  if (params.p2pDelta.gt(0) && params.p2pAmount.gt(0)) {
-    const a = params.p2pDelta.mul(params.poolIndex).div(params.p2pAmount.mul(params.p2pIndex));
-    const b = WadRayMath.RAY;
-    const shareOfTheDelta = a.gt(b) ? b : a;
-    p2pBorrowRate = p2pBorrowRate
-      .mul(WadRayMath.RAY.sub(shareOfTheDelta))
-      .div(WadRayMath.RAY)
-      .add(params.poolBorrowRatePerYear.mul(shareOfTheDelta).div(WadRayMath.RAY));
-  }
+
   return p2pBorrowRate;
 };
 
 /**
  * This function compute the supply rate on a specific asset and returns the result.
  *
- * @param underlying The market to retrieve the supply APY.
+ * @param underlying The market to retrieve the supply APR.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
- * @returns The P2P supply rate per year and the pool supply rate per year in _RAY_ units.
+ * @returns The P2P supply rate per year and the pool supply rate per year in _RAY_ units, along with their APY compounded every second.
  */
 export const getSupplyRatesPerYear = async (
   underlying: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3, pool } = getContracts(provider);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<SupplyRatesPerYear> => {
+  const [{ morphoAaveV3, pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
 
   const [
     { currentLiquidityRate, currentVariableBorrowRate },
+    market,
     {
-      idleSupply,
-      deltas: {
-        supply: { scaledDelta, scaledP2PTotal },
-      },
-      indexes: {
-        supply: { p2pIndex, poolIndex },
-      },
-      reserveFactor,
-      p2pIndexCursor,
+      supply: { p2pIndex, poolIndex },
     },
-  ] = await Promise.all([pool.getReserveData(underlying), morphoAaveV3.market(underlying)]);
-
-  const totalP2PSupplied: BigNumber = WadRayMath.rayMul(
-    scaledP2PTotal,
-    p2pIndex // TODO: use updated index
-  );
-  const propIdleSupply = WadRayMath.rayDiv(idleSupply, totalP2PSupplied);
+  ] = await Promise.all([
+    pool.getReserveData(underlying, { blockTag }),
+    morphoAaveV3.market(underlying, { blockTag }),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+  ]);
+  const {
+    deltas: {
+      supply: { scaledDelta, scaledP2PTotal },
+    },
+    reserveFactor,
+    p2pIndexCursor,
+  } = market;
 
-  const p2pSupplyRate = await getP2PSupplyRate({
+  const p2pSupplyRate = getP2PSupplyRate({
     poolSupplyRatePerYear: currentLiquidityRate,
     poolBorrowRatePerYear: currentVariableBorrowRate,
     poolIndex,
     p2pIndex,
-    proportionIdle: propIdleSupply,
+    proportionIdle: getProportionIdle(market),
     p2pDelta: scaledDelta,
     p2pAmount: scaledP2PTotal,
     p2pIndexCursor: BigNumber.from(p2pIndexCursor),
@@ -501,22 +601,29 @@ export const getSupplyRatesPerYear = async (
   return {
     p2pSupplyRate,
     poolSupplyRate: currentLiquidityRate,
+    p2pSupplyApy: aprToApy(p2pSupplyRate),
+    poolSupplyApy: aprToApy(currentLiquidityRate),
   };
 };
 
 /**
  * This function compute the borrow rate on a specific asset and returns the result.
  *
- * @param underlying The market to retrieve the borrow APY.
+ * @param underlying The market to retrieve the borrow APR.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
- * @returns The P2P borrow rate per year and the pool borrow rate per year in _RAY_ units.
+ * @returns The P2P borrow rate per year and the pool borrow rate per year in _RAY_ units, along with their APY compounded every second.
  */
 export const getBorrowRatesPerYear = async (
   underlying: string,
-  provider: providers.BaseProvider
-) => {
-  const { morphoAaveV3, pool } = getContracts(provider);
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BorrowRatesPerYear> => {
+  const [{ morphoAaveV3, pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
 
   const [
     { currentLiquidityRate, currentVariableBorrowRate },
@@ -524,15 +631,19 @@ export const getBorrowRatesPerYear = async (
       deltas: {
         borrow: { scaledDelta, scaledP2PTotal },
       },
-      indexes: {
-        borrow: { p2pIndex, poolIndex },
-      },
       reserveFactor,
       p2pIndexCursor,
     },
-  ] = await Promise.all([pool.getReserveData(underlying), morphoAaveV3.market(underlying)]);
+    {
+      borrow: { p2pIndex, poolIndex },
+    },
+  ] = await Promise.all([
+    pool.getReserveData(underlying, { blockTag }),
+    morphoAaveV3.market(underlying, { blockTag }),
+    morphoAaveV3.updatedIndexes(underlying, { blockTag }),
+  ]);
 
-  const p2pBorrowRate = await getP2PBorrowRate({
+  const p2pBorrowRate = getP2PBorrowRate({
     poolSupplyRatePerYear: currentLiquidityRate,
     poolBorrowRatePerYear: currentVariableBorrowRate,
     poolIndex,
@@ -546,6 +657,51 @@ export const getBorrowRatesPerYear = async (
   return {
     p2pBorrowRate,
     poolBorrowRate: currentVariableBorrowRate,
+    p2pBorrowApy: aprToApy(p2pBorrowRate),
+    poolBorrowApy: aprToApy(currentVariableBorrowRate),
+  };
+};
+
+/**
+ * This function computes the pool & peer-to-peer rates of a market from its snapshot, without any call to the network.
+ *
+ * @param snapshot The snapshot of the market.
+ * @param indexes The indexes of the market to compute the peer-to-peer rates with.
+ *
+ * @returns The P2P & pool supply rates per year and the P2P & pool borrow rates per year in _RAY_ units.
+ */
+export const getMarketRatesPerYear = (
+  { market, reserve: { currentLiquidityRate, currentVariableBorrowRate } }: MarketSnapshot,
+  indexes: Indexes
+): RatesPerYear => {
+  const { deltas, reserveFactor, p2pIndexCursor } = market;
+
+  const params = {
+    poolSupplyRatePerYear: currentLiquidityRate,
+    poolBorrowRatePerYear: currentVariableBorrowRate,
+    p2pIndexCursor: BigNumber.from(p2pIndexCursor),
+    reserveFactor: BigNumber.from(reserveFactor),
+  };
+
+  return {
+    p2pSupplyRate: getP2PSupplyRate({
+      ...params,
+      poolIndex: indexes.supply.poolIndex,
+      p2pIndex: indexes.supply.p2pIndex,
+      proportionIdle: getProportionIdle(market),
+      p2pDelta: deltas.supply.scaledDelta,
+      p2pAmount: deltas.supply.scaledP2PTotal,
+    }),
+    poolSupplyRate: currentLiquidityRate,
+    p2pBorrowRate: getP2PBorrowRate({
+      ...params,
+      poolIndex: indexes.borrow.poolIndex,
+      p2pIndex: indexes.borrow.p2pIndex,
+      proportionIdle: constants.Zero,
+      p2pDelta: deltas.borrow.scaledDelta,
+      p2pAmount: deltas.borrow.scaledP2PTotal,
+    }),
+    poolBorrowRate: currentVariableBorrowRate,
   };
 };
 
@@ -554,12 +710,80 @@ export const getBorrowRatesPerYear = async (
  *
  * @param user The user address.
  * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The health factor in _WAD_ units, `constants.MaxUint256` if the user has no debt.
+ */
+export const getUserHealthFactor = async (
+  user: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BigNumber> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const { debt, maxDebt } = await morphoAaveV3.liquidityData(user, { blockTag });
+
+  return debt.isZero() ? constants.MaxUint256 : WadRayMath.wadDiv(maxDebt, debt);
+};
+
+/**
+ * This function retrieves the price of an asset as seen by Morpho.
+ * If the asset is in the e-mode category of Morpho and this category has a price source,
+ * the price of the price source is used.
+ *
+ * @param underlying The address of the asset.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The price of the asset (in base currency).
+ */
+export const getAssetPrice = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<BigNumber> => {
+  const [{ morphoAaveV3, oracle, pool }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const [eModeCategoryId, { data }, assetPrice] = await Promise.all([
+    morphoAaveV3.eModeCategoryId({ blockTag }),
+    pool.getConfiguration(underlying, { blockTag }),
+    oracle.getAssetPrice(underlying, { blockTag }),
+  ]);
+
+  if (!isInEMode(eModeCategoryId, getEModeCategory(data))) return assetPrice;
+
+  const { priceSource } = await pool.getEModeCategoryData(eModeCategoryId, { blockTag });
+  if (priceSource === constants.AddressZero) return assetPrice;
+
+  return getEModeAwarePrice(assetPrice, await oracle.getAssetPrice(priceSource, { blockTag }));
+};
+
+/**
+ * This function retrieves the statuses of a market, telling which operations are paused on it.
+ *
+ * @param underlying The address of the underlying token of the market.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
  *
- * @returns The health factor in _WAD_ units.
+ * @returns Whether the market is created, deprecated, whether peer-to-peer is disabled and whether each operation is paused.
  */
-export const getUserHealthFactor = async (user: string, provider: providers.BaseProvider) => {
-  const { morphoAaveV3 } = getContracts(provider);
-  const { debt, maxDebt } = await morphoAaveV3.liquidityData(user);
+export const getMarketStatus = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<MarketStatus> => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const market = await morphoAaveV3.market(underlying, { blockTag });
 
-  return WadRayMath.wadDiv(maxDebt, debt);
+  return getMarketStatusOf(underlying, market);
 };
@@ -0,0 +1,443 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { PercentMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { minBN } from "@morpho-labs/ethers-utils/lib/utils";
+import { ERC20__factory, MorphoAaveV3 } from "@morpho-labs/morpho-ethers-contract";
+
+import { getUserMaxBorrowable, getUserMaxWithdrawable } from "./limits";
+import {
+  isCreated,
+  isRepayPaused,
+  isSupplyCollateralPaused,
+  isSupplyPaused,
+  isWithdrawPaused,
+} from "./marketLib";
+import { getCurrentBorrowBalanceInOf, getCurrentSupplyBalanceInOf } from "./snippets";
+import { SnippetOverrides, TransactionAmount, TransactionOptions, TransactionPlan } from "./types";
+import { getContracts, resolveBlockTag } from "./utils";
+
+/** The default maximum number of iterations of the peer-to-peer matching engine. */
+export const DEFAULT_MAX_ITERATIONS = 4;
+
+/**
+ * The share of the debt approved in excess when repaying the whole debt, with "max" or an amount exceeding the debt,
+ * to cover the interests accrued until the transaction is mined (in bps).
+ */
+export const REPAY_MAX_BUFFER = 10;
+
+/**
+ * This function connects Morpho & reads a market at the block the transaction is built at,
+ * throwing if the market is not created.
+ *
+ * @param underlying The market of the transaction.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ */
+const getMarketContext = async (
+  underlying: string,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides
+) => {
+  const [{ morphoAaveV3 }, blockTag] = await Promise.all([
+    getContracts(provider, overrides),
+    resolveBlockTag(provider, overrides),
+  ]);
+
+  const market = await morphoAaveV3.market(underlying, { blockTag });
+  if (!isCreated(market)) throw new Error(`No market created for ${underlying}`);
+
+  return { morphoAaveV3, market, blockTag, pinnedOverrides: { ...overrides, blockTag } };
+};
+
+/**
+ * This function checks that the user holds enough underlying to transfer to Morpho,
+ * and builds the approvals of Morpho if its current allowance is not sufficient.
+ * A non-zero allowance is reset first, as some tokens such as USDT revert when changing a non-zero allowance.
+ *
+ * @param user The user address.
+ * @param underlying The underlying to transfer.
+ * @param amount The amount to transfer (in underlying).
+ * @param allowance The amount Morpho needs to be allowed to transfer (in underlying).
+ * @param morphoAaveV3 The Morpho Aave v3 contract instance.
+ * @param provider A provider instance
+ * @param blockTag The block at which the balance & allowance are read.
+ *
+ * @returns The approvals to send in order, none if the current allowance is sufficient.
+ */
+const getApprovals = async (
+  user: string,
+  underlying: string,
+  amount: BigNumber,
+  allowance: BigNumber,
+  morphoAaveV3: MorphoAaveV3,
+  provider: providers.BaseProvider,
+  blockTag: number
+) => {
+  const erc20 = ERC20__factory.connect(underlying, provider);
+  const [balance, currentAllowance] = await Promise.all([
+    erc20.balanceOf(user, { blockTag }),
+    erc20.allowance(user, morphoAaveV3.address, { blockTag }),
+  ]);
+
+  if (balance.lt(amount))
+    throw new Error(`Insufficient balance of ${underlying}: ${balance} < ${amount}`);
+  if (currentAllowance.gte(allowance)) return [];
+
+  return Promise.all(
+    [...(currentAllowance.isZero() ? [] : [constants.Zero]), allowance].map((approved) =>
+      erc20.populateTransaction.approve(morphoAaveV3.address, approved, { from: user })
+    )
+  );
+};
+
+/**
+ * This function resolves the amount of underlying to transfer to Morpho, the user's wallet balance if "max".
+ *
+ * @param user The user address.
+ * @param underlying The underlying to transfer.
+ * @param amount The amount to transfer (in underlying), or "max".
+ * @param provider A provider instance
+ * @param blockTag The block at which the balance is read.
+ */
+const resolveTransferAmount = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  blockTag: number
+) => {
+  const resolved =
+    amount === "max"
+      ? await ERC20__factory.connect(underlying, provider).balanceOf(user, { blockTag })
+      : amount;
+  if (resolved.isZero()) throw new Error(`Nothing to transfer of ${underlying}`);
+
+  return resolved;
+};
+
+/**
+ * This function builds the transactions supplying underlying to Morpho on behalf of a user,
+ * along with the approvals of Morpho if needed.
+ *
+ * @param user The user address, sending the transactions.
+ * @param underlying The market to supply to.
+ * @param amount The amount to supply (in underlying), or "max" to supply the user's wallet balance.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param options The maximum number of iterations of the matching engine.
+ *
+ * @returns The unsigned approvals & supply transactions.
+ */
+export const buildSupplyTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  { maxIterations = DEFAULT_MAX_ITERATIONS }: TransactionOptions = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, market, blockTag } = await getMarketContext(
+    underlying,
+    provider,
+    overrides
+  );
+  if (isSupplyPaused(market)) throw new Error(`Supply is paused on ${underlying}`);
+
+  const supplyAmount = await resolveTransferAmount(user, underlying, amount, provider, blockTag);
+
+  return {
+    amount: supplyAmount,
+    approvals: await getApprovals(
+      user,
+      underlying,
+      supplyAmount,
+      supplyAmount,
+      morphoAaveV3,
+      provider,
+      blockTag
+    ),
+    transaction: await morphoAaveV3.populateTransaction.supply(
+      underlying,
+      supplyAmount,
+      user,
+      maxIterations,
+      { from: user }
+    ),
+  };
+};
+
+/**
+ * This function builds the transactions supplying collateral to Morpho on behalf of a user,
+ * along with the approvals of Morpho if needed.
+ *
+ * @param user The user address, sending the transactions.
+ * @param underlying The market to supply collateral to.
+ * @param amount The amount to supply (in underlying), or "max" to supply the user's wallet balance.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The unsigned approvals & supply collateral transactions.
+ */
+export const buildSupplyCollateralTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, market, blockTag } = await getMarketContext(
+    underlying,
+    provider,
+    overrides
+  );
+  if (isSupplyCollateralPaused(market))
+    throw new Error(`Supply collateral is paused on ${underlying}`);
+
+  const supplyAmount = await resolveTransferAmount(user, underlying, amount, provider, blockTag);
+
+  return {
+    amount: supplyAmount,
+    approvals: await getApprovals(
+      user,
+      underlying,
+      supplyAmount,
+      supplyAmount,
+      morphoAaveV3,
+      provider,
+      blockTag
+    ),
+    transaction: await morphoAaveV3.populateTransaction.supplyCollateral(
+      underlying,
+      supplyAmount,
+      user,
+      { from: user }
+    ),
+  };
+};
+
+/**
+ * This function builds the transaction borrowing underlying from Morpho on behalf of a user,
+ * checking that the borrow is not paused and stays within the maximum borrowable amount of the user.
+ *
+ * @param user The user address, sending the transaction.
+ * @param underlying The market to borrow from.
+ * @param amount The amount to borrow (in underlying), or "max" to borrow the maximum borrowable amount.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param options The receiver of the underlying and the maximum number of iterations of the matching engine.
+ *
+ * @returns The unsigned borrow transaction.
+ */
+export const buildBorrowTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  { maxIterations = DEFAULT_MAX_ITERATIONS, receiver = user }: TransactionOptions = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, pinnedOverrides } = await getMarketContext(underlying, provider, overrides);
+
+  const maxBorrowable = await getUserMaxBorrowable(user, underlying, provider, pinnedOverrides);
+  if (maxBorrowable.limiter === "paused") throw new Error(`Borrow is paused on ${underlying}`);
+
+  const borrowAmount = amount === "max" ? maxBorrowable.amount : amount;
+  if (borrowAmount.isZero()) throw new Error(`Nothing to borrow of ${underlying}`);
+  if (borrowAmount.gt(maxBorrowable.amount))
+    throw new Error(
+      `Cannot borrow ${borrowAmount} of ${underlying}: exceeds the maximum borrowable ${maxBorrowable.amount}, limited by ${maxBorrowable.limiter}`
+    );
+
+  return {
+    amount: borrowAmount,
+    approvals: [],
+    transaction: await morphoAaveV3.populateTransaction.borrow(
+      underlying,
+      borrowAmount,
+      user,
+      receiver,
+      maxIterations,
+      { from: user }
+    ),
+  };
+};
+
+/**
+ * This function builds the transactions repaying the debt of a user on Morpho, along with the approvals of Morpho if needed.
+ * When repaying the whole debt, the approval covers the interests accrued until the transaction is mined.
+ *
+ * @param user The user address, sending the transactions.
+ * @param underlying The market to repay.
+ * @param amount The amount to repay (in underlying), or "max" to repay the whole debt, up to the user's wallet balance.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ *
+ * @returns The unsigned approvals & repay transactions.
+ */
+export const buildRepayTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, market, blockTag, pinnedOverrides } = await getMarketContext(
+    underlying,
+    provider,
+    overrides
+  );
+  if (isRepayPaused(market)) throw new Error(`Repay is paused on ${underlying}`);
+
+  const [{ totalBalance: debt }, walletBalance] = await Promise.all([
+    getCurrentBorrowBalanceInOf(underlying, user, provider, pinnedOverrides),
+    ERC20__factory.connect(underlying, provider).balanceOf(user, { blockTag }),
+  ]);
+  if (debt.isZero()) throw new Error(`No debt to repay on ${underlying}`);
+
+  const debtWithBuffer = PercentMath.percentMul(
+    debt,
+    PercentMath.BASE_PERCENT.add(REPAY_MAX_BUFFER)
+  );
+
+  let repayAmount: BigNumber;
+  let allowance: BigNumber;
+  if (amount === "max") {
+    // Morpho caps the repaid amount to the debt, so the whole debt is repaid even after interests accrued.
+    repayAmount = walletBalance.gte(debtWithBuffer) ? constants.MaxUint256 : walletBalance;
+    allowance = minBN(debtWithBuffer, walletBalance);
+  } else {
+    repayAmount = amount;
+    // An amount exceeding the debt is meant to repay the whole debt: the interests accrued until the transaction
+    // is mined must be approved too, up to the amount.
+    allowance = amount.gt(debt) ? minBN(debtWithBuffer, amount) : amount;
+  }
+  if (repayAmount.isZero()) throw new Error(`Nothing to repay of ${underlying}`);
+
+  return {
+    amount: repayAmount,
+    approvals: await getApprovals(
+      user,
+      underlying,
+      minBN(repayAmount, debt),
+      allowance,
+      morphoAaveV3,
+      provider,
+      blockTag
+    ),
+    transaction: await morphoAaveV3.populateTransaction.repay(underlying, repayAmount, user, {
+      from: user,
+    }),
+  };
+};
+
+/**
+ * This function builds the transaction withdrawing the supply of a user from Morpho.
+ *
+ * @param user The user address, sending the transaction.
+ * @param underlying The market to withdraw from.
+ * @param amount The amount to withdraw (in underlying), or "max" to withdraw the whole supply.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param options The receiver of the underlying and the maximum number of iterations of the matching engine.
+ *
+ * @returns The unsigned withdraw transaction.
+ */
+export const buildWithdrawTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  { maxIterations = DEFAULT_MAX_ITERATIONS, receiver = user }: TransactionOptions = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, market, pinnedOverrides } = await getMarketContext(
+    underlying,
+    provider,
+    overrides
+  );
+  if (isWithdrawPaused(market)) throw new Error(`Withdraw is paused on ${underlying}`);
+
+  const { totalBalance } = await getCurrentSupplyBalanceInOf(
+    underlying,
+    user,
+    provider,
+    pinnedOverrides
+  );
+  if (totalBalance.isZero()) throw new Error(`No supply to withdraw on ${underlying}`);
+
+  // Morpho caps the withdrawn amount to the supply balance, so the whole supply is withdrawn even after interests accrued.
+  const withdrawAmount = amount === "max" ? constants.MaxUint256 : amount;
+  if (withdrawAmount.isZero()) throw new Error(`Nothing to withdraw of ${underlying}`);
+
+  return {
+    amount: withdrawAmount,
+    approvals: [],
+    transaction: await morphoAaveV3.populateTransaction.withdraw(
+      underlying,
+      withdrawAmount,
+      user,
+      receiver,
+      maxIterations,
+      { from: user }
+    ),
+  };
+};
+
+/**
+ * This function builds the transaction withdrawing collateral of a user from Morpho,
+ * checking that the withdrawal is not paused and keeps the health factor of the user above 1.
+ *
+ * @param user The user address, sending the transaction.
+ * @param underlying The market to withdraw collateral from.
+ * @param amount The amount to withdraw (in underlying), or "max" to withdraw the maximum withdrawable amount.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses or the block to read at.
+ * @param options The receiver of the underlying.
+ *
+ * @returns The unsigned withdraw collateral transaction.
+ */
+export const buildWithdrawCollateralTx = async (
+  user: string,
+  underlying: string,
+  amount: TransactionAmount,
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  { receiver = user }: TransactionOptions = {}
+): Promise<TransactionPlan> => {
+  const { morphoAaveV3, pinnedOverrides } = await getMarketContext(underlying, provider, overrides);
+
+  const maxWithdrawable = await getUserMaxWithdrawable(user, underlying, provider, pinnedOverrides);
+  if (maxWithdrawable.limiter === "paused")
+    throw new Error(`Withdraw collateral is paused on ${underlying}`);
+  if (maxWithdrawable.amount.isZero())
+    throw new Error(`Nothing to withdraw of ${underlying}, limited by ${maxWithdrawable.limiter}`);
+
+  let withdrawAmount: BigNumber;
+  if (amount === "max")
+    // Withdrawing the whole balance avoids leaving the interests accrued until the transaction is mined.
+    withdrawAmount =
+      maxWithdrawable.limiter === "balance" ? constants.MaxUint256 : maxWithdrawable.amount;
+  else {
+    withdrawAmount = amount;
+
+    // Morpho caps the withdrawn amount to the collateral balance, so only the withdrawals exceeding another limit revert.
+    if (maxWithdrawable.limiter !== "balance" && withdrawAmount.gt(maxWithdrawable.amount))
+      throw new Error(
+        `Cannot withdraw ${withdrawAmount} of ${underlying}: exceeds the maximum withdrawable ${maxWithdrawable.amount}, limited by ${maxWithdrawable.limiter}`
+      );
+  }
+  if (withdrawAmount.isZero()) throw new Error(`Nothing to withdraw of ${underlying}`);
+
+  return {
+    amount: withdrawAmount,
+    approvals: [],
+    transaction: await morphoAaveV3.populateTransaction.withdrawCollateral(
+      underlying,
+      withdrawAmount,
+      user,
+      receiver,
+      { from: user }
+    ),
+  };
+};
@@ -1,4 +1,17 @@
-import { BigNumber } from "ethers";
+import { BigNumber, PopulatedTransaction, TypedDataDomain, TypedDataField } from "ethers";
+
+import { BlockTag } from "@ethersproject/providers";
+import { DataTypes } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/AaveV3Pool";
+import {
+  BorrowedEventObject,
+  CollateralSuppliedEventObject,
+  CollateralWithdrawnEventObject,
+  LiquidatedEventObject,
+  RepaidEventObject,
+  SuppliedEventObject,
+  Types,
+  WithdrawnEventObject,
+} from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
 
 export interface P2PRateComputeParams {
   /** The pool supply rate per year (in ray). */
@@ -25,6 +38,1615 @@ export interface P2PRateComputeParams {
   /** The reserve factor of the given market (in bps). */
   reserveFactor: BigNumber;
 
-  /** The proportion idle of the given market (in underlying). */
+  /** The proportion idle of the given market (in ray). Only relevant on the supply side. */
   proportionIdle: BigNumber;
 }
+
+/** The representations of a rate: a rate of 1 is represented by 1e27 in ray, 1e18 in wad, 10_000 in bps and 100 in percent. */
+export type RateUnit = "ray" | "wad" | "bps" | "percent";
+
+/** The units an amount can be expressed in: the underlying token, the base currency of the oracle or USD. */
+export type ValueUnit = "underlying" | "base" | "usd";
+
+/** The rounding direction of a conversion. */
+export type Rounding = "down" | "up";
+
+export interface Amount {
+  /** The amount, as an integer scaled by `10 ** decimals`. */
+  value: BigNumber;
+
+  /** The unit the amount is expressed in. */
+  unit: ValueUnit;
+
+  /** The number of decimals of the amount. */
+  decimals: number;
+}
+
+export interface AssetValuation {
+  /** The price of the underlying (in base currency). */
+  price: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The unit of the base currency the oracle prices the assets in (e.g. 1e8 for USD with 8 decimals). */
+  baseCurrencyUnit: BigNumber;
+}
+
+export interface MorphoAaveV3Addresses {
+  /** The address of the Morpho Aave v3 proxy. */
+  morphoAaveV3: string;
+
+  /** The address of the Aave price oracle. */
+  oracle: string;
+
+  /** The address of the Aave v3 pool. */
+  pool: string;
+
+  /** The address of the Multicall3 contract. */
+  multicall3: string;
+}
+
+export interface BulkerAddresses {
+  /** The address of the Morpho Aave v3 bulker gateway. */
+  bulker: string;
+
+  /** The address of the Permit2 contract. */
+  permit2: string;
+}
+
+export interface SnippetOverrides {
+  /** Custom addresses overriding the deployment registered for the chain of the provider. */
+  addresses?: Partial<MorphoAaveV3Addresses & BulkerAddresses>;
+
+  /** The block at which all the data is read. Defaults to the latest block, resolved once per call. */
+  blockTag?: BlockTag;
+}
+
+export interface MarketSnapshot {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The Morpho market, as returned by `morphoAaveV3.market`. */
+  market: Types.MarketStructOutput;
+
+  /** The Aave reserve data, as returned by `pool.getReserveData`. */
+  reserve: DataTypes.ReserveDataStructOutput;
+
+  /** The price of the underlying, accounting for Morpho's e-mode category (in base currency). */
+  price: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The loan to value of the underlying, accounting for Morpho's e-mode category, 0 if its LTV on Aave is 0 (in bps). */
+  ltv: number;
+
+  /** The liquidation threshold of the underlying, accounting for Morpho's e-mode category, 0 if its LTV on Aave is 0 (in bps). */
+  liquidationThreshold: number;
+
+  /** The liquidation bonus of the underlying, accounting for Morpho's e-mode category (in bps). */
+  liquidationBonus: number;
+
+  /** The amount of aTokens held by Morpho (in underlying). */
+  poolSupplyAmount: BigNumber;
+
+  /** The amount of variable debt tokens held by Morpho (in underlying). */
+  poolBorrowAmount: BigNumber;
+}
+
+export interface MarketsSnapshot {
+  /** The number of the block at which the snapshot was taken. */
+  blockNumber: number;
+
+  /** The timestamp of the block at which the snapshot was taken (in seconds). */
+  timestamp: BigNumber;
+
+  /** The unit of the base currency the oracle prices the assets in (e.g. 1e8 for USD with 8 decimals). */
+  baseCurrencyUnit: BigNumber;
+
+  /** The e-mode category of Morpho on Aave, 0 if Morpho is not in e-mode. */
+  eModeCategoryId: BigNumber;
+
+  /** The data of Morpho's e-mode category, if any. */
+  eModeCategory?: DataTypes.EModeCategoryStructOutput;
+
+  /** The snapshot of each market created on Morpho. */
+  markets: MarketSnapshot[];
+}
+
+export interface MarketSideIndexes {
+  /** The pool index (in ray). */
+  poolIndex: BigNumber;
+
+  /** The peer-to-peer index (in ray). */
+  p2pIndex: BigNumber;
+}
+
+export interface Indexes {
+  /** The supply indexes. */
+  supply: MarketSideIndexes;
+
+  /** The borrow indexes. */
+  borrow: MarketSideIndexes;
+}
+
+export interface GrowthFactors {
+  /** The pool's supply index growth factor (in ray). */
+  poolSupplyGrowthFactor: BigNumber;
+
+  /** The peer-to-peer's supply index growth factor (in ray). */
+  p2pSupplyGrowthFactor: BigNumber;
+
+  /** The pool's borrow index growth factor (in ray). */
+  poolBorrowGrowthFactor: BigNumber;
+
+  /** The peer-to-peer's borrow index growth factor (in ray). */
+  p2pBorrowGrowthFactor: BigNumber;
+}
+
+export interface UserMarketPosition {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The price of the underlying (in base currency). */
+  price: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The loan to value of the underlying (in bps). */
+  ltv: number;
+
+  /** The liquidation threshold of the underlying (in bps). */
+  liquidationThreshold: number;
+
+  /** The liquidation bonus of the underlying (in bps). */
+  liquidationBonus: number;
+
+  /** The supply balance matched peer-to-peer (in underlying). */
+  supplyBalanceInP2P: BigNumber;
+
+  /** The supply balance on pool (in underlying). */
+  supplyBalanceOnPool: BigNumber;
+
+  /** The collateral balance (in underlying). */
+  collateralBalance: BigNumber;
+
+  /** The borrow balance matched peer-to-peer (in underlying). */
+  borrowBalanceInP2P: BigNumber;
+
+  /** The borrow balance on pool (in underlying). */
+  borrowBalanceOnPool: BigNumber;
+
+  /** The total supply balance, excluding collateral (in USD, with 18 decimals). */
+  supplyUsd: BigNumber;
+
+  /** The collateral balance (in USD, with 18 decimals). */
+  collateralUsd: BigNumber;
+
+  /** The total borrow balance (in USD, with 18 decimals). */
+  borrowUsd: BigNumber;
+
+  /** The supply rate per year experienced on the supply & collateral balances (in ray). */
+  supplyRatePerYear: BigNumber;
+
+  /** The borrow rate per year experienced on the borrow balance (in ray). */
+  borrowRatePerYear: BigNumber;
+
+  /** The supply APY experienced on the supply & collateral balances, compounded every second (in ray). */
+  supplyApy: BigNumber;
+
+  /** The borrow APY experienced on the borrow balance, compounded every second (in ray). */
+  borrowApy: BigNumber;
+}
+
+export interface UserMarketsPositions {
+  /** The number of the block at which the positions were read. */
+  blockNumber: number;
+
+  /** The markets the user supplies collateral to. */
+  userCollaterals: string[];
+
+  /** The markets the user borrows from. */
+  userBorrows: string[];
+
+  /** The liquidity data of the user, as returned by `morphoAaveV3.liquidityData`. */
+  liquidityData: Types.LiquidityDataStructOutput;
+
+  /** The position of the user in each market created on Morpho, including the ones the user has no balance in. */
+  markets: UserMarketPosition[];
+
+  /** The snapshot of the markets the positions were computed from. */
+  snapshot: MarketsSnapshot;
+}
+
+export interface UserPosition {
+  /** The user address. */
+  user: string;
+
+  /** The number of the block at which the position was read. */
+  blockNumber: number;
+
+  /** The markets in which the user has collateral. */
+  userCollaterals: string[];
+
+  /** The markets in which the user has a borrow. */
+  userBorrows: string[];
+
+  /** The position of the user in each market in which the user has a supply, collateral or borrow balance. */
+  markets: UserMarketPosition[];
+
+  /** The total supply balance, excluding collateral (in USD, with 18 decimals). */
+  totalSupplyUsd: BigNumber;
+
+  /** The total collateral balance (in USD, with 18 decimals). */
+  totalCollateralUsd: BigNumber;
+
+  /** The total borrow balance (in USD, with 18 decimals). */
+  totalBorrowUsd: BigNumber;
+
+  /** The net rate per year experienced over the whole portfolio, relative to the supply & collateral balances (in ray). Can be negative. */
+  netRatePerYear: BigNumber;
+
+  /** The net APY experienced over the whole portfolio, compounded every second (in ray). Can be negative. */
+  netApy: BigNumber;
+
+  /** The health factor of the user (in wad), `constants.MaxUint256` if the user has no debt. */
+  healthFactor: BigNumber;
+
+  /** The maximum debt allowed by the collateral, using the assets' LTV (in base currency). */
+  borrowCapacity: BigNumber;
+
+  /** The maximum debt before liquidation, using the assets' liquidation threshold (in base currency). */
+  maxDebt: BigNumber;
+
+  /** The debt of the user (in base currency). */
+  debt: BigNumber;
+}
+
+export type SimulatedActionType = "supplyCollateral" | "withdrawCollateral" | "borrow" | "repay";
+
+export interface SimulatedAction {
+  /** The type of the action. */
+  type: SimulatedActionType;
+
+  /** The address of the underlying token of the market the action is performed on. */
+  underlying: string;
+
+  /** The amount of the action (in underlying). Withdrawals & repayments are capped to the user's balance. */
+  amount: BigNumber;
+}
+
+export interface AssetLiquidityParams {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The price of the underlying (in base currency). */
+  price: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The loan to value of the underlying (in bps). */
+  ltv: number;
+
+  /** The liquidation threshold of the underlying (in bps). */
+  liquidationThreshold: number;
+
+  /** The collateral balance (in underlying). */
+  collateralBalance: BigNumber;
+
+  /** The total borrow balance (in underlying). */
+  borrowBalance: BigNumber;
+}
+
+export interface LiquidityData {
+  /** The maximum debt allowed by the collateral, using the assets' LTV (in base currency). */
+  borrowable: BigNumber;
+
+  /** The maximum debt before liquidation, using the assets' liquidation threshold (in base currency). */
+  maxDebt: BigNumber;
+
+  /** The debt (in base currency). */
+  debt: BigNumber;
+}
+
+export interface SimulatedAssetLiquidity extends AssetLiquidityParams {
+  /** The maximum amount that can still be borrowed (in underlying). */
+  maxBorrowable: BigNumber;
+
+  /** The maximum amount of collateral that can be withdrawn (in underlying). */
+  maxWithdrawable: BigNumber;
+}
+
+export interface HealthFactorSimulation extends LiquidityData {
+  /** The health factor after the actions (in wad), `constants.MaxUint256` if there is no debt. */
+  healthFactor: BigNumber;
+
+  /** The state of each asset after the actions. */
+  assets: SimulatedAssetLiquidity[];
+}
+
+export interface AssetLiquidationParams extends AssetLiquidityParams {
+  /** The liquidation bonus of the underlying (in bps). */
+  liquidationBonus: number;
+
+  /** Whether the market is deprecated, allowing to liquidate its borrows entirely. */
+  isDeprecated: boolean;
+}
+
+export interface CollateralLiquidationPrice {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The current price of the underlying (in base currency). */
+  price: BigNumber;
+
+  /** The price below which the user gets liquidatable, all other prices being unchanged (in base currency). Undefined if no price can get the user liquidatable. */
+  liquidationPrice?: BigNumber;
+
+  /** The relative price drop getting the user liquidatable (in wad). Undefined if no price can get the user liquidatable. */
+  priceDrop?: BigNumber;
+}
+
+export interface UserLiquidationData {
+  /** The health factor of the user (in wad), `constants.MaxUint256` if the user has no debt. */
+  healthFactor: BigNumber;
+
+  /** Whether the user can currently be liquidated on at least one of its borrows. */
+  isLiquidatable: boolean;
+
+  /** The liquidation price of each collateral of the user. */
+  collaterals: CollateralLiquidationPrice[];
+
+  /** The close factor applicable to each borrow of the user (in bps), 0 if the borrow cannot be liquidated. */
+  borrows: { underlying: string; closeFactor: BigNumber }[];
+}
+
+export interface LiquidationAmounts {
+  /** The close factor applicable to the borrow (in bps), 0 if the borrow cannot be liquidated. */
+  closeFactor: BigNumber;
+
+  /** The maximum amount of debt that can be repaid (in underlying borrowed). */
+  maxRepayable: BigNumber;
+
+  /** The amount of collateral seized when repaying the maximum amount, including the liquidation bonus (in underlying collateral). */
+  seizedCollateral: BigNumber;
+}
+
+export enum HealthStatus {
+  /** The user has no debt or its health factor is above the at-risk threshold. */
+  healthy = "healthy",
+
+  /** The health factor of the user is between 1 and the at-risk threshold. */
+  atRisk = "at-risk",
+
+  /** The health factor of the user is below 1. */
+  liquidatable = "liquidatable",
+}
+
+export interface HealthReport extends LiquidityData {
+  /** The health factor, using the assets' liquidation threshold (in wad). `constants.MaxUint256` if there is no debt. */
+  healthFactor: BigNumber;
+
+  /** The ratio of the borrowable amount over the debt, using the assets' LTV (in wad). `constants.MaxUint256` if there is no debt. Below 1, the user cannot borrow anymore. */
+  borrowRatio: BigNumber;
+
+  /** Whether the user has some collateral. */
+  hasCollateral: boolean;
+
+  /** Whether the user has some debt. */
+  hasDebt: boolean;
+
+  /** The health status of the user. */
+  status: HealthStatus;
+}
+
+export interface MarketSupply {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The price of the underlying (in base currency). */
+  underlyingPrice: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The amount truly supplied peer-to-peer (in underlying). */
+  p2pSupplyAmount: Amount;
+
+  /** The amount supplied on the pool by Morpho (in underlying). */
+  poolSupplyAmount: Amount;
+
+  /** The amount supplied idle on Morpho (in underlying). */
+  idleSupply: Amount;
+
+  /** The total amount supplied through Morpho (in underlying). */
+  totalSupplyAmount: Amount;
+}
+
+export interface TotalSupply {
+  /** The number of the block at which the total supply was read. */
+  blockNumber: number;
+
+  /** The value truly supplied peer-to-peer over all the markets (in USD). */
+  p2pSupplyAmount: Amount;
+
+  /** The value supplied on the pool by Morpho over all the markets (in USD). */
+  poolSupplyAmount: Amount;
+
+  /** The value supplied idle on Morpho over all the markets (in USD). */
+  idleSupply: Amount;
+
+  /** The total value supplied through Morpho (in USD). */
+  totalSupplyAmount: Amount;
+
+  /** The amounts supplied on each market. */
+  markets: MarketSupply[];
+}
+
+export interface MarketBorrow {
+  /** The address of the underlying token. */
+  underlying: string;
+
+  /** The price of the underlying (in base currency). */
+  underlyingPrice: BigNumber;
+
+  /** The number of decimals of the underlying. */
+  decimals: number;
+
+  /** The amount truly borrowed peer-to-peer (in underlying). */
+  p2pBorrowAmount: Amount;
+
+  /** The amount borrowed on the pool by Morpho (in underlying). */
+  poolBorrowAmount: Amount;
+
+  /** The total amount borrowed through Morpho (in underlying). */
+  totalBorrowAmount: Amount;
+}
+
+export interface TotalBorrow {
+  /** The number of the block at which the total borrow was read. */
+  blockNumber: number;
+
+  /** The value truly borrowed peer-to-peer over all the markets (in USD). */
+  p2pBorrowAmount: Amount;
+
+  /** The value borrowed on the pool by Morpho over all the markets (in USD). */
+  poolBorrowAmount: Amount;
+
+  /** The total value borrowed through Morpho (in USD). */
+  totalBorrowAmount: Amount;
+
+  /** The amounts borrowed on each market. */
+  markets: MarketBorrow[];
+}
+
+export interface MarketSupplyTotals {
+  /** The amount truly supplied peer-to-peer (in underlying). */
+  p2pSupplyAmount: BigNumber;
+
+  /** The amount supplied on the pool by Morpho (in underlying). */
+  poolSupplyAmount: BigNumber;
+
+  /** The amount supplied idle on Morpho (in underlying). */
+  idleSupply: BigNumber;
+
+  /** The total amount supplied through Morpho (in underlying). */
+  totalSupplyAmount: BigNumber;
+}
+
+export interface MarketBorrowTotals {
+  /** The amount truly borrowed peer-to-peer (in underlying). */
+  p2pBorrowAmount: BigNumber;
+
+  /** The amount borrowed on the pool by Morpho (in underlying). */
+  poolBorrowAmount: BigNumber;
+
+  /** The total amount borrowed through Morpho (in underlying). */
+  totalBorrowAmount: BigNumber;
+}
+
+export interface UserBalance {
+  /** The balance matched peer-to-peer (in underlying). */
+  balanceInP2P: BigNumber;
+
+  /** The balance on pool (in underlying). */
+  balanceOnPool: BigNumber;
+
+  /** The total balance (in underlying). */
+  totalBalance: BigNumber;
+}
+
+export interface WeightedRate {
+  /** The rate per year experienced on average by the balances (in ray). */
+  weightedRate: BigNumber;
+
+  /** The total balance (in underlying). */
+  totalBalance: BigNumber;
+}
+
+export interface UserRatePerYear extends WeightedRate {
+  /** The APY experienced on average by the balances, compounded every second (in ray). */
+  weightedApy: BigNumber;
+}
+
+export interface SupplyRatesPerYear {
+  /** The peer-to-peer supply rate per year (in ray). */
+  p2pSupplyRate: BigNumber;
+
+  /** The supply rate per year of the pool (in ray). */
+  poolSupplyRate: BigNumber;
+
+  /** The peer-to-peer supply APY, compounded every second (in ray). */
+  p2pSupplyApy: BigNumber;
+
+  /** The supply APY of the pool, compounded every second (in ray). */
+  poolSupplyApy: BigNumber;
+}
+
+export interface BorrowRatesPerYear {
+  /** The peer-to-peer borrow rate per year (in ray). */
+  p2pBorrowRate: BigNumber;
+
+  /** The borrow rate per year of the pool (in ray). */
+  poolBorrowRate: BigNumber;
+
+  /** The peer-to-peer borrow APY, compounded every second (in ray). */
+  p2pBorrowApy: BigNumber;
+
+  /** The borrow APY of the pool, compounded every second (in ray). */
+  poolBorrowApy: BigNumber;
+}
+
+export interface RatesPerYear {
+  /** The peer-to-peer supply rate per year (in ray). */
+  p2pSupplyRate: BigNumber;
+
+  /** The supply rate per year of the pool (in ray). */
+  poolSupplyRate: BigNumber;
+
+  /** The peer-to-peer borrow rate per year (in ray). */
+  p2pBorrowRate: BigNumber;
+
+  /** The borrow rate per year of the pool (in ray). */
+  poolBorrowRate: BigNumber;
+}
+
+export interface MarketStatus {
+  /** The address of the underlying token of the market. */
+  underlying: string;
+
+  /** Whether the market is created on Morpho. */
+  isCreated: boolean;
+
+  /** Whether supply is paused. */
+  isSupplyPaused: boolean;
+
+  /** Whether supply collateral is paused. */
+  isSupplyCollateralPaused: boolean;
+
+  /** Whether borrow is paused. */
+  isBorrowPaused: boolean;
+
+  /** Whether repay is paused. */
+  isRepayPaused: boolean;
+
+  /** Whether withdraw is paused. */
+  isWithdrawPaused: boolean;
+
+  /** Whether withdraw collateral is paused. */
+  isWithdrawCollateralPaused: boolean;
+
+  /** Whether the liquidation of the collateral of the market is paused. */
+  isLiquidateCollateralPaused: boolean;
+
+  /** Whether the liquidation of the borrows of the market is paused. */
+  isLiquidateBorrowPaused: boolean;
+
+  /** Whether the market is deprecated, allowing the liquidation of all the borrows of the market. */
+  isDeprecated: boolean;
+
+  /** Whether the peer-to-peer matching is disabled. */
+  isP2PDisabled: boolean;
+}
+
+export type MaxAmountLimiter =
+  | "paused"
+  | "balance"
+  | "borrowCapacity"
+  | "healthFactor"
+  | "poolLiquidity"
+  | "borrowCap";
+
+export interface MaxAmount {
+  /** The maximum amount (in underlying). */
+  amount: BigNumber;
+
+  /** The limit the maximum amount is bound by. */
+  limiter: MaxAmountLimiter;
+}
+
+export interface UserMaxAmount extends MaxAmount {
+  /** The number of the block at which the maximum amount was read. */
+  blockNumber: number;
+}
+
+export interface MarketLiquidity {
+  /** The amount of underlying held by the aToken of the market, available to borrow or withdraw from the pool (in underlying). */
+  poolLiquidity: BigNumber;
+
+  /** The borrow cap of the market, 0 if there is none (in underlying). */
+  borrowCap: BigNumber;
+
+  /** The total debt accounted for in the borrow cap: the debt on the pool along with the debt matched peer-to-peer on Morpho (in underlying). */
+  totalBorrow: BigNumber;
+}
+
+/** An amount of underlying, or "max" to act on the maximum amount allowed. */
+export type TransactionAmount = BigNumber | "max";
+
+export interface TransactionOptions {
+  /** The maximum number of iterations of the peer-to-peer matching engine, for supply, borrow & withdraw. */
+  maxIterations?: number;
+
+  /** The address receiving the underlying borrowed or withdrawn. Defaults to the user. */
+  receiver?: string;
+}
+
+export interface TransactionPlan {
+  /** The amount passed to Morpho (in underlying). `constants.MaxUint256` to act on the whole balance of the user. */
+  amount: BigNumber;
+
+  /**
+   * The transactions approving Morpho to transfer the underlying, to send in order: none if the current allowance is sufficient
+   * or if nothing is transferred to Morpho, resetting a non-zero allowance first otherwise.
+   */
+  approvals: PopulatedTransaction[];
+
+  /** The transaction calling Morpho. */
+  transaction: PopulatedTransaction;
+}
+
+export interface AverageSupplyRates {
+  /** The average supply rate per year experienced by the suppliers of the market, including the idle supply (in ray). */
+  avgSupplyRatePerYear: BigNumber;
+
+  /** The peer-to-peer supply rate per year, without any delta (in ray). */
+  p2pSupplyRatePerYear: BigNumber;
+
+  /** The supply rate per year of the pool (in ray). */
+  poolSupplyRatePerYear: BigNumber;
+
+  /** The average supply APY, compounded every second (in ray). */
+  avgSupplyApy: BigNumber;
+
+  /** The peer-to-peer supply APY, compounded every second (in ray). */
+  p2pSupplyApy: BigNumber;
+
+  /** The supply APY of the pool, compounded every second (in ray). */
+  poolSupplyApy: BigNumber;
+}
+
+export interface AverageBorrowRates {
+  /** The average borrow rate per year experienced by the borrowers of the market (in ray). */
+  avgBorrowRatePerYear: BigNumber;
+
+  /** The peer-to-peer borrow rate per year, without any delta (in ray). */
+  p2pBorrowRatePerYear: BigNumber;
+
+  /** The borrow rate per year of the pool (in ray). */
+  poolBorrowRatePerYear: BigNumber;
+
+  /** The average borrow APY, compounded every second (in ray). */
+  avgBorrowApy: BigNumber;
+
+  /** The peer-to-peer borrow APY, compounded every second (in ray). */
+  p2pBorrowApy: BigNumber;
+
+  /** The borrow APY of the pool, compounded every second (in ray). */
+  poolBorrowApy: BigNumber;
+}
+
+export interface MarketRatesPerYear extends AverageSupplyRates, AverageBorrowRates {
+  /** The address of the underlying token of the market. */
+  underlying: string;
+}
+
+export interface MarketsRatesPerYear {
+  /** The number of the block at which the rates were read. */
+  blockNumber: number;
+
+  /** The timestamp of the block at which the rates were read (in seconds). */
+  timestamp: BigNumber;
+
+  /** The rates of each market created on Morpho. */
+  markets: MarketRatesPerYear[];
+}
+
+export interface RewardEmission {
+  /** The address of the reward token. */
+  reward: string;
+
+  /** The amount of reward emitted per second on the asset (in reward units). */
+  emissionPerSecond: BigNumber;
+
+  /** The timestamp at which the distribution of the reward ends (in seconds). */
+  distributionEnd: BigNumber;
+
+  /** The price of the reward, given by the reward oracle of the RewardsController (with `rewardPriceDecimals` decimals). */
+  rewardPrice: BigNumber;
+
+  /** The number of decimals of the reward oracle. */
+  rewardPriceDecimals: number;
+
+  /** The number of decimals of the reward token. */
+  rewardDecimals: number;
+}
+
+export interface RewardApr {
+  /** The address of the reward token. */
+  reward: string;
+
+  /** The APR of the reward (in ray). */
+  apr: BigNumber;
+}
+
+export interface MarketRewardsAprs {
+  /** The address of the underlying token of the market. */
+  underlying: string;
+
+  /** The APR of each reward emitted on the aToken of the market, earned on the pool supply. */
+  supplyRewards: RewardApr[];
+
+  /** The APR of each reward emitted on the variable debt token of the market, earned on the pool borrow. */
+  borrowRewards: RewardApr[];
+
+  /** The total rewards APR earned on the liquidity supplied on the pool (in ray). */
+  poolSupplyRewardsApr: BigNumber;
+
+  /** The total rewards APR earned on the liquidity supplied peer-to-peer (in ray). Always 0, as it is not on the pool. */
+  p2pSupplyRewardsApr: BigNumber;
+
+  /** The total rewards APR earned on average by the suppliers of the market (in ray). */
+  avgSupplyRewardsApr: BigNumber;
+
+  /** The total rewards APR earned on the liquidity borrowed from the pool (in ray). */
+  poolBorrowRewardsApr: BigNumber;
+
+  /** The total rewards APR earned on the liquidity borrowed peer-to-peer (in ray). Always 0, as it is not on the pool. */
+  p2pBorrowRewardsApr: BigNumber;
+
+  /** The total rewards APR earned on average by the borrowers of the market (in ray). */
+  avgBorrowRewardsApr: BigNumber;
+}
+
+export interface MarketsRewardsAprs {
+  /** The number of the block at which the APRs were read. */
+  blockNumber: number;
+
+  /** The timestamp of the block at which the APRs were read (in seconds). */
+  timestamp: BigNumber;
+
+  /** The rewards APRs of each market created on Morpho, empty if Morpho has no RewardsManager. */
+  markets: MarketRewardsAprs[];
+}
+
+export interface UserReward {
+  /** The address of the reward token. */
+  reward: string;
+
+  /** The amount of reward accrued and not claimed yet (in reward units). */
+  amount: BigNumber;
+}
+
+/** A flat record of a time series, which can be exported to CSV or JSON. */
+export interface DataPoint {
+  [field: string]: BigNumber | number | string | boolean;
+}
+
+export interface MarketDataPoint extends DataPoint {
+  /** The number of the block of the data point. */
+  blockNumber: number;
+
+  /** The timestamp of the block of the data point (in seconds). */
+  timestamp: number;
+
+  /** The address of the underlying token of the market. */
+  underlying: string;
+
+  /** The price of the underlying (in base currency). */
+  price: BigNumber;
+
+  /** The amount truly supplied peer-to-peer (in underlying). */
+  p2pSupplyAmount: BigNumber;
+
+  /** The amount supplied on the pool by Morpho (in underlying). */
+  poolSupplyAmount: BigNumber;
+
+  /** The idle supply (in underlying). */
+  idleSupply: BigNumber;
+
+  /** The amount truly borrowed peer-to-peer (in underlying). */
+  p2pBorrowAmount: BigNumber;
+
+  /** The amount borrowed from the pool by Morpho (in underlying). */
+  poolBorrowAmount: BigNumber;
+
+  /** The peer-to-peer supply rate per year (in ray). */
+  p2pSupplyRate: BigNumber;
+
+  /** The pool supply rate per year (in ray). */
+  poolSupplyRate: BigNumber;
+
+  /** The peer-to-peer borrow rate per year (in ray). */
+  p2pBorrowRate: BigNumber;
+
+  /** The pool borrow rate per year (in ray). */
+  poolBorrowRate: BigNumber;
+
+  /** The peer-to-peer supply index (in ray). */
+  p2pSupplyIndex: BigNumber;
+
+  /** The pool supply index (in ray). */
+  poolSupplyIndex: BigNumber;
+
+  /** The peer-to-peer borrow index (in ray). */
+  p2pBorrowIndex: BigNumber;
+
+  /** The pool borrow index (in ray). */
+  poolBorrowIndex: BigNumber;
+}
+
+export interface UserDataPoint extends DataPoint {
+  /** The number of the block of the data point. */
+  blockNumber: number;
+
+  /** The user address. */
+  user: string;
+
+  /** The total supply balance, excluding collateral (in USD, with 18 decimals). */
+  totalSupplyUsd: BigNumber;
+
+  /** The total collateral balance (in USD, with 18 decimals). */
+  totalCollateralUsd: BigNumber;
+
+  /** The total borrow balance (in USD, with 18 decimals). */
+  totalBorrowUsd: BigNumber;
+
+  /** The net rate per year experienced over the whole portfolio (in ray). */
+  netRatePerYear: BigNumber;
+
+  /** The health factor of the user (in wad), `constants.MaxUint256` if the user has no debt. */
+  healthFactor: BigNumber;
+
+  /** The maximum debt allowed by the LTV of the user's collaterals (in base currency). */
+  borrowCapacity: BigNumber;
+
+  /** The maximum debt allowed by the liquidation threshold of the user's collaterals (in base currency). */
+  maxDebt: BigNumber;
+
+  /** The debt of the user (in base currency). */
+  debt: BigNumber;
+}
+
+export interface BackfillRange {
+  /** The first block of the range. */
+  fromBlock: number;
+
+  /** The last block of the range, included. */
+  toBlock: number;
+
+  /** The number of blocks between two data points. */
+  step: number;
+}
+
+export interface CheckpointStore {
+  /** Loads the last block backfilled, if any. */
+  load: () => Promise<number | undefined>;
+
+  /** Saves the last block backfilled. */
+  save: (lastBlock: number) => Promise<void>;
+}
+
+export interface BackfillOptions<T extends DataPoint> {
+  /** The store of the checkpoint to resume the backfill from. */
+  checkpoint?: CheckpointStore;
+
+  /** The callback called with the data points of each block, once fetched, such as to append them to a file. */
+  onDataPoints?: (dataPoints: T[], blockNumber: number) => void | Promise<void>;
+}
+
+export type MorphoEventName =
+  | "Supplied"
+  | "CollateralSupplied"
+  | "Borrowed"
+  | "Repaid"
+  | "Withdrawn"
+  | "CollateralWithdrawn"
+  | "Liquidated";
+
+export interface EventRecordBase<Name extends MorphoEventName> {
+  /** The name of the event. */
+  name: Name;
+
+  /** The number of the block in which the event was emitted. */
+  blockNumber: number;
+
+  /** The hash of the transaction in which the event was emitted. */
+  transactionHash: string;
+
+  /** The index of the log in its block. */
+  logIndex: number;
+}
+
+export type MorphoEventRecord =
+  | (EventRecordBase<"Supplied"> & SuppliedEventObject)
+  | (EventRecordBase<"CollateralSupplied"> & CollateralSuppliedEventObject)
+  | (EventRecordBase<"Borrowed"> & BorrowedEventObject)
+  | (EventRecordBase<"Repaid"> & RepaidEventObject)
+  | (EventRecordBase<"Withdrawn"> & WithdrawnEventObject)
+  | (EventRecordBase<"CollateralWithdrawn"> & CollateralWithdrawnEventObject)
+  | (EventRecordBase<"Liquidated"> & LiquidatedEventObject);
+
+export interface EventsIndexerOptions {
+  /** The events to scan. Defaults to all the events tracking the activity of users. */
+  events?: MorphoEventName[];
+
+  /** The number of blocks scanned per request. */
+  chunkSize?: number;
+
+  /** The number of retries of a failing request, before splitting its range of blocks in two. */
+  maxRetries?: number;
+
+  /** The delay before the first retry of a failing request, doubled at each retry (in milliseconds). */
+  retryDelay?: number;
+
+  /** The callback called with the records of each chunk, once fetched, along with the last block of the chunk. */
+  onRecords?: (records: MorphoEventRecord[], toBlock: number) => void | Promise<void>;
+}
+
+export interface ActiveUserPosition {
+  /** The last block at which the position of the user on the market changed. */
+  lastBlock: number;
+
+  /** Whether the user supplies on the market, peer-to-peer or on the pool. */
+  hasSupply: boolean;
+
+  /** Whether the user supplies collateral on the market. */
+  hasCollateral: boolean;
+
+  /** Whether the user borrows on the market, peer-to-peer or on the pool. */
+  hasBorrow: boolean;
+}
+
+/** The users with a non-zero balance on each market, along with the sides of their position. Addresses are lowercased. */
+export interface ActiveUsers {
+  [underlying: string]: { [user: string]: ActiveUserPosition };
+}
+
+/** The actions of the bulker gateway, in the order of its `ActionType` enum. */
+export enum BulkerActionType {
+  /** Approves the bulker to transfer a token through Permit2, with a signature. */
+  approve2,
+
+  /** Transfers a token from the user to the bulker through Permit2. */
+  transferFrom2,
+
+  /** Approves the bulker as manager of the user's position, with a signature. */
+  approveManager,
+
+  /** Supplies a token held by the bulker. */
+  supply,
+
+  /** Supplies as collateral a token held by the bulker. */
+  supplyCollateral,
+
+  /** Borrows on behalf of the user. */
+  borrow,
+
+  /** Repays with a token held by the bulker. */
+  repay,
+
+  /** Withdraws supply on behalf of the user. */
+  withdraw,
+
+  /** Withdraws collateral on behalf of the user. */
+  withdrawCollateral,
+
+  /** Wraps the ETH held by the bulker into WETH. */
+  wrapEth,
+
+  /** Unwraps the WETH held by the bulker into ETH. */
+  unwrapEth,
+
+  /** Wraps the stETH held by the bulker into wstETH. */
+  wrapStEth,
+
+  /** Unwraps the wstETH held by the bulker into stETH. */
+  unwrapStEth,
+
+  /** Transfers the whole balance of a token held by the bulker. */
+  skim,
+
+  /** Claims the rewards accrued by the user. */
+  claimRewards,
+}
+
+export interface Approve2Step {
+  /** The type of the action. */
+  type: BulkerActionType.approve2;
+
+  /** The address of the token the bulker is allowed to transfer through Permit2. */
+  asset: string;
+
+  /** The amount the bulker is allowed to transfer (in underlying). */
+  amount: BigNumber;
+
+  /** The timestamp after which the signature is no longer valid (in seconds). */
+  deadline: BigNumber;
+
+  /** The signature of the Permit2 `PermitSingle` typed data. */
+  signature: string;
+}
+
+export interface TransferFrom2Step {
+  /** The type of the action. */
+  type: BulkerActionType.transferFrom2;
+
+  /** The address of the token transferred from the user to the bulker through Permit2. */
+  asset: string;
+
+  /** The amount transferred (in underlying). */
+  amount: BigNumber;
+}
+
+export interface ApproveManagerStep {
+  /** The type of the action. */
+  type: BulkerActionType.approveManager;
+
+  /** Whether the bulker is approved or revoked as manager of the user's position. */
+  isAllowed: boolean;
+
+  /** The nonce of the user on Morpho. */
+  nonce: BigNumber;
+
+  /** The timestamp after which the signature is no longer valid (in seconds). */
+  deadline: BigNumber;
+
+  /** The signature of the Morpho `Authorization` typed data. */
+  signature: string;
+}
+
+export interface SupplyStep {
+  /** The type of the action. */
+  type: BulkerActionType.supply;
+
+  /** The address of the underlying supplied, from the balance of the bulker. */
+  asset: string;
+
+  /** The maximum amount supplied (in underlying), capped to the balance of the bulker. */
+  amount: BigNumber;
+
+  /** The address of the user supplied on behalf of. */
+  onBehalf: string;
+
+  /** The maximum number of iterations of the peer-to-peer matching engine. */
+  maxIterations: number;
+}
+
+export interface SupplyCollateralStep {
+  /** The type of the action. */
+  type: BulkerActionType.supplyCollateral;
+
+  /** The address of the underlying supplied as collateral, from the balance of the bulker. */
+  asset: string;
+
+  /** The maximum amount supplied (in underlying), capped to the balance of the bulker. */
+  amount: BigNumber;
+
+  /** The address of the user supplied on behalf of. */
+  onBehalf: string;
+}
+
+export interface BorrowStep {
+  /** The type of the action. */
+  type: BulkerActionType.borrow;
+
+  /** The address of the underlying borrowed on behalf of the user. */
+  asset: string;
+
+  /** The amount borrowed (in underlying). */
+  amount: BigNumber;
+
+  /** The address receiving the underlying borrowed, the bulker to use it in a later step. */
+  receiver: string;
+
+  /** The maximum number of iterations of the peer-to-peer matching engine. */
+  maxIterations: number;
+}
+
+export interface RepayStep {
+  /** The type of the action. */
+  type: BulkerActionType.repay;
+
+  /** The address of the underlying repaid, from the balance of the bulker. */
+  asset: string;
+
+  /** The maximum amount repaid (in underlying), capped to the balance of the bulker & the debt. */
+  amount: BigNumber;
+
+  /** The address of the user repaid on behalf of. */
+  onBehalf: string;
+}
+
+export interface WithdrawStep {
+  /** The type of the action. */
+  type: BulkerActionType.withdraw;
+
+  /** The address of the underlying withdrawn on behalf of the user. */
+  asset: string;
+
+  /** The maximum amount withdrawn (in underlying), capped to the supply balance. */
+  amount: BigNumber;
+
+  /** The address receiving the underlying withdrawn, the bulker to use it in a later step. */
+  receiver: string;
+
+  /** The maximum number of iterations of the peer-to-peer matching engine. */
+  maxIterations: number;
+}
+
+export interface WithdrawCollateralStep {
+  /** The type of the action. */
+  type: BulkerActionType.withdrawCollateral;
+
+  /** The address of the collateral withdrawn on behalf of the user. */
+  asset: string;
+
+  /** The maximum amount withdrawn (in underlying), capped to the collateral balance. */
+  amount: BigNumber;
+
+  /** The address receiving the collateral withdrawn, the bulker to use it in a later step. */
+  receiver: string;
+}
+
+export interface WrapEthStep {
+  /** The type of the action. */
+  type: BulkerActionType.wrapEth;
+
+  /** The amount of ETH wrapped into WETH, sent along with the transaction (in wei). */
+  amount: BigNumber;
+}
+
+export interface UnwrapEthStep {
+  /** The type of the action. */
+  type: BulkerActionType.unwrapEth;
+
+  /** The maximum amount of WETH unwrapped (in wei), capped to the balance of the bulker. */
+  amount: BigNumber;
+
+  /** The address receiving the ETH unwrapped. */
+  receiver: string;
+}
+
+export interface SkimStep {
+  /** The type of the action. */
+  type: BulkerActionType.skim;
+
+  /** The address of the token whose whole balance held by the bulker is transferred. */
+  asset: string;
+
+  /** The address receiving the tokens skimmed. */
+  receiver: string;
+}
+
+export type BundleStep =
+  | Approve2Step
+  | TransferFrom2Step
+  | ApproveManagerStep
+  | SupplyStep
+  | SupplyCollateralStep
+  | BorrowStep
+  | RepayStep
+  | WithdrawStep
+  | WithdrawCollateralStep
+  | WrapEthStep
+  | UnwrapEthStep
+  | SkimStep;
+
+export interface EncodedBundle {
+  /** The type of each action, as expected by the bulker gateway. */
+  actions: BulkerActionType[];
+
+  /** The ABI-encoded parameters of each action. */
+  data: string[];
+
+  /** The amount of ETH to send along with the bundle, wrapped by its steps (in wei). */
+  value: BigNumber;
+}
+
+export interface BundleContext {
+  /** The user address, sending the bundle. */
+  user: string;
+
+  /** The address of the bulker gateway. */
+  bulker: string;
+
+  /** The address of WETH, as wrapped & unwrapped by the bulker gateway. */
+  weth: string;
+
+  /** Whether the bulker is already approved as manager of the user's position on Morpho. */
+  isBulkerManager: boolean;
+}
+
+export interface BundleSimulation extends HealthFactorSimulation {
+  /** The position of the user after each step of the bundle. */
+  steps: HealthFactorSimulation[];
+
+  /** The balance of each token held by the bulker at the end of the bundle, which would be left to anyone to skim. */
+  bulkerBalances: { [asset: string]: BigNumber };
+}
+
+export interface BundlePlan {
+  /** The simulated position of the user after the bundle. */
+  simulation: BundleSimulation;
+
+  /** The transaction executing the bundle on the bulker gateway. */
+  transaction: PopulatedTransaction;
+}
+
+export interface SignatureApproval {
+  /** The timestamp after which the signature is no longer valid (in seconds). */
+  deadline: BigNumber;
+
+  /** The signature of the typed data. */
+  signature: string;
+}
+
+export interface ManagerApproval extends SignatureApproval {
+  /** The nonce of the user on Morpho, signed in the typed data. */
+  nonce: BigNumber;
+}
+
+export interface BorrowBundleParams {
+  /** The address of the collateral supplied. WETH if `wrapEth` is set. */
+  collateral: string;
+
+  /** The amount of collateral supplied (in underlying). Zero to only borrow. */
+  collateralAmount: BigNumber;
+
+  /** The address of the underlying borrowed. WETH if `unwrapEth` is set. */
+  borrowed: string;
+
+  /** The amount borrowed (in underlying). */
+  borrowAmount: BigNumber;
+
+  /** Whether the collateral is supplied from ETH sent along with the bundle, instead of transferred through Permit2. */
+  wrapEth?: boolean;
+
+  /** Whether the WETH borrowed is unwrapped & sent as ETH to the user. */
+  unwrapEth?: boolean;
+
+  /** The Permit2 signature allowing the bulker to transfer the collateral, if its Permit2 allowance is not sufficient. */
+  permit?: SignatureApproval;
+
+  /** The signature approving the bulker as manager of the user's position, if not already approved. */
+  managerApproval?: ManagerApproval;
+
+  /** The maximum number of iterations of the peer-to-peer matching engine. */
+  maxIterations?: number;
+}
+
+export interface RepayBundleParams {
+  /** The address of the underlying repaid. WETH if `wrapEth` is set. */
+  borrowed: string;
+
+  /** The amount transferred to repay the debt (in underlying), the excess being skimmed back to the user. Zero to only withdraw. */
+  repayAmount: BigNumber;
+
+  /** The address of the collateral withdrawn. WETH if `unwrapEth` is set. */
+  collateral: string;
+
+  /** The amount of collateral withdrawn (in underlying), `constants.MaxUint256` to withdraw it all. */
+  withdrawAmount: BigNumber;
+
+  /** Whether the debt is repaid from ETH sent along with the bundle, instead of transferred through Permit2. */
+  wrapEth?: boolean;
+
+  /** Whether the WETH withdrawn is unwrapped & sent as ETH to the user. */
+  unwrapEth?: boolean;
+
+  /** The Permit2 signature allowing the bulker to transfer the underlying repaid, if its Permit2 allowance is not sufficient. */
+  permit?: SignatureApproval;
+
+  /** The signature approving the bulker as manager of the user's position, if not already approved. */
+  managerApproval?: ManagerApproval;
+}
+
+export interface TypedData<Message = { [field: string]: unknown }> {
+  /** The EIP-712 domain of the typed data. */
+  domain: TypedDataDomain;
+
+  /** The EIP-712 types of the typed data, excluding the domain. */
+  types: { [type: string]: TypedDataField[] };
+
+  /** The message to sign. */
+  message: Message;
+}
+
+export interface ManagerAuthorization {
+  /** The address of the user approving the manager. */
+  delegator: string;
+
+  /** The address of the manager approved. */
+  manager: string;
+
+  /** Whether the manager is approved or revoked. */
+  isAllowed: boolean;
+
+  /** The nonce of the user on Morpho. */
+  nonce: BigNumber;
+
+  /** The timestamp after which the signature is no longer valid (in seconds). */
+  deadline: BigNumber;
+}
+
+export type HealthFactorCrossing = "below" | "above";
+
+export interface HealthFactorAlert extends DataPoint {
+  /** The number of the block at which the health factor crossed the threshold. */
+  blockNumber: number;
+
+  /** The user address. */
+  user: string;
+
+  /** Whether the health factor fell below or rose above the threshold. */
+  crossing: HealthFactorCrossing;
+
+  /** The threshold crossed (in wad). */
+  threshold: BigNumber;
+
+  /** The health factor before the crossing (in wad), `constants.MaxUint256` if the user had no debt. */
+  previousHealthFactor: BigNumber;
+
+  /** The health factor after the crossing (in wad), `constants.MaxUint256` if the user has no debt. */
+  healthFactor: BigNumber;
+
+  /** The health status of the user after the crossing. */
+  status: HealthStatus;
+}
+
+/** A destination of the health factor alerts, such as a callback, a stream or a webhook. */
+export type HealthAlertSink = (alert: HealthFactorAlert) => void | Promise<void>;
+
+export interface HealthWatcherOptions {
+  /** The health factors whose crossings are alerted (in wad). Defaults to the at-risk threshold and 1. */
+  thresholds?: BigNumber[];
+
+  /** The health factor below which a user is considered at risk (in wad). */
+  atRiskThreshold?: BigNumber;
+
+  /** The sinks the alerts are sent to, in order. */
+  sinks?: HealthAlertSink[];
+
+  /** The interval at which the latest block is polled (in milliseconds). Defaults to subscribing to the new blocks of the provider. */
+  pollingInterval?: number;
+
+  /**
+   * The callback called with the errors raised while processing a block or sending its alerts.
+   * Defaults to ignoring them: the events & prices of a block failing to be processed are processed with the next block.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface WatchedPosition {
+  /** The health factor of the user (in wad), `constants.MaxUint256` if the user has no debt. */
+  healthFactor: BigNumber;
+
+  /** The markets the user has collateral or debt on, lowercased. */
+  markets: string[];
+
+  /** The number of the block at which the position was last recomputed. */
+  blockNumber: number;
+}
+
+export interface HealthWatcher {
+  /** Reads the positions of the users & the prices of the markets, then processes every new block until stopped. */
+  start: () => Promise<void>;
+
+  /** Stops processing the new blocks. */
+  stop: () => void;
+
+  /** Recomputes the positions touched by the events & price updates since the last block processed, and sends the resulting alerts to the sinks. */
+  processBlock: (blockNumber: number) => Promise<HealthFactorAlert[]>;
+
+  /** The last computed position of each user, keyed by lowercased address. */
+  getPositions: () => { [user: string]: WatchedPosition };
+}
+
+export interface InterestRateStrategyParams {
+  /** The usage ratio above which the variable borrow rate grows with the second slope (in ray). */
+  optimalUsageRatio: BigNumber;
+
+  /** The variable borrow rate when the usage ratio is 0 (in ray). */
+  baseVariableBorrowRate: BigNumber;
+
+  /** The growth of the variable borrow rate up to the optimal usage ratio (in ray). */
+  variableRateSlope1: BigNumber;
+
+  /** The growth of the variable borrow rate above the optimal usage ratio (in ray). */
+  variableRateSlope2: BigNumber;
+
+  /** The stable borrow rate when the usage ratio is 0 (in ray). */
+  baseStableBorrowRate: BigNumber;
+
+  /** The growth of the stable borrow rate up to the optimal usage ratio (in ray). */
+  stableRateSlope1: BigNumber;
+
+  /** The growth of the stable borrow rate above the optimal usage ratio (in ray). */
+  stableRateSlope2: BigNumber;
+
+  /** The share of the debt borrowed at a stable rate above which the stable borrow rate is raised by the excess offset (in ray). */
+  optimalStableToTotalDebtRatio: BigNumber;
+
+  /** The growth of the stable borrow rate above the optimal stable to total debt ratio (in ray). */
+  stableRateExcessOffset: BigNumber;
+}
+
+export interface ReserveLiquidity {
+  /** The amount of underlying held by the aToken, available to borrow (in underlying). */
+  availableLiquidity: BigNumber;
+
+  /** The total variable debt of the reserve (in underlying). */
+  totalVariableDebt: BigNumber;
+
+  /** The total stable debt of the reserve (in underlying). */
+  totalStableDebt: BigNumber;
+
+  /** The average stable borrow rate of the reserve (in ray). */
+  averageStableBorrowRate: BigNumber;
+
+  /** The amount of aTokens minted without being backed by underlying yet, through portals (in underlying). */
+  unbacked: BigNumber;
+
+  /** The reserve factor of the reserve (in bps). */
+  reserveFactor: number;
+}
+
+export interface ReserveRates {
+  /** The share of the available liquidity & debt that is borrowed (in ray). */
+  borrowUsageRatio: BigNumber;
+
+  /** The share of the supply, including the unbacked aTokens, that is borrowed (in ray). */
+  supplyUsageRatio: BigNumber;
+
+  /** The supply rate per year (in ray). */
+  liquidityRate: BigNumber;
+
+  /** The variable borrow rate per year (in ray). */
+  variableBorrowRate: BigNumber;
+
+  /** The share of the debt borrowed at a stable rate (in ray). */
+  stableToTotalDebtRatio: BigNumber;
+
+  /** The stable borrow rate per year offered to new stable borrows (in ray). */
+  stableBorrowRate: BigNumber;
+}
+
+export interface ReserveRateModel {
+  /** The address of the underlying token of the reserve. */
+  underlying: string;
+
+  /** The address of the interest rate strategy of the reserve. */
+  strategy: string;
+
+  /** The parameters of the interest rate strategy. */
+  params: InterestRateStrategyParams;
+
+  /** The liquidity & debt of the reserve the rates are computed from. */
+  liquidity: ReserveLiquidity;
+}
+
+export interface InterestRateCurvePoint {
+  /** The borrow usage ratio of the reserve (in ray). */
+  usageRatio: BigNumber;
+
+  /** The supply rate per year at this usage ratio (in ray). */
+  liquidityRate: BigNumber;
+
+  /** The variable borrow rate per year at this usage ratio (in ray). */
+  variableBorrowRate: BigNumber;
+
+  /** The stable borrow rate per year at this usage ratio (in ray). */
+  stableBorrowRate: BigNumber;
+}
+
+export interface ReserveRatesVerification {
+  /** The address of the underlying token of the reserve. */
+  underlying: string;
+
+  /** The number of the block at which the reserve was read. */
+  blockNumber: number;
+
+  /** The rates computed from the liquidity & debt of the reserve at its last update. */
+  computed: ReserveRates;
+
+  /** The rates stored by the pool at the last update of the reserve (in ray). */
+  reported: Pick<ReserveRates, "liquidityRate" | "variableBorrowRate" | "stableBorrowRate">;
+
+  /** The largest absolute difference between a computed rate and its reported counterpart (in ray). */
+  maxError: BigNumber;
+
+  /** Whether the largest difference is within the tolerance. */
+  isMatching: boolean;
+}
+
+export type RateSimulationSide = "supply" | "borrow";
+
+export interface RateSimulationMarket {
+  /** The Morpho market. */
+  market: Types.MarketStructOutput;
+
+  /** The updated indexes of the market. */
+  indexes: Indexes;
+
+  /** The amount of aTokens held by Morpho, collateral included (in underlying). */
+  poolSupplyAmount: BigNumber;
+
+  /** The amount of variable debt tokens held by Morpho (in underlying). */
+  poolBorrowAmount: BigNumber;
+
+  /** The room left below the supply cap of the reserve (in underlying), `constants.MaxUint256` if the reserve has no supply cap. */
+  supplyCapRoom: BigNumber;
+
+  /** The interest rate model & the liquidity of the reserve. */
+  rateModel: Pick<ReserveRateModel, "params" | "liquidity">;
+}
+
+export interface RateSimulation {
+  /** The side of the simulated action. */
+  side: RateSimulationSide;
+
+  /** The amount supplied or borrowed (in underlying). */
+  amount: BigNumber;
+
+  /** The share of the amount matched peer-to-peer, including the deltas matched & the idle supply (in underlying). */
+  p2pAmount: BigNumber;
+
+  /** The share of the amount supplied to or borrowed from the pool (in underlying). */
+  poolAmount: BigNumber;
+
+  /** The share of the amount matched with the idle supply when borrowing, zero when supplying (in underlying). */
+  idleAmount: BigNumber;
+
+  /** The rate per year experienced by the user on the amount after the action (in ray). */
+  experiencedRatePerYear: BigNumber;
+
+  /** The APY experienced by the user on the amount after the action, compounded every second (in ray). */
+  experiencedApy: BigNumber;
+
+  /** The peer-to-peer supply rate per year after the action (in ray). */
+  p2pSupplyRatePerYear: BigNumber;
+
+  /** The peer-to-peer borrow rate per year after the action (in ray). */
+  p2pBorrowRatePerYear: BigNumber;
+
+  /** The supply rate per year of the pool after the action (in ray). */
+  poolSupplyRatePerYear: BigNumber;
+
+  /** The variable borrow rate per year of the pool after the action (in ray). */
+  poolBorrowRatePerYear: BigNumber;
+
+  /** The borrow usage ratio of the pool after the action (in ray). */
+  borrowUsageRatio: BigNumber;
+}
+
+export interface UserRateSimulation extends RateSimulation {
+  /** The number of the block at which the market was read. */
+  blockNumber: number;
+
+  /** The address of the underlying token of the market. */
+  underlying: string;
+}
@@ -1,19 +1,58 @@
-import { BigNumber, providers } from "ethers";
+import { BigNumber, BigNumberish, providers } from "ethers";
 import { constants } from "ethers/lib/index";
 
-import { PercentMath } from "@morpho-labs/ethers-utils/lib/maths";
-import { maxBN } from "@morpho-labs/ethers-utils/lib/utils";
+import { PercentMath, WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+import { maxBN, minBN } from "@morpho-labs/ethers-utils/lib/utils";
 import {
-  AavePriceOracle__factory,
+  AaveV3Oracle__factory,
   AaveV3Pool__factory,
   MorphoAaveV3__factory,
+  Multicall3__factory,
 } from "@morpho-labs/morpho-ethers-contract";
+import { Types } from "@morpho-labs/morpho-ethers-contract/lib/aave-v3/MorphoAaveV3";
 
-export const getContracts = (provider: providers.BaseProvider) => ({
-  morphoAaveV3: MorphoAaveV3__factory.connect("0x33333aea097c193e66081E930c33020272b33333", provider),
-  oracle: AavePriceOracle__factory.connect("0xA50ba011c48153De246E5192C8f9258A2ba79Ca9", provider),
-  pool: AaveV3Pool__factory.connect("0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2", provider),
-});
+import { getAddresses } from "./addresses";
+import { SnippetOverrides, WeightedRate } from "./types";
+
+/**
+ * This function connects the Morpho Aave v3, Aave price oracle, Aave v3 pool and Multicall3 contracts,
+ * either at the addresses registered for the chain of the provider or at the given custom addresses.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses.
+ */
+export const getContracts = async (
+  provider: providers.BaseProvider,
+  { addresses }: SnippetOverrides = {}
+) => {
+  const { morphoAaveV3, oracle, pool, multicall3 } = await getAddresses(provider, addresses);
+
+  return {
+    morphoAaveV3: MorphoAaveV3__factory.connect(morphoAaveV3, provider),
+    oracle: AaveV3Oracle__factory.connect(oracle, provider),
+    pool: AaveV3Pool__factory.connect(pool, provider),
+    multicall: Multicall3__factory.connect(multicall3, provider),
+  };
+};
+
+/**
+ * This function resolves the block at which a snippet reads all its data, so that its calls can't land on different blocks.
+ *
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as the block to read at.
+ * @returns The number of the given block, or of the latest block if none is given.
+ */
+export const resolveBlockTag = async (
+  provider: providers.BaseProvider,
+  { blockTag }: SnippetOverrides = {}
+) => {
+  if (blockTag == null) return provider.getBlockNumber();
+  if (typeof blockTag === "number") return blockTag;
+
+  const { number } = await provider.getBlock(blockTag);
+
+  return number;
+};
 
 /**
  * This function Executes a weighted average (x * (1 - p) + y * p), rounded up and returns the result.
@@ -53,12 +92,12 @@ export const getWeightedAvg = (x: BigNumber, y: BigNumber, percentage: BigNumber
  * @param balanceInP2P The underlying balance matched peer-to-peer
  * @param balanceOnPool The underlying balance on the pool
  */
-export const getWeightedRate = async (
+export const getWeightedRate = (
   p2pRate: BigNumber,
   poolRate: BigNumber,
   balanceInP2P: BigNumber,
   balanceOnPool: BigNumber
-) => {
+): WeightedRate => {
   const totalBalance = balanceInP2P.add(balanceOnPool);
   if (totalBalance.isZero())
     return {
@@ -80,3 +119,31 @@ export const getWeightedRate = async (
  * @returns A non negative number or 0.
  */
 export const zeroFloorSub = (a: BigNumber, b: BigNumber) => maxBN(constants.Zero, a.sub(b));
+
+/**
+ * This function checks whether an asset benefits from the e-mode category Morpho is in.
+ *
+ * @param eModeCategoryId The e-mode category of Morpho on Aave.
+ * @param reserveEModeCategoryId The e-mode category of the asset's reserve on Aave.
+ */
+export const isInEMode = (eModeCategoryId: BigNumberish, reserveEModeCategoryId: BigNumberish) =>
+  !BigNumber.from(eModeCategoryId).isZero() &&
+  BigNumber.from(eModeCategoryId).eq(reserveEModeCategoryId);
+
+/**
+ * This function selects the price of an asset Morpho uses: the price of the e-mode category's price source
+ * if the asset is in Morpho's e-mode category and this price is set, the price of the asset otherwise.
+ *
+ * @param assetPrice The price of the asset given by the oracle (in base currency).
+ * @param eModePrice The price of the e-mode category's price source given by the oracle (in base currency), if any.
+ */
+export const getEModeAwarePrice = (assetPrice: BigNumber, eModePrice?: BigNumber) =>
+  eModePrice && !eModePrice.isZero() ? eModePrice : assetPrice;
+
+/**
+ * This function checks whether two addresses are the same, regardless of their checksum.
+ *
+ * @param a An address.
+ * @param b An address.
+ */
+export const isSameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
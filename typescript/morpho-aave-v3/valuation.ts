@@ -0,0 +1,148 @@
+import { BigNumber, utils } from "ethers";
+import { constants } from "ethers/lib/index";
+
+import { pow10 } from "@morpho-labs/ethers-utils/lib/utils";
+
+import { Amount, AssetValuation, Rounding, ValueUnit } from "./types";
+
+/** The number of decimals of the amounts expressed in USD. */
+export const USD_DECIMALS = 18;
+
+/**
+ * This function computes `x * y / denominator` with a single division, in the given rounding direction.
+ *
+ * @param x The first factor.
+ * @param y The second factor.
+ * @param denominator The denominator, which must be positive.
+ * @param rounding The rounding direction. Defaults to rounding down.
+ */
+export const mulDiv = (
+  x: BigNumber,
+  y: BigNumber,
+  denominator: BigNumber,
+  rounding: Rounding = "down"
+) => {
+  const product = x.mul(y);
+  if (rounding === "up") return product.add(denominator.sub(1)).div(denominator);
+
+  return product.div(denominator);
+};
+
+/**
+ * This function computes the number of decimals of the base currency of the oracle.
+ *
+ * @param baseCurrencyUnit The unit of the base currency, a power of 10 (e.g. 1e8).
+ */
+export const getBaseCurrencyDecimals = (baseCurrencyUnit: BigNumber) =>
+  baseCurrencyUnit.toString().length - 1;
+
+/**
+ * This function computes the number of decimals of the amounts of an asset expressed in a given unit.
+ *
+ * @param unit The unit of the amounts.
+ * @param valuation The decimals of the underlying & the unit of the base currency.
+ */
+export const getUnitDecimals = (
+  unit: ValueUnit,
+  { decimals, baseCurrencyUnit }: Pick<AssetValuation, "decimals" | "baseCurrencyUnit">
+) => {
+  switch (unit) {
+    case "underlying":
+      return decimals;
+    case "base":
+      return getBaseCurrencyDecimals(baseCurrencyUnit);
+    case "usd":
+      return USD_DECIMALS;
+  }
+};
+
+/**
+ * This function computes the value of a unit of the underlying in a given unit, as a fraction,
+ * so that conversions are computed with a single division.
+ * The base currency of the oracle is expected to be USD, as on Aave v3.
+ *
+ * @param unit The unit to value the underlying in.
+ * @param valuation The price & decimals of the underlying and the unit of the base currency.
+ * @returns The numerator & denominator of the value of the smallest unit of the underlying.
+ */
+const getUnitRatio = (
+  unit: ValueUnit,
+  { price, decimals, baseCurrencyUnit }: AssetValuation
+): [BigNumber, BigNumber] => {
+  switch (unit) {
+    case "underlying":
+      return [constants.One, constants.One];
+    case "base":
+      return [price, pow10(decimals)];
+    case "usd":
+      return [price.mul(pow10(USD_DECIMALS)), pow10(decimals).mul(baseCurrencyUnit)];
+  }
+};
+
+/**
+ * This function wraps an amount of underlying along with its unit & decimals.
+ *
+ * @param value The amount (in underlying).
+ * @param decimals The number of decimals of the underlying.
+ */
+export const toUnderlyingAmount = (value: BigNumber, decimals: number): Amount => ({
+  value,
+  unit: "underlying",
+  decimals,
+});
+
+/**
+ * This function converts an amount of an asset between the underlying, the base currency of the oracle and USD,
+ * without intermediate rounding.
+ *
+ * @param amount The amount to convert.
+ * @param unit The unit to convert the amount to.
+ * @param valuation The price & decimals of the underlying and the unit of the base currency.
+ * @param rounding The rounding direction. Defaults to rounding down.
+ * @returns The converted amount, along with its unit & decimals.
+ */
+export const convertAmount = (
+  { value, unit: from }: Amount,
+  unit: ValueUnit,
+  valuation: AssetValuation,
+  rounding: Rounding = "down"
+): Amount => {
+  const [fromNumerator, fromDenominator] = getUnitRatio(from, valuation);
+  const [toNumerator, toDenominator] = getUnitRatio(unit, valuation);
+
+  const denominator = toDenominator.mul(fromNumerator);
+  if (denominator.isZero()) throw new Error(`Cannot convert ${from} to ${unit} with a zero price`);
+
+  return {
+    value: mulDiv(value, toNumerator.mul(fromDenominator), denominator, rounding),
+    unit,
+    decimals: getUnitDecimals(unit, valuation),
+  };
+};
+
+/**
+ * This function sums amounts expressed in the same unit & decimals.
+ *
+ * @param amounts The amounts to sum.
+ * @param unit The unit of the amounts.
+ * @param decimals The number of decimals of the amounts.
+ */
+export const sumAmounts = (amounts: Amount[], unit: ValueUnit, decimals: number): Amount =>
+  amounts.reduce<Amount>(
+    (acc, amount) => {
+      if (amount.unit !== unit || amount.decimals !== decimals)
+        throw new Error(
+          `Cannot add an amount in ${amount.unit} with ${amount.decimals} decimals to an amount in ${unit} with ${decimals} decimals`
+        );
+
+      return { ...acc, value: acc.value.add(amount.value) };
+    },
+    { value: constants.Zero, unit, decimals }
+  );
+
+/**
+ * This function formats an amount as a decimal string.
+ *
+ * @param amount The amount to format.
+ */
+export const formatAmount = ({ value, decimals }: Amount) => utils.formatUnits(value, decimals);
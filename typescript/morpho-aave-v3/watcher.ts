@@ -0,0 +1,351 @@
+import { BigNumber, providers } from "ethers";
+import { constants } from "ethers/lib/index";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+
+import { WadRayMath } from "@morpho-labs/ethers-utils/lib/maths";
+
+import { serializeDataPoint } from "./backfill";
+import { getRecordPositions, indexMorphoEvents } from "./events";
+import { computeHealthReport, DEFAULT_AT_RISK_THRESHOLD } from "./liquidity";
+import { aggregate } from "./multicall";
+import { getEModeCategory } from "./reserveConfiguration";
+import {
+  HealthAlertSink,
+  HealthFactorAlert,
+  HealthFactorCrossing,
+  HealthStatus,
+  HealthWatcher,
+  HealthWatcherOptions,
+  SnippetOverrides,
+  WatchedPosition,
+} from "./types";
+import { getContracts, getEModeAwarePrice, isInEMode, resolveBlockTag } from "./utils";
+
+/** The default health factors whose crossings are alerted: the at-risk threshold and 1 (in wad). */
+export const DEFAULT_HEALTH_THRESHOLDS = [DEFAULT_AT_RISK_THRESHOLD, WadRayMath.WAD];
+
+/**
+ * This function lists the thresholds crossed by a health factor between two updates.
+ *
+ * @param previousHealthFactor The previous health factor (in wad).
+ * @param healthFactor The updated health factor (in wad).
+ * @param thresholds The thresholds to check (in wad).
+ * @returns The thresholds crossed, along with the direction of each crossing.
+ */
+export const getThresholdCrossings = (
+  previousHealthFactor: BigNumber,
+  healthFactor: BigNumber,
+  thresholds: BigNumber[]
+) =>
+  thresholds.reduce<{ threshold: BigNumber; crossing: HealthFactorCrossing }[]>(
+    (crossings, threshold) => {
+      if (previousHealthFactor.gte(threshold) && healthFactor.lt(threshold))
+        crossings.push({ threshold, crossing: "below" });
+      else if (previousHealthFactor.lt(threshold) && healthFactor.gte(threshold))
+        crossings.push({ threshold, crossing: "above" });
+
+      return crossings;
+    },
+    []
+  );
+
+/**
+ * This function lists the watched users whose positions may have changed since the last block processed:
+ * the users touched by an event of Morpho, and the users with collateral or debt on a market whose price changed.
+ *
+ * @param positions The last computed position of each user, keyed by lowercased address.
+ * @param eventUsers The users touched by the events of Morpho, lowercased.
+ * @param updatedMarkets The markets whose price changed, lowercased.
+ */
+export const getTouchedUsers = (
+  positions: { [user: string]: WatchedPosition },
+  eventUsers: string[],
+  updatedMarkets: string[]
+) =>
+  Object.keys(positions).filter(
+    (user) =>
+      eventUsers.includes(user) ||
+      positions[user].markets.some((market) => updatedMarkets.includes(market))
+  );
+
+/**
+ * This function creates a sink writing each alert as a line of JSON, big numbers being written as decimal strings.
+ *
+ * @param stream The stream to write to. Defaults to the standard output.
+ */
+export const createJsonLinesSink =
+  (stream: NodeJS.WritableStream = process.stdout): HealthAlertSink =>
+  (alert) => {
+    stream.write(`${JSON.stringify(serializeDataPoint(alert))}\n`);
+  };
+
+/** The default time after which a request to a webhook is aborted (in milliseconds). */
+export const DEFAULT_WEBHOOK_TIMEOUT = 10_000;
+
+/**
+ * This function creates a sink posting each alert as JSON to a webhook, big numbers being written as decimal strings.
+ * A response with a status other than 2xx, or no response within the timeout, is raised as an error.
+ *
+ * @param url The url of the webhook.
+ * @param headers Additional headers to send, such as an authorization.
+ * @param timeout The time after which the request is aborted (in milliseconds).
+ */
+export const createWebhookSink =
+  (
+    url: string,
+    headers: { [name: string]: string } = {},
+    timeout = DEFAULT_WEBHOOK_TIMEOUT
+  ): HealthAlertSink =>
+  (alert) =>
+    new Promise<void>((resolve, reject) => {
+      const body = JSON.stringify(serializeDataPoint(alert));
+      const request = (url.startsWith("https:") ? httpsRequest : httpRequest)(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+            ...headers,
+          },
+        },
+        (response) => {
+          response.resume();
+
+          const { statusCode = 0 } = response;
+          if (statusCode < 200 || statusCode >= 300)
+            return reject(new Error(`Webhook ${url} responded with status ${statusCode}`));
+
+          resolve();
+        }
+      );
+
+      request.setTimeout(timeout, () =>
+        request.destroy(new Error(`Webhook ${url} did not respond within ${timeout}ms`))
+      );
+      request.on("error", reject);
+      request.end(body);
+    });
+
+/**
+ * This function creates a watcher of the health factors of a list of users, sending an alert to the sinks
+ * each time the health factor of a user crosses one of the thresholds.
+ * At each new block, the positions are recomputed only for the users touched by an event of Morpho
+ * or holding collateral or debt on a market whose oracle price, accounting for Morpho's e-mode category,
+ * changed since the last block processed.
+ *
+ * @param users The addresses of the users to watch.
+ * @param provider A provider instance
+ * @param overrides The overrides to apply, such as custom contract addresses.
+ * @param options The thresholds to alert, the sinks to send the alerts to and how the new blocks are retrieved.
+ */
+export const createHealthWatcher = (
+  users: string[],
+  provider: providers.BaseProvider,
+  overrides: SnippetOverrides = {},
+  {
+    thresholds = DEFAULT_HEALTH_THRESHOLDS,
+    atRiskThreshold = DEFAULT_AT_RISK_THRESHOLD,
+    sinks = [],
+    pollingInterval,
+    onError = () => {},
+  }: HealthWatcherOptions = {}
+): HealthWatcher => {
+  const watchedUsers = [...new Set(users.map((user) => user.toLowerCase()))];
+
+  let positions: { [user: string]: WatchedPosition } = {};
+  let prices: { [market: string]: BigNumber } = {};
+  let lastBlock: number | undefined;
+
+  let queue = Promise.resolve();
+  let timeout: NodeJS.Timeout | undefined;
+  let isWatching = false;
+
+  // The prices account for the e-mode category of Morpho, as in `getMarketsSnapshot`.
+  const getPrices = async (blockNumber: number) => {
+    const { morphoAaveV3, oracle, pool, multicall } = await getContracts(provider, overrides);
+    const [markets, eModeCategoryId] = await Promise.all([
+      morphoAaveV3.marketsCreated({ blockTag: blockNumber }),
+      morphoAaveV3.eModeCategoryId({ blockTag: blockNumber }),
+    ]);
+    const hasEMode = !eModeCategoryId.isZero();
+
+    const [[marketsPrices], ...eModeResults] = await aggregate(
+      multicall,
+      [
+        { contract: oracle, method: "getAssetsPrices", args: [markets] },
+        ...(hasEMode
+          ? [
+              { contract: pool, method: "getEModeCategoryData", args: [eModeCategoryId] },
+              ...markets.map((market) => ({
+                contract: pool,
+                method: "getReserveData",
+                args: [market],
+              })),
+            ]
+          : []),
+      ],
+      blockNumber
+    );
+
+    const priceSource: string = hasEMode ? eModeResults[0][0].priceSource : constants.AddressZero;
+    const eModePrice =
+      priceSource === constants.AddressZero
+        ? undefined
+        : await oracle.getAssetPrice(priceSource, { blockTag: blockNumber });
+
+    return markets.reduce<{ [market: string]: BigNumber }>((acc, market, i) => {
+      const assetPrice = (marketsPrices as BigNumber[])[i];
+      const inEMode =
+        hasEMode &&
+        isInEMode(eModeCategoryId, getEModeCategory(eModeResults[i + 1][0].configuration.data));
+
+      return {
+        ...acc,
+        [market.toLowerCase()]: inEMode ? getEModeAwarePrice(assetPrice, eModePrice) : assetPrice,
+      };
+    }, {});
+  };
+
+  const getPositions = async (touchedUsers: string[], blockNumber: number) => {
+    if (touchedUsers.length === 0) return {};
+
+    const { morphoAaveV3, multicall } = await getContracts(provider, overrides);
+    const results = await aggregate(
+      multicall,
+      touchedUsers.flatMap((user) => [
+        { contract: morphoAaveV3, method: "liquidityData", args: [user] },
+        { contract: morphoAaveV3, method: "userCollaterals", args: [user] },
+        { contract: morphoAaveV3, method: "userBorrows", args: [user] },
+      ]),
+      blockNumber
+    );
+
+    return touchedUsers.reduce<{ [user: string]: WatchedPosition & { status: HealthStatus } }>(
+      (acc, user, i) => {
+        const [{ borrowable, maxDebt, debt }] = results[3 * i];
+        const [collaterals] = results[3 * i + 1];
+        const [borrows] = results[3 * i + 2];
+        const { healthFactor, status } = computeHealthReport(
+          { borrowable, maxDebt, debt },
+          atRiskThreshold
+        );
+
+        return {
+          ...acc,
+          [user]: {
+            healthFactor,
+            status,
+            markets: [...new Set([...collaterals, ...borrows])].map((market: string) =>
+              market.toLowerCase()
+            ),
+            blockNumber,
+          },
+        };
+      },
+      {}
+    );
+  };
+
+  const initialize = async (blockNumber: number) => {
+    [prices, positions] = await Promise.all([
+      getPrices(blockNumber),
+      getPositions(watchedUsers, blockNumber),
+    ]);
+    lastBlock = blockNumber;
+  };
+
+  const processBlock = async (blockNumber: number) => {
+    if (lastBlock == null) {
+      await initialize(blockNumber);
+
+      return [];
+    }
+    if (blockNumber <= lastBlock) return [];
+
+    const [records, updatedPrices] = await Promise.all([
+      indexMorphoEvents(lastBlock + 1, blockNumber, provider, overrides),
+      getPrices(blockNumber),
+    ]);
+
+    const eventUsers = records.flatMap((record) =>
+      getRecordPositions(record).map(({ user }) => user.toLowerCase())
+    );
+    const updatedMarkets = Object.keys(updatedPrices).filter(
+      (market) => !prices[market]?.eq(updatedPrices[market])
+    );
+
+    const updatedPositions = await getPositions(
+      getTouchedUsers(positions, eventUsers, updatedMarkets),
+      blockNumber
+    );
+
+    const alerts = Object.keys(updatedPositions).flatMap((user) => {
+      const { healthFactor, status } = updatedPositions[user];
+      const previousHealthFactor = positions[user].healthFactor;
+
+      return getThresholdCrossings(previousHealthFactor, healthFactor, thresholds).map(
+        ({ threshold, crossing }): HealthFactorAlert => ({
+          blockNumber,
+          user,
+          crossing,
+          threshold,
+          previousHealthFactor,
+          healthFactor,
+          status,
+        })
+      );
+    });
+
+    prices = updatedPrices;
+    positions = Object.keys(updatedPositions).reduce(
+      (acc, user) => {
+        const { healthFactor, markets } = updatedPositions[user];
+
+        return { ...acc, [user]: { healthFactor, markets, blockNumber } };
+      },
+      { ...positions }
+    );
+    lastBlock = blockNumber;
+
+    for (const alert of alerts) for (const sink of sinks) await sink(alert);
+
+    return alerts;
+  };
+
+  // The blocks are processed sequentially, so that a slow block can't be overtaken by the next one.
+  const enqueue = (blockNumber: number) => {
+    queue = queue.then(() => processBlock(blockNumber).then(() => undefined)).catch(onError);
+  };
+
+  // The next poll is scheduled even if the block number can't be retrieved, so that an RPC error doesn't stop the watcher.
+  const poll = async () => {
+    try {
+      enqueue(await provider.getBlockNumber());
+      await queue;
+    } finally {
+      if (isWatching) timeout = setTimeout(() => poll().catch(onError), pollingInterval);
+    }
+  };
+
+  return {
+    start: async () => {
+      if (isWatching) return;
+
+      await initialize(await resolveBlockTag(provider, overrides));
+      isWatching = true;
+
+      if (pollingInterval == null) provider.on("block", enqueue);
+      else timeout = setTimeout(() => poll().catch(onError), pollingInterval);
+    },
+    stop: () => {
+      isWatching = false;
+
+      provider.off("block", enqueue);
+      if (timeout) clearTimeout(timeout);
+    },
+    processBlock,
+    getPositions: () => positions,
+  };
+};